@@ -0,0 +1,81 @@
+-- Persistent AI assistant conversations per book, chapter and user
+-- Run this in your Supabase SQL Editor AFTER database-setup.sql
+--
+-- Extends the ai_conversations / ai_messages tables from setup-ai-database-fixed.sql
+-- (created here if that script was never run) so the writing assistant can
+-- restore, search, rename and delete past threads.
+
+CREATE TABLE IF NOT EXISTS ai_conversations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ai_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES ai_conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL,
+  -- { "interrupted": true } for replies the author stopped mid-stream
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ai-minimal.sql created ai_conversations without book/chapter columns
+ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS biglio_id UUID;
+ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS chapter_id UUID;
+
+-- Threads go away with their book or chapter, and messages with their thread
+-- (ai-minimal.sql created ai_messages.conversation_id without a foreign key)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ai_messages_conversation_id_fkey') THEN
+    DELETE FROM ai_messages WHERE conversation_id IS NULL OR conversation_id NOT IN (SELECT id FROM ai_conversations);
+    ALTER TABLE ai_messages
+      ADD CONSTRAINT ai_messages_conversation_id_fkey FOREIGN KEY (conversation_id) REFERENCES ai_conversations(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ai_conversations_biglio_id_fkey') THEN
+    DELETE FROM ai_conversations WHERE biglio_id IS NOT NULL AND biglio_id NOT IN (SELECT id FROM biglios);
+    ALTER TABLE ai_conversations
+      ADD CONSTRAINT ai_conversations_biglio_id_fkey FOREIGN KEY (biglio_id) REFERENCES biglios(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ai_conversations_chapter_id_fkey') THEN
+    DELETE FROM ai_conversations WHERE chapter_id IS NOT NULL AND chapter_id NOT IN (SELECT id FROM chapters);
+    ALTER TABLE ai_conversations
+      ADD CONSTRAINT ai_conversations_chapter_id_fkey FOREIGN KEY (chapter_id) REFERENCES chapters(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_ai_conversations_thread
+  ON ai_conversations(user_id, biglio_id, chapter_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_messages_conversation_created
+  ON ai_messages(conversation_id, created_at);
+
+ALTER TABLE ai_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_messages ENABLE ROW LEVEL SECURITY;
+
+-- Replace the permissive policies from ai-minimal.sql and add the missing DELETE ones
+DROP POLICY IF EXISTS "Users can manage own conversations" ON ai_conversations;
+DROP POLICY IF EXISTS "Users can manage own messages" ON ai_messages;
+DROP POLICY IF EXISTS "Users can view own conversations" ON ai_conversations;
+DROP POLICY IF EXISTS "Users can create own conversations" ON ai_conversations;
+DROP POLICY IF EXISTS "Users can update own conversations" ON ai_conversations;
+DROP POLICY IF EXISTS "Users can view messages in own conversations" ON ai_messages;
+DROP POLICY IF EXISTS "Users can create messages in own conversations" ON ai_messages;
+
+CREATE POLICY "Users can manage own conversations" ON ai_conversations
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage messages in own conversations" ON ai_messages FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM ai_conversations
+    WHERE ai_conversations.id = ai_messages.conversation_id
+    AND ai_conversations.user_id = auth.uid()
+  )
+);
+
+SELECT 'AI conversation history tables updated successfully!' as message;
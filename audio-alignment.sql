@@ -0,0 +1,12 @@
+-- Read-along alignment for chapter audio
+-- Run this in your Supabase SQL Editor AFTER audio-job-queue.sql
+--
+-- The audio job queue stores a per-chapter alignment map next to the audio:
+-- every TTS chunk with its byte/time offsets and source text range, and every
+-- sentence with its start/end time. AudioPlayerModal uses it to highlight the
+-- sentence being spoken and to seek when a sentence is clicked.
+
+ALTER TABLE chapters
+ADD COLUMN IF NOT EXISTS audio_alignment JSONB;
+
+SELECT 'Audio alignment column added successfully!' as message;
@@ -0,0 +1,49 @@
+-- Keep biglios.total_duration_seconds in sync with chapter durations
+-- Run this in your Supabase SQL Editor AFTER add-missing-duration-field.sql
+--
+-- Chapter durations are measured from the generated MP3 frames by the audio
+-- job queue. The book total is the sum of its published chapters and is
+-- recalculated whenever a chapter's duration or publish state changes.
+
+-- Function to recalculate a book's total duration
+CREATE OR REPLACE FUNCTION update_book_total_duration()
+RETURNS TRIGGER AS $$
+DECLARE
+  book_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    book_id := OLD.biglio_id;
+  ELSE
+    book_id := NEW.biglio_id;
+  END IF;
+
+  UPDATE biglios
+  SET total_duration_seconds = COALESCE(
+    (SELECT SUM(duration_seconds)
+     FROM chapters
+     WHERE biglio_id = book_id AND is_published = true),
+    0
+  )
+  WHERE id = book_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to update the total when chapters change
+DROP TRIGGER IF EXISTS trigger_update_book_total_duration ON chapters;
+CREATE TRIGGER trigger_update_book_total_duration
+  AFTER INSERT OR DELETE OR UPDATE OF duration_seconds, is_published ON chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION update_book_total_duration();
+
+-- Recalculate existing books (previous totals came from size-based estimates)
+UPDATE biglios
+SET total_duration_seconds = COALESCE(
+  (SELECT SUM(duration_seconds)
+   FROM chapters
+   WHERE biglio_id = biglios.id AND is_published = true),
+  0
+);
+
+SELECT 'Audio duration sync installed successfully!' as message;
@@ -0,0 +1,86 @@
+-- Durable Audio Job Queue
+-- Run this in your Supabase SQL Editor AFTER setup-audio-tables.sql and publication-workflow.sql
+--
+-- /api/audio/generate now only enqueues a 'pending' job. Workers (the
+-- /api/audio/worker route) claim jobs with a lease, retry failures with
+-- exponential backoff and move each job through
+-- pending -> processing -> completed/failed.
+
+-- Queue columns on audio_jobs
+ALTER TABLE audio_jobs
+ADD COLUMN IF NOT EXISTS biglio_id UUID REFERENCES biglios(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS chapter_text TEXT,
+ADD COLUMN IF NOT EXISTS voice_type TEXT,
+ADD COLUMN IF NOT EXISTS progress INTEGER DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+-- Index for workers looking for runnable jobs
+CREATE INDEX IF NOT EXISTS idx_audio_jobs_claimable ON audio_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_audio_jobs_lease ON audio_jobs(lease_expires_at) WHERE status = 'processing';
+
+-- Claim the next runnable job for a worker.
+-- A job is runnable when it is pending and its backoff has elapsed, or when
+-- it is processing but the worker holding it let its lease expire (crashed or
+-- timed out). SKIP LOCKED lets several workers claim concurrently without
+-- ever handing the same job to two of them.
+CREATE OR REPLACE FUNCTION claim_audio_job(p_worker_id TEXT, p_lease_seconds INTEGER DEFAULT 120)
+RETURNS SETOF audio_jobs AS $$
+BEGIN
+  -- Jobs whose lease expired on their last allowed attempt are given up on,
+  -- and their chapters marked failed so they don't stay 'generating'
+  WITH expired AS (
+    UPDATE audio_jobs
+    SET status = 'failed',
+        error_message = COALESCE(error_message, 'Worker lease expired'),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        completed_at = NOW()
+    WHERE status = 'processing'
+      AND lease_expires_at < NOW()
+      AND attempts >= max_attempts
+    RETURNING id, chapter_id
+  )
+  UPDATE chapters
+  SET audio_status = 'failed'
+  WHERE id IN (SELECT chapter_id FROM expired)
+    -- Unless the chapter was queued again in the meantime
+    AND NOT EXISTS (
+      SELECT 1 FROM audio_jobs j
+      WHERE j.chapter_id = chapters.id
+        AND j.status IN ('pending', 'processing')
+        AND j.id NOT IN (SELECT id FROM expired)
+    );
+
+  RETURN QUERY
+  UPDATE audio_jobs
+  SET status = 'processing',
+      locked_by = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      attempts = attempts + 1,
+      progress = 0,
+      started_at = NOW()
+  WHERE id = (
+    SELECT id FROM audio_jobs
+    WHERE (status = 'pending' AND run_after <= NOW())
+       OR (status = 'processing' AND lease_expires_at < NOW())
+    ORDER BY run_after, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Stream job progress to useAudioJobs through Supabase Realtime
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE audio_jobs;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+SELECT 'Audio job queue installed successfully!' as message;
@@ -0,0 +1,33 @@
+-- Resume playback: listening_history columns used by the players
+-- Run this in your Supabase SQL Editor AFTER database-setup.sql
+--
+-- Adds the columns of the ListeningHistory model (position_seconds, completed,
+-- last_listened_at) and carries over rows written with the original
+-- last_position_seconds / completed_at columns, then drops those so the copy
+-- runs only once. One row per user and book, pointing at the chapter and
+-- second to resume from.
+
+ALTER TABLE listening_history ADD COLUMN IF NOT EXISTS position_seconds INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE listening_history ADD COLUMN IF NOT EXISTS completed BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE listening_history ADD COLUMN IF NOT EXISTS last_listened_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'listening_history' AND column_name = 'last_position_seconds'
+  ) THEN
+    UPDATE listening_history
+    SET position_seconds = COALESCE(last_position_seconds, 0),
+        completed = completed_at IS NOT NULL,
+        last_listened_at = COALESCE(updated_at, created_at, NOW());
+
+    ALTER TABLE listening_history DROP COLUMN last_position_seconds;
+    ALTER TABLE listening_history DROP COLUMN IF EXISTS completed_at;
+  END IF;
+END $$;
+
+-- The "Continue listening" row reads the most recent books per user
+CREATE INDEX IF NOT EXISTS idx_listening_history_recent ON listening_history(user_id, last_listened_at DESC);
+
+SELECT 'Listening history columns added successfully!' as message;
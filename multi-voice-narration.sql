@@ -0,0 +1,34 @@
+-- Multi-voice narration: per-book cast with a voice for each character
+-- Run this in your Supabase SQL Editor AFTER database-setup.sql
+--
+-- Quoted dialogue attributed to a cast member is narrated in that
+-- character's voice; everything else stays in the book's voice_preference.
+
+CREATE TABLE IF NOT EXISTS book_cast (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  biglio_id UUID NOT NULL REFERENCES biglios(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Other names the character is referred to by ("Liz" for "Elizabeth")
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  -- 'male' / 'female' or a provider voice id
+  voice TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (biglio_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_cast_biglio_id ON book_cast(biglio_id);
+
+ALTER TABLE book_cast ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Channel owners can manage their book cast" ON book_cast;
+CREATE POLICY "Channel owners can manage their book cast" ON book_cast FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM biglios
+    JOIN channels ON channels.id = biglios.channel_id
+    WHERE biglios.id = book_cast.biglio_id
+    AND channels.user_id = auth.uid()
+  )
+);
+
+SELECT 'Book cast table created successfully!' as message;
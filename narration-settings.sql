@@ -0,0 +1,30 @@
+-- Per-book narration settings: speaking rate, pitch, language, a
+-- pronunciation lexicon, pauses and chapter intro/outro, applied to every
+-- chapter's audio
+-- Run this in your Supabase SQL Editor AFTER add-voice-preference.sql
+--
+-- Stored as JSON, e.g.
+-- {
+--   "speakingRate": 0.95,
+--   "pitch": -2,
+--   "languageCode": "en-GB",
+--   "pronunciations": [
+--     { "term": "Hermione", "spoken": "her-MY-oh-nee" },
+--     { "term": "Nguyen", "spoken": "win", "ipa": "wɪn" }
+--   ],
+--   "paragraphPauseMs": 750,
+--   "scenePauseMs": 1500,
+--   "chunkPauseMs": 200,
+--   "chapterIntro": true,
+--   "channelOutro": true,
+--   "outroText": "You have been listening to {book}, from {channel}."
+-- }
+-- Missing fields use the defaults (1.0, 0, en-US, no pronunciations,
+-- 750/1500/200ms pauses, no intro or outro).
+
+ALTER TABLE biglios
+ADD COLUMN IF NOT EXISTS narration_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN biglios.narration_settings IS 'Narration settings for audio generation (speakingRate, pitch, languageCode, pronunciations, pauses, intro/outro) - applies to all chapters';
+
+SELECT 'Narration settings column added successfully!' as message;
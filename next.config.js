@@ -4,6 +4,11 @@ const withPWA = require('next-pwa')({
   register: true,
   skipWaiting: true,
   disable: process.env.NODE_ENV === 'development',
+  // Precache the downloads page and show it for pages that can't load
+  // offline, so downloaded books can be played without a connection
+  fallbacks: {
+    document: '/downloads',
+  },
 });
 
 const nextConfig = {
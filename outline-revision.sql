@@ -0,0 +1,166 @@
+-- Atomic outline revisions (regenerate, insert, split, merge)
+-- Run this in your Supabase SQL Editor AFTER database-setup.sql
+--
+-- chapters has UNIQUE (biglio_id, chapter_number) and chapter_number > 0, so
+-- renumbering row by row from the client collides with itself. reorder_chapters
+-- moves every chapter of the book out of the way first and then assigns 1..n in
+-- the given order, keeping chapter_number and order_index in step.
+-- apply_outline_revision makes the whole revision - chapter updates, the new or
+-- removed chapter and the renumbering - one transaction, so a failure part way
+-- never leaves an orphan chapter or a gap.
+
+ALTER TABLE chapters ADD COLUMN IF NOT EXISTS order_index INTEGER;
+
+CREATE OR REPLACE FUNCTION reorder_chapters(p_biglio_id UUID, p_chapter_ids UUID[])
+RETURNS void AS $$
+DECLARE
+  v_offset INTEGER;
+BEGIN
+  IF (SELECT COUNT(*) FROM chapters WHERE biglio_id = p_biglio_id) <> COALESCE(array_length(p_chapter_ids, 1), 0)
+     OR (SELECT COUNT(DISTINCT id) FROM unnest(p_chapter_ids) AS ordered(id)) <> COALESCE(array_length(p_chapter_ids, 1), 0)
+     OR EXISTS (
+       SELECT 1 FROM unnest(p_chapter_ids) AS ordered(id)
+       WHERE NOT EXISTS (SELECT 1 FROM chapters WHERE chapters.id = ordered.id AND chapters.biglio_id = p_biglio_id)
+     ) THEN
+    RAISE EXCEPTION 'Chapter order must list every chapter of the book exactly once';
+  END IF;
+
+  SELECT COALESCE(MAX(chapter_number), 0) INTO v_offset FROM chapters WHERE biglio_id = p_biglio_id;
+
+  UPDATE chapters
+  SET chapter_number = chapter_number + v_offset
+  WHERE biglio_id = p_biglio_id;
+
+  UPDATE chapters
+  SET chapter_number = ordered.position::INTEGER,
+      order_index = ordered.position::INTEGER,
+      updated_at = NOW()
+  FROM unnest(p_chapter_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE chapters.id = ordered.id AND chapters.biglio_id = p_biglio_id;
+
+  UPDATE biglios
+  SET total_chapters = array_length(p_chapter_ids, 1),
+      updated_at = NOW()
+  WHERE id = p_biglio_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply an outline revision previewed by the client.
+-- p_chapter_ids: the book's chapters in the order the client saw them; the
+--   revision is refused if they changed in the meantime
+-- p_chapter_number: as in OutlineRevisionRequest (0 inserts before chapter 1)
+-- p_chapters: the proposed chapters, [{ "title": ..., "outline_content": ... }]
+-- Returns the id of the chapter to select afterwards.
+CREATE OR REPLACE FUNCTION apply_outline_revision(
+  p_biglio_id UUID,
+  p_chapter_ids UUID[],
+  p_operation TEXT,
+  p_chapter_number INTEGER,
+  p_chapters JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_ids UUID[];
+  v_count INTEGER;
+  v_target_id UUID;
+  v_next_id UUID;
+  v_next_content TEXT;
+  v_new_id UUID;
+  v_next_number INTEGER;
+BEGIN
+  -- Hold the book's chapters until the revision is committed
+  PERFORM 1 FROM chapters WHERE biglio_id = p_biglio_id FOR UPDATE;
+
+  SELECT COALESCE(array_agg(id ORDER BY chapter_number), '{}') INTO v_ids
+  FROM chapters WHERE biglio_id = p_biglio_id;
+  v_count := COALESCE(array_length(v_ids, 1), 0);
+
+  IF v_ids IS DISTINCT FROM COALESCE(p_chapter_ids, '{}') THEN
+    RAISE EXCEPTION 'The chapters changed since the revision was generated';
+  END IF;
+
+  IF jsonb_typeof(p_chapters) <> 'array'
+     OR jsonb_array_length(p_chapters) < CASE WHEN p_operation = 'split' THEN 2 ELSE 1 END THEN
+    RAISE EXCEPTION 'Not enough chapters proposed for %', p_operation;
+  END IF;
+
+  IF p_operation = 'insert' THEN
+    IF p_chapter_number < 0 OR p_chapter_number > v_count THEN
+      RAISE EXCEPTION 'Cannot insert after chapter %', p_chapter_number;
+    END IF;
+  ELSIF p_operation IN ('regenerate', 'split', 'merge') THEN
+    IF p_chapter_number < 1 OR p_chapter_number > v_count THEN
+      RAISE EXCEPTION 'Chapter % does not exist', p_chapter_number;
+    END IF;
+    IF p_operation = 'merge' AND p_chapter_number = v_count THEN
+      RAISE EXCEPTION 'The last chapter has no following chapter to merge with';
+    END IF;
+    v_target_id := v_ids[p_chapter_number];
+  ELSE
+    RAISE EXCEPTION 'Unknown outline operation: %', p_operation;
+  END IF;
+
+  IF p_operation IN ('regenerate', 'split') THEN
+    UPDATE chapters
+    SET title = p_chapters->0->>'title',
+        outline_content = p_chapters->0->>'outline_content',
+        updated_at = NOW()
+    WHERE id = v_target_id;
+  END IF;
+
+  -- New chapters are added at the end first, then everything is renumbered into place
+  IF p_operation IN ('insert', 'split') THEN
+    SELECT COALESCE(MAX(chapter_number), 0) + 1 INTO v_next_number
+    FROM chapters WHERE biglio_id = p_biglio_id;
+
+    INSERT INTO chapters (biglio_id, title, content, outline_content, summary, chapter_number, order_index, is_published, duration_seconds)
+    VALUES (
+      p_biglio_id,
+      p_chapters->(CASE WHEN p_operation = 'split' THEN 1 ELSE 0 END)->>'title',
+      '',
+      p_chapters->(CASE WHEN p_operation = 'split' THEN 1 ELSE 0 END)->>'outline_content',
+      NULL,
+      v_next_number,
+      v_next_number,
+      false,
+      0
+    )
+    RETURNING id INTO v_new_id;
+
+    PERFORM reorder_chapters(
+      p_biglio_id,
+      v_ids[1:p_chapter_number] || v_new_id || v_ids[p_chapter_number + 1:v_count]
+    );
+  END IF;
+
+  IF p_operation = 'merge' THEN
+    v_next_id := v_ids[p_chapter_number + 1];
+    SELECT btrim(COALESCE(content, '')) INTO v_next_content FROM chapters WHERE id = v_next_id;
+
+    UPDATE chapters
+    SET title = p_chapters->0->>'title',
+        outline_content = p_chapters->0->>'outline_content',
+        updated_at = NOW()
+    WHERE id = v_target_id;
+
+    -- The written chapters are kept, one after the other; the old audio no longer matches
+    IF v_next_content <> '' THEN
+      UPDATE chapters
+      SET content = concat_ws(E'\n\n', NULLIF(btrim(COALESCE(content, '')), ''), v_next_content),
+          summary = NULL,
+          audio_url = NULL,
+          audio_alignment = NULL,
+          duration_seconds = 0
+      WHERE id = v_target_id;
+    END IF;
+
+    DELETE FROM chapters WHERE id = v_next_id;
+
+    PERFORM reorder_chapters(p_biglio_id, array_remove(v_ids, v_next_id));
+  END IF;
+
+  RETURN COALESCE(CASE WHEN p_operation = 'insert' THEN v_new_id END, v_target_id);
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Outline revision functions created successfully!' as message;
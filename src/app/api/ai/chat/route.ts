@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { detectBookType, getWritingStyleGuidance, getAudienceConsiderations } from '@/utils/bookTypeDetection';
+import { spellOutMeasurements } from '@/utils/spokenText';
+import { streamCompletion } from '@/lib/ai/streamCompletion';
 
 const anthropic = new Anthropic({
   apiKey: process.env.BOOK_ANTHROPIC_API!,
@@ -11,34 +13,41 @@ interface ChatMessage {
   content: string;
 }
 
-// Helper function to convert numbers to words for TTS
-function numberToWords(num: number): string {
-  const ones = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
-  const teens = ['ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
-  const tens = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
-  const hundreds = ['', 'one hundred', 'two hundred', 'three hundred', 'four hundred', 'five hundred', 'six hundred', 'seven hundred', 'eight hundred', 'nine hundred'];
+// Post-process a finished reply so it reads well as audiobook narration
+function cleanAssistantMessage(text: string): string {
+  let message = text;
 
-  if (num === 0) return 'zero';
-  if (num < 10) return ones[num];
-  if (num < 20) return teens[num - 10];
-  if (num < 100) {
-    const ten = Math.floor(num / 10);
-    const one = num % 10;
-    return tens[ten] + (one ? '-' + ones[one] : '');
-  }
-  if (num < 1000) {
-    const hundred = Math.floor(num / 100);
-    const remainder = num % 100;
-    return hundreds[hundred] + (remainder ? ' ' + numberToWords(remainder) : '');
-  }
+  // Apply content filtering/sanitization (from old system)
+  // Convert abbreviated measurements to fully spelled out versions for TTS
+  message = spellOutMeasurements(message);
+  
+  // Filter common AI buzzwords that don't sound natural in audiobooks
+  message = message.replace(/\bdelve into\b/gi, 'explore');
+  message = message.replace(/\bdelve deeper\b/gi, 'explore further');
+  message = message.replace(/\butilize\b/gi, 'use');
+  message = message.replace(/\bcommence\b/gi, 'begin');
+  message = message.replace(/\bunveil\b/gi, 'reveal');
+  message = message.replace(/\bcomprehensive\b/gi, 'complete');
   
-  // For larger numbers, just return the string version
-  return num.toString();
+  // Remove meta-commentary phrases that break audiobook immersion
+  message = message.replace(/\bas we wrap up this chapter,?\s*/gi, '');
+  message = message.replace(/\bin this chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
+  message = message.replace(/\bto wrap up,?\s*/gi, '');
+  message = message.replace(/\bin conclusion,?\s*/gi, '');
+  message = message.replace(/\bto summarize,?\s*/gi, '');
+  message = message.replace(/\bas we conclude,?\s*/gi, '');
+  message = message.replace(/\bto recap,?\s*/gi, '');
+  message = message.replace(/\bthroughout this chapter,?\s*/gi, '');
+  message = message.replace(/\bin the next chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
+  message = message.replace(/\bmoving forward,?\s*/gi, '');
+  message = message.replace(/\bas we move forward,?\s*/gi, '');
+
+  return message;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { messages, context } = await request.json();
+    const { messages, context, stream, raw } = await request.json();
     
     if (!messages || !Array.isArray(messages)) {
       return NextResponse.json(
@@ -208,60 +217,29 @@ ${audienceGuidance}`;
       content: msg.content
     }));
     
-    const response = await anthropic.messages.create({
+    const requestParams: Anthropic.Messages.MessageCreateParamsNonStreaming = {
       model: 'claude-3-5-sonnet-20241022',
       max_tokens: 4000,
       temperature: 0.7,
       system: systemPrompt,
       messages: anthropicMessages
-    });
-    
-    const responseContent = response.content[0];
-    let aiMessage = responseContent.type === 'text' ? responseContent.text : '';
-    
-    // Apply content filtering/sanitization (from old system)
-    // Convert abbreviated measurements to fully spelled out versions for TTS
-    aiMessage = aiMessage.replace(/(\d+)°?f\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} degrees Fahrenheit`;
-    });
-    aiMessage = aiMessage.replace(/(\d+)°?c\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} degrees Celsius`;
-    });
-    aiMessage = aiMessage.replace(/(\d+)\s*oz\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} ounce${number !== 1 ? 's' : ''}`;
-    });
-    aiMessage = aiMessage.replace(/(\d+)\s*g\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} gram${number !== 1 ? 's' : ''}`;
-    });
-    aiMessage = aiMessage.replace(/(\d+)\s*lbs?\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} pound${number !== 1 ? 's' : ''}`;
-    });
+    };
+
+    // Edit suggestions (raw) keep the model's wording so the author only reviews its own changes
+    const finishMessage = (text: string) => raw ? text : cleanAssistantMessage(text);
+
+    // Streaming clients get the reply token by token as server-sent events
+    if (stream) {
+      return streamCompletion(anthropic, requestParams, request.signal, (text, message) => ({
+        message: finishMessage(text),
+        usage: message.usage
+      }));
+    }
     
-    // Filter common AI buzzwords that don't sound natural in audiobooks
-    aiMessage = aiMessage.replace(/\bdelve into\b/gi, 'explore');
-    aiMessage = aiMessage.replace(/\bdelve deeper\b/gi, 'explore further');
-    aiMessage = aiMessage.replace(/\butilize\b/gi, 'use');
-    aiMessage = aiMessage.replace(/\bcommence\b/gi, 'begin');
-    aiMessage = aiMessage.replace(/\bunveil\b/gi, 'reveal');
-    aiMessage = aiMessage.replace(/\bcomprehensive\b/gi, 'complete');
+    const response = await anthropic.messages.create(requestParams);
     
-    // Remove meta-commentary phrases that break audiobook immersion
-    aiMessage = aiMessage.replace(/\bas we wrap up this chapter,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bin this chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bto wrap up,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bin conclusion,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bto summarize,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bas we conclude,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bto recap,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bthroughout this chapter,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bin the next chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bmoving forward,?\s*/gi, '');
-    aiMessage = aiMessage.replace(/\bas we move forward,?\s*/gi, '');
+    const responseContent = response.content[0];
+    const aiMessage = finishMessage(responseContent.type === 'text' ? responseContent.text : '');
     
     return NextResponse.json({
       success: true,
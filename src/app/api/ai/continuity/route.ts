@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { detectBookType } from '@/utils/bookTypeDetection';
+import { CONTINUITY_FULL_TEXT_LIMIT, parseContinuityFindings, type ContinuityBasis } from '@/lib/ai/continuity';
+import { formatStoryBible, type StoryBibleEntry } from '@/lib/ai/storyBible';
+
+const anthropic = new Anthropic({
+  apiKey: process.env.BOOK_ANTHROPIC_API!,
+});
+
+interface ContinuityChapter {
+  chapterNumber: number;
+  title: string;
+  // Chapter content, or its summary when basis is 'summaries'
+  text: string;
+}
+
+interface ContinuityOptions {
+  bookTitle: string;
+  bookType?: 'fiction' | 'non-fiction';
+  genre?: string;
+  basis: ContinuityBasis;
+  chapters: ContinuityChapter[];
+  storyBible?: StoryBibleEntry[];
+}
+
+/**
+ * Check a whole book for continuity errors: characters whose names or traits
+ * change, timeline conflicts, dropped plot threads and repeated content.
+ * Returns findings with quotes the editor can locate in the chapters.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.BOOK_ANTHROPIC_API) {
+      return NextResponse.json(
+        { error: 'AI service not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { bookTitle, bookType: inputBookType, genre, basis, chapters, storyBible = [] }: ContinuityOptions = await request.json();
+
+    const readable = Array.isArray(chapters) ? chapters.filter(chapter => chapter?.text?.trim()) : [];
+    if (readable.length < 2) {
+      return NextResponse.json(
+        { error: 'Write at least two chapters before checking continuity' },
+        { status: 400 }
+      );
+    }
+
+    const totalLength = readable.reduce((sum, chapter) => sum + chapter.text.length, 0);
+    if (totalLength > CONTINUITY_FULL_TEXT_LIMIT * 1.1) {
+      return NextResponse.json(
+        { error: 'The book is too long to check in full - check it from chapter summaries instead' },
+        { status: 400 }
+      );
+    }
+
+    const bookType = inputBookType || detectBookType(genre);
+    const fromSummaries = basis === 'summaries';
+
+    const systemPrompt = `You are Biglio, an AI writing assistant for books. Never say you are Claude, Anthropic, or any other company.
+
+You are a meticulous continuity editor. You read a whole ${bookType} book and report only real problems a reader would notice. Respond ONLY with valid JSON - no explanations or additional text.`;
+
+    let prompt = `Check "${bookTitle}"${genre ? ` (${genre})` : ''} for continuity errors across its ${readable.length} chapters.`;
+
+    if (fromSummaries) {
+      prompt += `\n\nThe book is too long to read in full, so each chapter is given as a detailed summary.`;
+    }
+
+    const bibleEntries = Array.isArray(storyBible) ? storyBible.filter(entry => entry?.name) : [];
+    if (bibleEntries.length > 0) {
+      prompt += `\n\nSTORY BIBLE (the author's reference; text that contradicts it is an error):\n${formatStoryBible(bibleEntries.map(entry => ({ ...entry, aliases: entry.aliases || [], description: entry.description || '' })))}`;
+    }
+
+    prompt += `\n\n${readable
+      .map(chapter => `=== CHAPTER ${chapter.chapterNumber}: ${chapter.title} ===\n${chapter.text.trim()}`)
+      .join('\n\n')}`;
+
+    prompt += `\n\nLook for:
+1. character: a name spelled or changed differently, or traits, ages, appearance, relationships or knowledge that contradict earlier chapters
+2. timeline: events, days, dates, seasons, ages or travel times that cannot all be true
+3. plot_thread: set-ups, promises, mysteries or objects that are introduced and then never mentioned again
+4. repetition: scenes, explanations, descriptions or passages that appear more than once
+
+Use severity "error" for outright contradictions and "warning" for things that are probably unintended.
+${fromSummaries
+  ? 'Quotes must be copied from the summaries; leave "quote" empty if there is nothing to quote.'
+  : 'Each quote must be copied EXACTLY from the chapter text (one sentence or less, never paraphrased) so the author can find it.'}
+List every chapter involved in a finding, e.g. both places of a contradiction. Report each problem once.
+
+Respond ONLY with a JSON array, or [] if there are no problems:
+[
+  {
+    "type": "character" | "timeline" | "plot_thread" | "repetition",
+    "severity": "error" | "warning",
+    "title": "Short description of the problem",
+    "explanation": "What contradicts what, and how to fix it",
+    "locations": [
+      { "chapterNumber": 2, "quote": "Exact words from chapter 2" },
+      { "chapterNumber": 7, "quote": "Exact words from chapter 7" }
+    ]
+  }
+]`;
+
+    console.log(`🔍 Checking continuity of "${bookTitle}": ${readable.length} chapters from ${fromSummaries ? 'summaries' : 'full text'} (${totalLength} characters)`);
+
+    const response = await anthropic.messages.create({
+      model: 'claude-3-5-sonnet-20241022',
+      max_tokens: 4000,
+      temperature: 0.2,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: prompt }]
+    });
+
+    const responseContent = response.content[0];
+    const maxChapterNumber = Math.max(...readable.map(chapter => chapter.chapterNumber));
+    const findings = parseContinuityFindings(responseContent?.type === 'text' ? responseContent.text : '', maxChapterNumber);
+
+    console.log(`✓ Continuity check found ${findings.length} issue${findings.length === 1 ? '' : 's'}`);
+
+    return NextResponse.json({
+      success: true,
+      findings,
+      basis: fromSummaries ? 'summaries' : 'text',
+      usage: response.usage
+    });
+
+  } catch (error) {
+    console.error('[CONTINUITY API] Error:', error);
+
+    if (error instanceof Anthropic.APIError && error.status === 429) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded - please try again in a moment' },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Continuity check failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+
+const TITLE_LENGTH = 60;
+
+interface IncomingMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  interrupted?: boolean;
+}
+
+function isValidMessage(message: unknown): message is IncomingMessage {
+  if (!message || typeof message !== 'object') return false;
+  const { role, content } = message as Record<string, unknown>;
+  return (role === 'user' || role === 'assistant') && typeof content === 'string' && content.trim().length > 0;
+}
+
+// "How do I make the storm scene more tense?" -> thread title
+function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split('\n')[0];
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH).trimEnd()}…` : firstLine;
+}
+
+// POST /api/ai/conversations/[id]/messages - Append an exchange to a thread
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ 
+      cookies: async () => await cookies() 
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { messages } = await request.json();
+
+    if (!Array.isArray(messages) || messages.length === 0 || !messages.every(isValidMessage)) {
+      return NextResponse.json({ 
+        error: 'messages must be a non-empty array of { role, content }' 
+      }, { status: 400 });
+    }
+
+    const { data: conversation, error: conversationError } = await supabase
+      .from('ai_conversations')
+      .select('id, title')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (conversationError || !conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    // Rows inserted together would share NOW(), so spread timestamps to keep their order
+    const now = Date.now();
+    const { error: insertError } = await supabase
+      .from('ai_messages')
+      .insert(messages.map((message: IncomingMessage, index: number) => ({
+        conversation_id: id,
+        role: message.role,
+        content: message.content,
+        metadata: message.interrupted ? { interrupted: true } : {},
+        created_at: new Date(now + index).toISOString()
+      })));
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    // Untitled threads are named after their first question
+    const firstQuestion = messages.find((message: IncomingMessage) => message.role === 'user');
+    const { data: updated, error: updateError } = await supabase
+      .from('ai_conversations')
+      .update({
+        updated_at: new Date(now + messages.length).toISOString(),
+        ...(!conversation.title && firstQuestion && { title: titleFromMessage(firstQuestion.content) })
+      })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return NextResponse.json({ conversation: updated });
+  } catch (error) {
+    console.error('Append AI messages error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to save messages' 
+    }, { status: 500 });
+  }
+}
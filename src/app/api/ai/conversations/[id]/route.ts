@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+
+// GET /api/ai/conversations/[id] - Load a thread with its messages
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ 
+      cookies: async () => await cookies() 
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: conversation, error } = await supabase
+      .from('ai_conversations')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const { data: messages, error: messagesError } = await supabase
+      .from('ai_messages')
+      .select('*')
+      .eq('conversation_id', id)
+      .order('created_at', { ascending: true });
+
+    if (messagesError) {
+      throw messagesError;
+    }
+
+    return NextResponse.json({ conversation, messages: messages || [] });
+  } catch (error) {
+    console.error('Load AI conversation error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to load conversation' 
+    }, { status: 500 });
+  }
+}
+
+// PATCH /api/ai/conversations/[id] - Rename a thread
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ 
+      cookies: async () => await cookies() 
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { title } = await request.json();
+
+    if (typeof title !== 'string' || !title.trim() || title.length > 200) {
+      return NextResponse.json({ 
+        error: 'Title must be between 1 and 200 characters' 
+      }, { status: 400 });
+    }
+
+    const { data: conversation, error: updateError } = await supabase
+      .from('ai_conversations')
+      .update({ title: title.trim() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('*')
+      .single();
+
+    if (updateError || !conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Rename AI conversation error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to rename conversation' 
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/ai/conversations/[id] - Delete a thread and its messages
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ 
+      cookies: async () => await cookies() 
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Messages are removed by ON DELETE CASCADE
+    const { error: deleteError } = await supabase
+      .from('ai_conversations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete AI conversation error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to delete conversation' 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+
+const SNIPPET_RADIUS = 60;
+
+// Match the query literally, escaping LIKE wildcards
+function likePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+function snippetAround(content: string, query: string): string {
+  const index = content.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return content.slice(0, SNIPPET_RADIUS * 2);
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + query.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+}
+
+// GET /api/ai/conversations?biglio_id=xxx&chapter_id=yyy&q=zzz - List the user's assistant threads
+// With q, threads anywhere in the book whose title or messages match are returned
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ 
+      cookies: async () => await cookies() 
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const biglio_id = searchParams.get('biglio_id');
+    const chapter_id = searchParams.get('chapter_id');
+    const query = searchParams.get('q')?.trim() || '';
+
+    if (!biglio_id) {
+      return NextResponse.json({ error: 'biglio_id is required' }, { status: 400 });
+    }
+
+    if (!query) {
+      let threadsQuery = supabase
+        .from('ai_conversations')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('biglio_id', biglio_id)
+        .order('updated_at', { ascending: false })
+        .limit(50);
+
+      if (chapter_id) {
+        threadsQuery = threadsQuery.eq('chapter_id', chapter_id);
+      }
+
+      const { data: conversations, error } = await threadsQuery;
+      if (error) throw error;
+
+      return NextResponse.json({ conversations: conversations || [] });
+    }
+
+    const pattern = likePattern(query);
+
+    const [titleMatches, messageMatches] = await Promise.all([
+      supabase
+        .from('ai_conversations')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('biglio_id', biglio_id)
+        .ilike('title', pattern)
+        .limit(50),
+      supabase
+        .from('ai_messages')
+        .select('content, conversation:ai_conversations!inner(*)')
+        .eq('conversation.user_id', user.id)
+        .eq('conversation.biglio_id', biglio_id)
+        .ilike('content', pattern)
+        .order('created_at', { ascending: false })
+        .limit(200)
+    ]);
+
+    if (titleMatches.error) throw titleMatches.error;
+    if (messageMatches.error) throw messageMatches.error;
+
+    // One result per thread, with a snippet from its most recent matching message
+    const results = new Map<string, Record<string, unknown>>();
+    for (const row of messageMatches.data || []) {
+      const conversation = row.conversation as unknown as Record<string, unknown>;
+      const id = conversation.id as string;
+      if (!results.has(id)) {
+        results.set(id, { ...conversation, snippet: snippetAround(row.content, query) });
+      }
+    }
+    for (const conversation of titleMatches.data || []) {
+      if (!results.has(conversation.id)) {
+        results.set(conversation.id, conversation);
+      }
+    }
+
+    const conversations = [...results.values()].sort((a, b) =>
+      String(b.updated_at).localeCompare(String(a.updated_at))
+    );
+
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('List AI conversations error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to load conversations' 
+    }, { status: 500 });
+  }
+}
+
+// POST /api/ai/conversations - Start a new assistant thread for a book or chapter
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ 
+      cookies: async () => await cookies() 
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { biglio_id, chapter_id, title } = await request.json();
+
+    if (!biglio_id) {
+      return NextResponse.json({ error: 'biglio_id is required' }, { status: 400 });
+    }
+
+    const { data: conversation, error: insertError } = await supabase
+      .from('ai_conversations')
+      .insert({
+        user_id: user.id,
+        biglio_id,
+        chapter_id: chapter_id || null,
+        title: typeof title === 'string' && title.trim() ? title.trim().slice(0, 200) : null
+      })
+      .select('*')
+      .single();
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Create AI conversation error:', error);
+    return NextResponse.json({ 
+      error: 'Failed to create conversation' 
+    }, { status: 500 });
+  }
+}
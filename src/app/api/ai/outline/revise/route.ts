@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { detectBookType, getOutlineGuidance } from '@/utils/bookTypeDetection';
+import {
+  OUTLINE_REVISION_CHAPTERS,
+  OUTLINE_SUMMARY_WORDS,
+  OUTLINE_TITLE_MAX_LENGTH,
+  OutlineError,
+  validateRevisionRequest,
+  type OutlineRevisionRequest
+} from '@/lib/ai/outline';
+import { outlineErrorResponse, requestOutline } from '@/lib/ai/outlineRequest';
+
+const anthropic = new Anthropic({
+  apiKey: process.env.BOOK_ANTHROPIC_API!,
+});
+
+interface ExistingChapter {
+  title: string;
+  summary?: string;
+}
+
+function describeChapter(chapter: ExistingChapter, index: number): string {
+  return `Chapter ${index + 1}: ${chapter.title}\n${(chapter.summary || '(no outline yet)').trim()}`;
+}
+
+// What to write for each operation, with the neighbouring chapters it must connect
+function describeTask(request: OutlineRevisionRequest, outline: ExistingChapter[]): string {
+  const { operation, chapterNumber } = request;
+  const previous = outline[chapterNumber - 2];
+  const next = outline[chapterNumber];
+
+  switch (operation) {
+    case 'regenerate':
+      return `Rewrite chapter ${chapterNumber} ("${outline[chapterNumber - 1].title}") with a fresh take. It must follow on from ${previous ? `chapter ${chapterNumber - 1} ("${previous.title}")` : 'the start of the book'} and set up ${next ? `chapter ${chapterNumber + 1} ("${next.title}")` : 'the end of the book'} without repeating either. Return 1 chapter.`;
+    case 'insert': {
+      const before = outline[chapterNumber - 1];
+      const after = outline[chapterNumber];
+      return `Write a NEW chapter that goes ${before ? `after chapter ${chapterNumber} ("${before.title}")` : 'at the very beginning of the book'} and ${after ? `before the current chapter ${chapterNumber + 1} ("${after.title}")` : 'at the very end of the book'}. It must bridge the chapters around it and add something the outline is missing, without duplicating existing chapters. Return 1 chapter.`;
+    }
+    case 'split':
+      return `Split chapter ${chapterNumber} ("${outline[chapterNumber - 1].title}") into two consecutive chapters. Together they must cover everything in the original and keep its place between the chapters around it; each needs its own arc and a natural ending point. Return 2 chapters.`;
+    case 'merge':
+      return `Merge chapter ${chapterNumber} ("${outline[chapterNumber - 1].title}") and chapter ${chapterNumber + 1} ("${next.title}") into one chapter. Keep the essential events and ideas of both, drop repetition, and keep the connection to the chapters before and after. Return 1 chapter.`;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.BOOK_ANTHROPIC_API) {
+      console.error('BOOK_ANTHROPIC_API environment variable is not set');
+      throw new OutlineError('not_configured', 'AI service not configured');
+    }
+
+    const { operation, chapterNumber, instructions, book, outline } = await request.json();
+    const revision: OutlineRevisionRequest = { operation, chapterNumber, instructions };
+
+    if (!book?.title || !Array.isArray(outline) || outline.length === 0) {
+      throw new OutlineError('invalid_request', 'Book details and the current outline are required');
+    }
+    const invalid = validateRevisionRequest(revision, outline.length);
+    if (invalid) {
+      throw new OutlineError('invalid_request', invalid);
+    }
+
+    const bookType = book.bookType || detectBookType(book.genre);
+    const resultCount = OUTLINE_REVISION_CHAPTERS[revision.operation];
+
+    console.log('Revising outline:', { title: book.title, operation, chapterNumber, chapters: outline.length });
+
+    const prompt = `You are an expert book editor revising the chapter outline of a ${bookType === 'non-fiction' ? 'NON-FICTION' : 'fiction'} book. Keep narrative continuity: names, facts, timeline and tone must stay consistent with the rest of the outline, and the book must still flow from chapter to chapter.
+
+Book Details:
+- Title: ${book.title}
+- Genre: ${book.genre || 'Not specified'}
+- Description: ${book.description || 'Not provided'}
+- Target Audience: ${Array.isArray(book.targetAudience) ? book.targetAudience.join(', ') : book.targetAudience || 'General audience'}
+
+Current Outline:
+${(outline as ExistingChapter[]).map(describeChapter).join('\n\n')}
+
+Task:
+${describeTask(revision, outline)}
+${instructions?.trim() ? `\nAuthor's instructions: ${instructions.trim()}\n` : ''}
+Requirements:
+1. Each chapter must have a title (max ${OUTLINE_TITLE_MAX_LENGTH} characters) and a summary (${OUTLINE_SUMMARY_WORDS.min}-${OUTLINE_SUMMARY_WORDS.max} words).
+2. Each chapter should be structured to work well as audio content (2000-4000 words when written).
+
+${getOutlineGuidance(bookType)}
+
+Respond ONLY with a valid JSON array of exactly ${resultCount} chapter${resultCount === 1 ? '' : 's'} in this format:
+[
+  {
+    "chapterNumber": 1,
+    "title": "Chapter Title",
+    "summary": "Detailed summary of the chapter",
+    "keyPoints": ["Key point 1", "Key point 2", "Key point 3"],
+    "estimatedWordCount": 3000
+  }
+]`;
+
+    const { outline: chapters, attempts, usage } = await requestOutline(anthropic, prompt, resultCount);
+
+    return NextResponse.json({
+      success: true,
+      chapters,
+      attempts,
+      usage
+    });
+
+  } catch (error) {
+    console.error('AI outline revision error:', error);
+    return outlineErrorResponse(error);
+  }
+}
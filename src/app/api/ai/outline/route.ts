@@ -1,45 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { detectBookType, getOutlineGuidance } from '@/utils/bookTypeDetection';
+import { OutlineError } from '@/lib/ai/outline';
+import { outlineErrorResponse, requestOutline } from '@/lib/ai/outlineRequest';
 
 const anthropic = new Anthropic({
   apiKey: process.env.BOOK_ANTHROPIC_API!,
 });
 
-// Helper function to convert numbers to words for TTS
-function numberToWords(num: number): string {
-  const ones = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
-  const teens = ['ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
-  const tens = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
-  const hundreds = ['', 'one hundred', 'two hundred', 'three hundred', 'four hundred', 'five hundred', 'six hundred', 'seven hundred', 'eight hundred', 'nine hundred'];
-
-  if (num === 0) return 'zero';
-  if (num < 10) return ones[num];
-  if (num < 20) return teens[num - 10];
-  if (num < 100) {
-    const ten = Math.floor(num / 10);
-    const one = num % 10;
-    return tens[ten] + (one ? '-' + ones[one] : '');
-  }
-  if (num < 1000) {
-    const hundred = Math.floor(num / 100);
-    const remainder = num % 100;
-    return hundreds[hundred] + (remainder ? ' ' + numberToWords(remainder) : '');
-  }
-  
-  // For larger numbers, just return the string version
-  return num.toString();
-}
+const MAX_CHAPTER_COUNT = 50;
 
 export async function POST(request: NextRequest) {
   try {
     // Check if API key is configured
     if (!process.env.BOOK_ANTHROPIC_API) {
       console.error('BOOK_ANTHROPIC_API environment variable is not set');
-      return NextResponse.json(
-        { error: 'AI service not configured', details: 'Missing API key configuration' },
-        { status: 500 }
-      );
+      throw new OutlineError('not_configured', 'AI service not configured');
     }
     
     const { 
@@ -53,10 +29,10 @@ export async function POST(request: NextRequest) {
     } = await request.json();
     
     if (!title || !description) {
-      return NextResponse.json(
-        { error: 'Title and description are required' },
-        { status: 400 }
-      );
+      throw new OutlineError('invalid_request', 'Title and description are required');
+    }
+    if (!Number.isInteger(chapterCount) || chapterCount < 1 || chapterCount > MAX_CHAPTER_COUNT) {
+      throw new OutlineError('invalid_request', `Chapter count must be a whole number from 1 to ${MAX_CHAPTER_COUNT}`);
     }
     
     // Detect book type and build specialized prompt (from old system)
@@ -137,121 +113,19 @@ Respond ONLY with a valid JSON array in this format:
 
 ${existingOutline ? `\nExisting outline to improve upon:\n${JSON.stringify(existingOutline, null, 2)}` : ''}`;
 
-    // Use the proven system from old Biglio
-    const systemPrompt = `You are Biglio, an AI writing assistant for books. Never say you are Claude, Anthropic, or any other company. Respond ONLY with valid JSON - no explanations or additional text.`;
-    
-    const response = await anthropic.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 4000,
-      temperature: 0.8,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt
-        }
-      ]
-    });
-    
-    const responseContent = response.content[0];
-    let aiResponse = responseContent.type === 'text' ? responseContent.text : '';
-    
-    // Apply content filtering/sanitization (from old system)
-    // Convert abbreviated measurements to fully spelled out versions for TTS
-    aiResponse = aiResponse.replace(/(\d+)°?f\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} degrees Fahrenheit`;
-    });
-    aiResponse = aiResponse.replace(/(\d+)°?c\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} degrees Celsius`;
-    });
-    aiResponse = aiResponse.replace(/(\d+)\s*oz\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} ounce${number !== 1 ? 's' : ''}`;
-    });
-    aiResponse = aiResponse.replace(/(\d+)\s*g\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} gram${number !== 1 ? 's' : ''}`;
-    });
-    aiResponse = aiResponse.replace(/(\d+)\s*lbs?\b/gi, (match, num) => {
-      const number = parseInt(num);
-      return `${numberToWords(number)} pound${number !== 1 ? 's' : ''}`;
-    });
-    
-    // Filter common AI buzzwords in outline content
-    aiResponse = aiResponse.replace(/\bdelve into\b/gi, 'explore');
-    aiResponse = aiResponse.replace(/\bdelve deeper\b/gi, 'explore further');
-    aiResponse = aiResponse.replace(/\butilize\b/gi, 'use');
-    aiResponse = aiResponse.replace(/\bcommence\b/gi, 'begin');
-    aiResponse = aiResponse.replace(/\bunveil\b/gi, 'reveal');
-    aiResponse = aiResponse.replace(/\bcomprehensive\b/gi, 'complete');
-    
-    // Remove meta-commentary phrases that break audiobook immersion
-    aiResponse = aiResponse.replace(/\bas we wrap up this chapter,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bin this chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bto wrap up,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bin conclusion,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bto summarize,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bas we conclude,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bto recap,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bthroughout this chapter,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bin the next chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bmoving forward,?\s*/gi, '');
-    aiResponse = aiResponse.replace(/\bas we move forward,?\s*/gi, '');
-    
-    // Try to parse JSON response
-    let outline;
-    try {
-      // Extract JSON from response if it's wrapped in markdown or other text
-      const jsonMatch = aiResponse.match(/\[[\s\S]*\]/);
-      const jsonString = jsonMatch ? jsonMatch[0] : aiResponse;
-      outline = JSON.parse(jsonString);
-    } catch {
-      // If JSON parsing fails, return the raw response
-      outline = {
-        rawResponse: aiResponse,
-        note: 'Could not parse as JSON - raw AI response provided'
-      };
-    }
+    // Validated, with automatic repair attempts when the output is malformed
+    const { outline, attempts, usage, rawResponse } = await requestOutline(anthropic, userPrompt, chapterCount);
     
     return NextResponse.json({
       success: true,
       outline,
-      usage: response.usage,
-      rawResponse: aiResponse
+      attempts,
+      usage,
+      rawResponse
     });
     
   } catch (error) {
     console.error('AI outline error:', error);
-    
-    // More detailed error information
-    let errorMessage = 'AI outline generation failed';
-    let errorDetails = 'Unknown error';
-    
-    if (error instanceof Error) {
-      errorMessage = error.message;
-      errorDetails = error.stack || error.message;
-    }
-    
-    // Check for common issues
-    if (errorMessage.includes('API key')) {
-      errorDetails = 'Invalid or missing Anthropic API key';
-    } else if (errorMessage.includes('rate limit')) {
-      errorDetails = 'Rate limit exceeded - please try again in a moment';
-    } else if (errorMessage.includes('timeout')) {
-      errorDetails = 'Request timed out - please try again';
-    }
-    
-    console.error('Detailed error:', { errorMessage, errorDetails, originalError: error });
-    
-    return NextResponse.json(
-      { 
-        error: errorMessage,
-        details: errorDetails,
-        timestamp: new Date().toISOString()
-      },
-      { status: 500 }
-    );
+    return outlineErrorResponse(error);
   }
-}
\ No newline at end of file
+}
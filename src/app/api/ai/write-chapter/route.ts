@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { detectBookType, getWritingStyleGuidance, getAudienceConsiderations } from '@/utils/bookTypeDetection';
+import { streamCompletion } from '@/lib/ai/streamCompletion';
+import { formatStoryBible, type StoryBibleEntry } from '@/lib/ai/storyBible';
+
+const anthropic = new Anthropic({
+  apiKey: process.env.BOOK_ANTHROPIC_API!,
+});
+
+const DRAFT_WORD_RANGE = { min: 2000, max: 4000 };
+
+interface PreviousChapter {
+  chapterNumber: number;
+  title: string;
+  summary: string;
+}
+
+interface WriteChapterOptions {
+  bookTitle: string;
+  bookDescription?: string;
+  bookType?: 'fiction' | 'non-fiction';
+  genre?: string;
+  targetAudience?: string[];
+  readingLevel?: string;
+  totalChapters?: number;
+  chapterTitle: string;
+  chapterNumber: number;
+  chapterOutline: string;
+  previousChapters?: PreviousChapter[];
+  // Story bible entries relevant to this chapter
+  storyBible?: StoryBibleEntry[];
+  // Words to aim for, clamped to DRAFT_WORD_RANGE
+  targetWords?: number;
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Stream a complete first draft of one chapter, written from its outline, the
+ * summaries of the chapters before it and the relevant story bible entries.
+ * The draft is returned to the editor as a suggestion; nothing is saved here.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.BOOK_ANTHROPIC_API) {
+      return NextResponse.json(
+        { error: 'AI service not configured' },
+        { status: 500 }
+      );
+    }
+
+    const options: WriteChapterOptions = await request.json();
+
+    const {
+      bookTitle,
+      bookDescription,
+      bookType: inputBookType,
+      genre,
+      targetAudience,
+      readingLevel,
+      totalChapters,
+      chapterTitle,
+      chapterNumber,
+      chapterOutline,
+      previousChapters = [],
+      storyBible = []
+    } = options;
+
+    if (!chapterOutline || chapterOutline.trim().length < 20) {
+      return NextResponse.json(
+        { error: 'Write an outline for this chapter before drafting it' },
+        { status: 400 }
+      );
+    }
+
+    const targetWords = Math.min(
+      DRAFT_WORD_RANGE.max,
+      Math.max(DRAFT_WORD_RANGE.min, Number(options.targetWords) || 3000)
+    );
+
+    const bookType = inputBookType || detectBookType(genre);
+    const writingGuidance = getWritingStyleGuidance(bookType);
+    const audienceGuidance = getAudienceConsiderations(bookType, targetAudience);
+
+    const systemPrompt = `You are Biglio, an AI writing assistant for books. Never say you are Claude, Anthropic, or any other company.
+
+You are drafting a complete chapter of a ${bookType} book that will be published as an audiobook. Return only the chapter prose: no title, no chapter heading, no notes to the author, and no commentary before or after the text.
+
+AUDIOBOOK FORMATTING (MANDATORY):
+- Plain text only. No markdown, asterisks, hashtags, bullet points, or numbered lists
+- Never write "Step 1:" or similar; turn any sequence into flowing narration
+- Spell out all numbers, dates, percentages, and amounts of money
+- Keep every sentence under 800 characters
+- Separate paragraphs with a blank line
+- Avoid meta-commentary such as "in this chapter" or "to wrap up"
+
+${writingGuidance}
+${audienceGuidance}`;
+
+    let prompt = `Write Chapter ${chapterNumber}${chapterTitle ? `, "${chapterTitle}",` : ''} of "${bookTitle}" in full.
+
+BOOK CONTEXT:
+- Title: "${bookTitle}"
+- Type: ${bookType}`;
+
+    if (genre) prompt += `\n- Genre: ${genre}`;
+    if (bookDescription) prompt += `\n- Description: ${bookDescription}`;
+    if (readingLevel) prompt += `\n- Reading Level: ${readingLevel}`;
+    if (totalChapters) prompt += `\n- Total Chapters: ${totalChapters}`;
+
+    const summaries = previousChapters
+      .filter(chapter => chapter.summary?.trim())
+      .sort((a, b) => a.chapterNumber - b.chapterNumber);
+
+    if (summaries.length > 0) {
+      prompt += `\n\nPREVIOUS CHAPTERS (stay consistent with these):`;
+      summaries.forEach(chapter => {
+        prompt += `\nChapter ${chapter.chapterNumber}${chapter.title ? ` - ${chapter.title}` : ''}: ${chapter.summary.trim()}`;
+      });
+    } else if (chapterNumber > 1) {
+      prompt += `\n\nNo summaries of the previous chapters are available.`;
+    }
+
+    const bibleEntries = Array.isArray(storyBible)
+      ? storyBible.filter(entry => entry?.name).map(entry => ({ ...entry, aliases: entry.aliases || [], description: entry.description || '' }))
+      : [];
+    if (bibleEntries.length > 0) {
+      prompt += `\n\nSTORY BIBLE (use these names and facts exactly; do not contradict them):\n${formatStoryBible(bibleEntries)}`;
+    }
+
+    prompt += `\n\nCHAPTER OUTLINE (cover every point, in order):\n${chapterOutline.trim()}`;
+
+    prompt += `\n\nLENGTH: About ${targetWords.toLocaleString('en-US')} words (between ${DRAFT_WORD_RANGE.min.toLocaleString('en-US')} and ${DRAFT_WORD_RANGE.max.toLocaleString('en-US')}). Write the complete chapter from its opening line to a natural ending; do not stop early or summarize.`;
+
+    const requestParams: Anthropic.Messages.MessageCreateParamsNonStreaming = {
+      model: 'claude-3-5-sonnet-20241022',
+      // Roughly 1.4 tokens per word, with headroom for the upper bound
+      max_tokens: 8000,
+      temperature: 0.7,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: prompt }]
+    };
+
+    console.log(`✍️ Drafting Chapter ${chapterNumber}: "${chapterTitle}" (~${targetWords} words, ${summaries.length} previous summaries, ${bibleEntries.length} story bible entries)`);
+
+    return streamCompletion(anthropic, requestParams, request.signal, (text, message) => {
+      const draft = text.trim();
+      return {
+        draft,
+        wordCount: countWords(draft),
+        // max_tokens means the model was cut off mid-chapter
+        truncated: message.stop_reason === 'max_tokens',
+        usage: message.usage
+      };
+    });
+  } catch (error) {
+    console.error('[WRITE CHAPTER API] Error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to draft chapter',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
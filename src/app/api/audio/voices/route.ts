@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTtsProvider } from '@/lib/audio/providers';
+
+// GET /api/audio/voices?languageCode=en-US - List voices of the active TTS provider
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const languageCode = searchParams.get('languageCode') || undefined;
+
+    const provider = getTtsProvider();
+    const voices = await provider.listVoices(languageCode);
+
+    return NextResponse.json({
+      provider: provider.name,
+      limits: provider.limits,
+      voices
+    });
+  } catch (error) {
+    console.error('Error listing voices:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to list voices',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
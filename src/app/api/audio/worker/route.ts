@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processAudioJobs } from '@/lib/audio/jobQueue';
+
+export const maxDuration = 300;
+
+// GET /api/audio/worker - Drain the audio job queue
+// Meant to be called on a schedule (e.g. Vercel Cron every minute) so retries
+// and jobs abandoned by a crashed worker are always picked up.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    // Without a secret anyone could spend TTS credits; only allowed locally
+    if (process.env.NODE_ENV !== 'development') {
+      return NextResponse.json({ error: 'Audio worker not configured' }, { status: 503 });
+    }
+  } else if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const processed = await processAudioJobs({ maxJobs: 10 });
+
+    return NextResponse.json({
+      success: true,
+      processed
+    });
+  } catch (error) {
+    console.error('Audio worker error:', error);
+    return NextResponse.json(
+      {
+        error: 'Audio worker failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { planBookAudio, queueBookAudio } from '@/lib/audio/bookAudio';
+import { processAudioJobs } from '@/lib/audio/jobQueue';
+import { requireBookOwner } from '@/lib/bookOwnership';
+
+// Give the background worker kicked off below room to work through chapters
+export const maxDuration = 300;
+
+// Which chapters need audio, with character count and cost estimate
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
+
+    const plan = await planBookAudio(bookId);
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('Error planning book audio:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load book audio status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue audio for every chapter that lacks it or is out of date
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
+
+    const { chapterIds } = await request.json().catch(() => ({}));
+
+    if (chapterIds !== undefined && !Array.isArray(chapterIds)) {
+      return NextResponse.json(
+        { error: 'chapterIds must be an array of chapter ids' },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await queueBookAudio(bookId, chapterIds);
+    const queued = Object.keys(jobs).length;
+
+    // Work through the queue after responding; whatever doesn't fit in this
+    // invocation is picked up by /api/audio/worker
+    if (queued > 0) {
+      after(async () => {
+        try {
+          await processAudioJobs({ maxJobs: queued });
+        } catch (error) {
+          console.error('Background audio worker error:', error);
+        }
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobs,
+        queued,
+        message: queued > 0 ? `Queued audio for ${queued} chapters` : 'All chapters already have audio'
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error queueing book audio:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to queue book audio',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
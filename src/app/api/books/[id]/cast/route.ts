@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadBookCast, saveBookCast, suggestCastNames } from '@/lib/audio/cast';
+import type { CastMember } from '@/lib/audio/dialogue';
+import { requireBookOwner } from '@/lib/bookOwnership';
+
+// The book's cast, plus speaker names found in the chapters that have no voice yet
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
+
+    const cast = await loadBookCast(bookId);
+    const suggestions = await suggestCastNames(bookId, cast);
+
+    return NextResponse.json({ cast, suggestions });
+  } catch (error) {
+    console.error('Error loading book cast:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load cast',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the book's cast
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
+
+    const { cast } = await request.json();
+
+    if (!Array.isArray(cast)) {
+      return NextResponse.json(
+        { error: 'cast must be an array of { name, aliases, voice }' },
+        { status: 400 }
+      );
+    }
+
+    const members: CastMember[] = [];
+    for (const member of cast) {
+      const name = typeof member?.name === 'string' ? member.name.trim() : '';
+      const voice = typeof member?.voice === 'string' ? member.voice.trim() : '';
+
+      if (!name || !voice) {
+        return NextResponse.json(
+          { error: 'Every cast member needs a name and a voice' },
+          { status: 400 }
+        );
+      }
+      if (members.some(existing => existing.name === name)) {
+        return NextResponse.json(
+          { error: `${name} is in the cast twice` },
+          { status: 400 }
+        );
+      }
+
+      const aliases = Array.isArray(member.aliases)
+        ? member.aliases.filter((alias: unknown): alias is string => typeof alias === 'string')
+        : [];
+      members.push({ name, voice, aliases: aliases.map((alias: string) => alias.trim()).filter(Boolean) });
+    }
+
+    const saved = await saveBookCast(bookId, members);
+
+    return NextResponse.json({ success: true, cast: saved });
+  } catch (error) {
+    console.error('Error saving book cast:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save cast',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
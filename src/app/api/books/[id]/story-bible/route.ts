@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadStoryBible, saveStoryBible } from '@/lib/ai/storyBibleStore';
+import { validateStoryBibleEntries } from '@/lib/ai/storyBible';
+import { requireBookOwner } from '@/lib/bookOwnership';
+
+// The book's story bible
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
+
+    const entries = await loadStoryBible(bookId);
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error loading story bible:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load story bible',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the book's story bible
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
+
+    const { entries } = await request.json();
+    const validated = validateStoryBibleEntries(entries);
+
+    if (validated.issues) {
+      return NextResponse.json(
+        { error: 'Invalid story bible entries', details: validated.issues.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveStoryBible(bookId, validated.entries);
+
+    return NextResponse.json({ success: true, entries: saved });
+  } catch (error) {
+    console.error('Error saving story bible:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save story bible',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { loadStoryBible, suggestStoryBibleEntries } from '@/lib/ai/storyBibleStore';
+import { requireBookOwner } from '@/lib/bookOwnership';
+
+const anthropic = new Anthropic({
+  apiKey: process.env.BOOK_ANTHROPIC_API!,
+});
+
+// Entries extracted from the book's chapters that are not in the story bible yet
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
+
+    if (!process.env.BOOK_ANTHROPIC_API) {
+      return NextResponse.json(
+        { error: 'AI service not configured' },
+        { status: 500 }
+      );
+    }
+
+    const existing = await loadStoryBible(bookId);
+    const suggestions = await suggestStoryBibleEntries(anthropic, bookId, existing);
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error('Error suggesting story bible entries:', error);
+
+    if (error instanceof Anthropic.APIError && error.status === 429) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded - please try again in a moment' },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to suggest story bible entries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase';
+import { createClient, createServerClient } from '@/lib/supabase';
+import { resolveNarrationSettings, validateNarrationSettings } from '@/lib/audio/narrationSettings';
+import { requireBookOwner } from '@/lib/bookOwnership';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const supabase = createClient();
+
+    const { data: book, error } = await supabase
+      .from('biglios')
+      .select('voice_preference, narration_settings')
+      .eq('id', bookId)
+      .single();
+
+    if (error || !book) {
+      return NextResponse.json(
+        { error: 'Book not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      voicePreference: book.voice_preference,
+      narrationSettings: resolveNarrationSettings(book.narration_settings)
+    });
+  } catch (error) {
+    console.error('Error in voice preference API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { voicePreference } = await request.json();
     const { id: bookId } = await params;
+    const access = await requireBookOwner(bookId);
+    if (access.response) return access.response;
 
-    if (!voicePreference || !['male', 'female'].includes(voicePreference)) {
+    const { voicePreference, narrationSettings } = await request.json();
+
+    if (voicePreference === undefined && narrationSettings === undefined) {
+      return NextResponse.json(
+        { error: 'Voice preference or narration settings are required' },
+        { status: 400 }
+      );
+    }
+
+    if (voicePreference !== undefined && !['male', 'female'].includes(voicePreference)) {
       return NextResponse.json(
         { error: 'Valid voice preference (male/female) is required' },
         { status: 400 }
       );
     }
 
-    const supabase = createClient();
+    if (narrationSettings !== undefined) {
+      const validationError = validateNarrationSettings(narrationSettings);
+      if (validationError) {
+        return NextResponse.json(
+          { error: validationError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Ownership was checked above
+    const supabase = createServerClient();
 
-    // Update the book's voice preference
+    // Update the book's voice preference and/or narration settings
     const { error } = await supabase
       .from('biglios')
-      .update({ voice_preference: voicePreference })
+      .update({
+        ...(voicePreference !== undefined && { voice_preference: voicePreference }),
+        ...(narrationSettings !== undefined && { narration_settings: resolveNarrationSettings(narrationSettings) })
+      })
       .eq('id', bookId);
 
     if (error) {
@@ -40,4 +100,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
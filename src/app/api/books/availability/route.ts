@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase';
+
+// Books checked per request; clients send longer lists in batches
+const MAX_BOOK_IDS = 200;
+
+// POST /api/books/availability - Which of the given books are still published
+// Devices remove downloads of books their author has unpublished or deleted.
+// `checked` lists the ids looked at, so ids past the limit are not taken as gone
+export async function POST(request: NextRequest) {
+  try {
+    const { bookIds } = await request.json();
+
+    if (!Array.isArray(bookIds)) {
+      return NextResponse.json({ error: 'bookIds must be an array' }, { status: 400 });
+    }
+
+    const ids = bookIds.filter((id): id is string => typeof id === 'string' && id.length > 0).slice(0, MAX_BOOK_IDS);
+    if (ids.length === 0) {
+      return NextResponse.json({ available: [], checked: [] });
+    }
+
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from('biglios')
+      .select('id')
+      .in('id', ids)
+      .eq('is_published', true);
+
+    if (error) throw error;
+
+    return NextResponse.json({ available: (data || []).map(book => book.id), checked: ids });
+  } catch (error) {
+    console.error('Book availability check error:', error);
+    return NextResponse.json({
+      error: 'Failed to check book availability'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { ListeningHistory } from '@/types/database';
+
+// Books shown in the "Continue listening" row
+const DEFAULT_RECENT_LIMIT = 10;
+const MAX_RECENT_LIMIT = 50;
+
+// GET /api/listening-history?biglio_id=xxx - Where the user left off in a book
+// GET /api/listening-history - Books the user is part way through, most recent first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({
+      cookies: async () => await cookies()
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const biglio_id = searchParams.get('biglio_id');
+
+    if (biglio_id) {
+      const { data: history, error } = await supabase
+        .from('listening_history')
+        .select('id, user_id, biglio_id, chapter_id, position_seconds, completed, last_listened_at, created_at, updated_at')
+        .eq('user_id', user.id)
+        .eq('biglio_id', biglio_id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return NextResponse.json({ history: (history as ListeningHistory | null) || null });
+    }
+
+    const limit = Math.min(MAX_RECENT_LIMIT, Math.max(1, Number(searchParams.get('limit')) || DEFAULT_RECENT_LIMIT));
+
+    const { data: historyData, error: historyError } = await supabase
+      .from('listening_history')
+      .select('biglio_id, chapter_id, position_seconds, last_listened_at')
+      .eq('user_id', user.id)
+      .eq('completed', false)
+      .order('last_listened_at', { ascending: false })
+      .limit(limit);
+
+    if (historyError) throw historyError;
+
+    const entries = (historyData as Pick<ListeningHistory, 'biglio_id' | 'chapter_id' | 'position_seconds' | 'last_listened_at'>[] | null) || [];
+    if (entries.length === 0) {
+      return NextResponse.json({ history: [] });
+    }
+
+    // Books, channels and chapters are fetched separately, as in the main feed
+    const { data: booksData, error: booksError } = await supabase
+      .from('biglios')
+      .select('id, title, description, cover_url, total_chapters, like_count, comment_count, save_count, published_at, channel_id')
+      .in('id', entries.map(entry => entry.biglio_id))
+      .eq('is_published', true);
+
+    if (booksError) throw booksError;
+
+    const books = booksData || [];
+    const chapterIds = entries.map(entry => entry.chapter_id).filter((id): id is string => !!id);
+
+    const [{ data: channelsData, error: channelsError }, { data: chaptersData, error: chaptersError }] = await Promise.all([
+      supabase
+        .from('channels')
+        .select('id, user_id, handle, display_name, avatar_url, follower_count')
+        .in('id', [...new Set(books.map(book => book.channel_id))]),
+      supabase
+        .from('chapters')
+        .select('id, title, chapter_number, duration_seconds')
+        .in('id', chapterIds)
+    ]);
+
+    if (channelsError) throw channelsError;
+    if (chaptersError) throw chaptersError;
+
+    const booksMap = new Map(books.map(book => [book.id, book]));
+    const channelsMap = new Map((channelsData || []).map(channel => [channel.id, channel]));
+    const chaptersMap = new Map((chaptersData || []).map(chapter => [chapter.id, chapter]));
+
+    const history = entries.flatMap(entry => {
+      const book = booksMap.get(entry.biglio_id);
+      // Unpublished or deleted books drop out of the row
+      if (!book) return [];
+
+      const channel = channelsMap.get(book.channel_id);
+      const chapter = entry.chapter_id ? chaptersMap.get(entry.chapter_id) : undefined;
+
+      return [{
+        biglio_id: entry.biglio_id,
+        chapter_id: entry.chapter_id || null,
+        position_seconds: entry.position_seconds,
+        last_listened_at: entry.last_listened_at,
+        chapter: chapter
+          ? { title: chapter.title, chapter_number: chapter.chapter_number, duration_seconds: chapter.duration_seconds || 0 }
+          : null,
+        book: {
+          id: book.id,
+          title: book.title,
+          description: book.description || '',
+          cover_url: book.cover_url,
+          total_chapters: book.total_chapters,
+          like_count: book.like_count,
+          comment_count: book.comment_count,
+          save_count: book.save_count,
+          published_at: book.published_at,
+          channel: {
+            id: channel?.id || '',
+            user_id: channel?.user_id || '',
+            handle: channel?.handle ? String(channel.handle) : 'unknown',
+            display_name: channel?.display_name ? String(channel.display_name) : 'Unknown Channel',
+            avatar_url: channel?.avatar_url,
+            follower_count: channel?.follower_count || 0
+          }
+        }
+      }];
+    });
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('Listening history fetch error:', error);
+    return NextResponse.json({
+      error: 'Failed to load listening history'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/listening-history - Save the user's position in a book
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({
+      cookies: async () => await cookies()
+    });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { biglio_id, chapter_id, position_seconds, completed } = await request.json();
+
+    if (!biglio_id) {
+      return NextResponse.json({ error: 'biglio_id is required' }, { status: 400 });
+    }
+
+    const position = Number(position_seconds);
+    const now = new Date().toISOString();
+
+    const { data: history, error } = await supabase
+      .from('listening_history')
+      .upsert({
+        user_id: user.id,
+        biglio_id,
+        chapter_id: chapter_id || null,
+        position_seconds: Number.isFinite(position) && position > 0 ? Math.floor(position) : 0,
+        completed: completed === true,
+        last_listened_at: now,
+        updated_at: now
+      }, { onConflict: 'user_id,biglio_id' })
+      .select('id, user_id, biglio_id, chapter_id, position_seconds, completed, last_listened_at, created_at, updated_at')
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ history: history as ListeningHistory });
+  } catch (error) {
+    console.error('Listening history save error:', error);
+    return NextResponse.json({
+      error: 'Failed to save listening history'
+    }, { status: 500 });
+  }
+}
@@ -1,13 +1,27 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useSearchParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase';
 import { useAuth } from '@/context/AuthContext';
-import { useAI } from '@/context/AIContext';
+import { useAI, AIEditAction } from '@/context/AIContext';
 import { AuthModal } from '@/components/AuthModal';
 import { AudioGenerationButton } from '@/components/AudioGenerationButton';
+import { BookAudioBatchModal } from '@/components/BookAudioBatchModal';
+import { CastVoicesModal } from '@/components/CastVoicesModal';
+import { StoryBibleModal } from '@/components/StoryBibleModal';
+import { ContinuityCheckModal } from '@/components/ContinuityCheckModal';
+import { NarrationSettingsModal } from '@/components/NarrationSettingsModal';
 import { AIAssistantChat } from '@/components/AIAssistantChat';
+import { ChapterDraftPanel } from '@/components/ChapterDraftPanel';
+import { InlineEditPanel, INLINE_EDIT_ACTIONS } from '@/components/InlineEditPanel';
+import { AudiobookLintPanel } from '@/components/AudiobookLintPanel';
+import { lintChapterText, AudiobookLintIssue } from '@/utils/audiobookLint';
+import { formatOutlineContent, OutlineError, OutlineRevisionOperation } from '@/lib/ai/outline';
+import { OutlineRevisionModal, OUTLINE_REVISION_ACTIONS } from '@/components/OutlineRevisionModal';
+import type { StoryBibleEntry } from '@/lib/ai/storyBible';
+import { locatePassage, type ContinuityReport } from '@/lib/ai/continuity';
+import { MAX_CHAPTER_AUDIO_CHARACTERS } from '@/lib/audio/narrationSettings';
 
 import Link from 'next/link';
 import { 
@@ -15,7 +29,12 @@ import {
   FaListOl,
   FaVolumeUp,
   FaEdit,
-  FaClipboardList
+  FaClipboardList,
+  FaUsers,
+  FaSlidersH,
+  FaMagic,
+  FaBookOpen,
+  FaSearch
 } from 'react-icons/fa';
 
 
@@ -81,6 +100,14 @@ export default function UnifiedBookEditor() {
 
   // Chapter creation
   const [showCreateChapter, setShowCreateChapter] = useState(false);
+  const [showBookAudioModal, setShowBookAudioModal] = useState(false);
+  const [showCastModal, setShowCastModal] = useState(false);
+  const [showStoryBibleModal, setShowStoryBibleModal] = useState(false);
+  const [showContinuityModal, setShowContinuityModal] = useState(false);
+  const [showNarrationModal, setShowNarrationModal] = useState(false);
+  const [showDraftPanel, setShowDraftPanel] = useState(false);
+  const [editSelection, setEditSelection] = useState<{ start: number; end: number } | null>(null);
+  const [inlineEdit, setInlineEdit] = useState<{ action: AIEditAction; start: number; end: number } | null>(null);
   const [newChapterTitle, setNewChapterTitle] = useState('');
 
   // AI state
@@ -90,6 +117,11 @@ export default function UnifiedBookEditor() {
   const [showOutlineSuccess, setShowOutlineSuccess] = useState(false);
   const [outlinePreview, setOutlinePreview] = useState<OutlineChapter[]>([]);
   const [showOutlineConfirmation, setShowOutlineConfirmation] = useState(false);
+  const [outlineRevision, setOutlineRevision] = useState<{ operation: OutlineRevisionOperation; chapterNumber: number } | null>(null);
+  const [storyBible, setStoryBible] = useState<StoryBibleEntry[]>([]);
+  const [continuityReport, setContinuityReport] = useState<ContinuityReport | null>(null);
+  // Passage to select once its chapter is open in the editor
+  const [pendingPassage, setPendingPassage] = useState<{ chapterId: string; quote: string } | null>(null);
 
   // Chapter Edit Modal State
   const [editingChapter, setEditingChapter] = useState<Chapter | null>(null);
@@ -129,7 +161,7 @@ export default function UnifiedBookEditor() {
     }
   }, [supabase, bookId]);
 
-  const fetchChapters = useCallback(async () => {
+  const fetchChapters = useCallback(async (): Promise<Chapter[]> => {
     try {
       setIsLoading(true);
       const { data, error } = await supabase
@@ -167,13 +199,28 @@ export default function UnifiedBookEditor() {
         hasOutline: !!ch.outline_content,
         hasAudio: !!ch.audio_url
       })));
+      return chaptersData;
     } catch (error) {
       console.error('❌ Error fetching chapters:', error);
+      return [];
     } finally {
       setIsLoading(false);
     }
   }, [supabase, bookId]); // ← Removed selectedChapter dependency
 
+  // Characters, places and facts sent with AI requests
+  const fetchStoryBible = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/books/${bookId}/story-bible`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error);
+      setStoryBible(data.entries || []);
+    } catch (error) {
+      // The assistant still works without it
+      console.warn('⚠️ Could not load story bible:', error);
+    }
+  }, [bookId]);
+
 
 
   // Generate chapter summary for AI context
@@ -235,6 +282,29 @@ export default function UnifiedBookEditor() {
     }
   }, [supabase, generateChapterSummary]);
 
+  // Keep summaries generated while drafting so later drafts and the assistant can use them
+  const saveChapterSummary = useCallback(async (chapterId: string, summary: string) => {
+    setChapters(prev => prev.map(ch => 
+      ch.id === chapterId ? { ...ch, summary } : ch
+    ));
+
+    const { error } = await supabase
+      .from('chapters')
+      .update({ summary })
+      .eq('id', chapterId);
+
+    if (error) {
+      console.error('Error saving chapter summary:', error);
+    }
+  }, [supabase]);
+
+  // An open AI draft or inline suggestion belongs to the chapter it was started for
+  useEffect(() => {
+    setShowDraftPanel(false);
+    setInlineEdit(null);
+    setEditSelection(null);
+  }, [selectedChapter?.id]);
+
   // Save chapter outline (for outline mode)
   const saveChapterOutline = useCallback(async (chapterId: string, title: string, outlineContent: string) => {
     try {
@@ -271,6 +341,7 @@ export default function UnifiedBookEditor() {
   // Refs to store timeout IDs for debouncing
   const saveTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const outlineTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
 
   // Create debounced save functions
   const debouncedSave = useCallback((chapterId: string, title: string, content: string) => {
@@ -304,8 +375,9 @@ export default function UnifiedBookEditor() {
     if (bookId) {
       fetchBookData();
       fetchChapters();
+      fetchStoryBible();
     }
-  }, [bookId, user, authLoading, fetchBookData, fetchChapters]);
+  }, [bookId, user, authLoading, fetchBookData, fetchChapters, fetchStoryBible]);
 
   // Debug function to check database state
   const debugDatabaseState = async () => {
@@ -621,8 +693,11 @@ export default function UnifiedBookEditor() {
       }
     } catch (error) {
       console.error('❌ Error generating outline:', error);
-      // Show user-friendly error
-      alert(`⚠️ Outline generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Show user-friendly error, with what was wrong when the AI kept returning an invalid outline
+      const issues = error instanceof OutlineError && error.code === 'malformed_output' && error.issues.length > 0
+        ? `\n\n${error.issues.slice(0, 5).join('\n')}`
+        : '';
+      alert(`⚠️ Outline generation failed: ${error instanceof Error ? error.message : 'Unknown error'}${issues}`);
     } finally {
       setIsGeneratingOutline(false);
     }
@@ -659,7 +734,7 @@ export default function UnifiedBookEditor() {
               biglio_id: bookId,
               title: chapter.title,
               content: '', // Start with empty content for writing mode
-              outline_content: `${chapter.summary || ''}\n\nKey Points:\n${chapter.keyPoints ? chapter.keyPoints.map(point => `• ${point}`).join('\n') : ''}`,
+              outline_content: formatOutlineContent(chapter),
               summary: null,
               chapter_number: chapterNumber,
               order_index: orderIndex,
@@ -708,10 +783,73 @@ export default function UnifiedBookEditor() {
     }
   };
 
+  // Save pending edits to the selected chapter first, so the AI sees them and a late autosave cannot undo the revision
+  const openOutlineRevision = async (operation: OutlineRevisionOperation, chapterNumber: number) => {
+    if (selectedChapter && (editTitle !== selectedChapter.title || editOutlineContent !== (selectedChapter.outline_content || ''))) {
+      clearTimeout(outlineTimeoutRef.current);
+      await saveChapterOutline(selectedChapter.id, editTitle, editOutlineContent);
+      setSelectedChapter({ ...selectedChapter, title: editTitle, outline_content: editOutlineContent });
+    }
+    setOutlineRevision({ operation, chapterNumber });
+  };
+
+  const handleOutlineRevised = async (chapterId: string) => {
+    setOutlineRevision(null);
+    const freshChapters = await fetchChapters();
+    await fetchBookData();
+
+    const chapter = freshChapters.find(ch => ch.id === chapterId);
+    if (chapter) {
+      setSelectedChapter(chapter);
+      setEditTitle(chapter.title);
+      setEditContent(chapter.content || '');
+      setEditOutlineContent(chapter.outline_content || '');
+    }
+  };
+
   const getCharacterCount = () => editContent.length;
   const getWordCount = () => editContent.trim().split(/\s+/).filter(word => word.length > 0).length;
-  const isNearLimit = () => getCharacterCount() > 6500;
-  const isOverLimit = () => getCharacterCount() > 7500;
+  const isNearLimit = () => getCharacterCount() > MAX_CHAPTER_AUDIO_CHARACTERS * 0.9;
+  const isOverLimit = () => getCharacterCount() > MAX_CHAPTER_AUDIO_CHARACTERS;
+  const lintIssues = useMemo(() => lintChapterText(editContent), [editContent]);
+
+  const revealPassage = (start: number, end: number) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.focus();
+    editor.setSelectionRange(start, end);
+    // Browsers don't reliably scroll a textarea to a selection made from code
+    editor.scrollTop = Math.max(0, (start / Math.max(editor.value.length, 1)) * editor.scrollHeight - editor.clientHeight / 2);
+  };
+
+  const showLintIssue = (issue: AudiobookLintIssue) => revealPassage(issue.start, issue.end);
+
+  // Open a continuity finding: switch to its chapter in write mode, then select the quoted passage
+  const showContinuityPassage = async (chapterId: string, quote: string) => {
+    const chapter = chapters.find(ch => ch.id === chapterId);
+    if (!chapter) return;
+
+    setShowContinuityModal(false);
+    setShowDraftPanel(false);
+    setInlineEdit(null);
+    setMode('write');
+    if (selectedChapter?.id !== chapterId) {
+      await selectChapter(chapter);
+    }
+    setPendingPassage({ chapterId, quote });
+  };
+
+  useEffect(() => {
+    if (!pendingPassage || mode !== 'write' || selectedChapter?.id !== pendingPassage.chapterId || !editorRef.current) return;
+
+    const passage = locatePassage(editContent, pendingPassage.quote);
+    if (passage) {
+      revealPassage(passage.start, passage.end);
+    } else {
+      editorRef.current.focus();
+    }
+    setPendingPassage(null);
+  }, [pendingPassage, mode, selectedChapter?.id, editContent]);
 
   // Chapter Edit Modal Functions
   const openEditModal = (chapter: Chapter) => {
@@ -767,8 +905,8 @@ export default function UnifiedBookEditor() {
       return;
     }
 
-    if (chapterContent.length > 7500) {
-      alert('Chapter content exceeds 7,500 character limit for audio generation');
+    if (chapterContent.length > MAX_CHAPTER_AUDIO_CHARACTERS) {
+      alert(`Chapter content exceeds ${MAX_CHAPTER_AUDIO_CHARACTERS.toLocaleString()} character limit for audio generation`);
       return;
     }
 
@@ -791,30 +929,15 @@ export default function UnifiedBookEditor() {
         }),
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || `Audio generation failed: ${response.statusText}`);
-      }
-
       const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.error);
-      }
 
-      if (data.audioUrl) {
-        // Update the chapter in the list
-        setChapters(prev => prev.map(ch => 
-          ch.id === chapterId ? { ...ch, audio_url: data.audioUrl } : ch
-        ));
-        
-        // Update selected chapter if it matches
-        if (selectedChapter?.id === chapterId) {
-          setSelectedChapter(prev => prev ? { ...prev, audio_url: data.audioUrl } : null);
-        }
-        
-        alert(`✅ Audio generated successfully for "${chapterTitle}"!`);
+      if (!response.ok || data.error) {
+        throw new Error(data.details || data.error || `Audio generation failed: ${response.statusText}`);
       }
+
+      // Audio is generated in the background by the job queue - the chapter
+      // shows "Audio Ready" once the job completes and chapters are refreshed
+      alert(`🎧 Audio generation queued for "${chapterTitle}". It will be ready in a few minutes.`);
     } catch (error) {
       console.error('Error generating audio:', error);
       alert(`❌ Failed to generate audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -913,6 +1036,51 @@ export default function UnifiedBookEditor() {
             >
               ➕ Add Chapter
             </button>
+            {chapters.length > 0 && (
+              <button
+                onClick={() => setShowBookAudioModal(true)}
+                className="w-full mt-2 px-4 py-2 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded font-semibold transition-colors flex items-center justify-center gap-2"
+              >
+                <FaVolumeUp className="text-sm" />
+                Generate All Audio
+              </button>
+            )}
+            {chapters.length > 0 && (
+              <button
+                onClick={() => setShowCastModal(true)}
+                className="w-full mt-2 px-4 py-2 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded font-semibold transition-colors flex items-center justify-center gap-2"
+              >
+                <FaUsers className="text-sm" />
+                Character Voices
+              </button>
+            )}
+            {chapters.length > 0 && (
+              <button
+                onClick={() => setShowStoryBibleModal(true)}
+                className="w-full mt-2 px-4 py-2 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded font-semibold transition-colors flex items-center justify-center gap-2"
+              >
+                <FaBookOpen className="text-sm" />
+                Story Bible{storyBible.length > 0 ? ` (${storyBible.length})` : ''}
+              </button>
+            )}
+            {chapters.length > 1 && (
+              <button
+                onClick={() => setShowContinuityModal(true)}
+                className="w-full mt-2 px-4 py-2 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded font-semibold transition-colors flex items-center justify-center gap-2"
+              >
+                <FaSearch className="text-sm" />
+                Check Continuity{continuityReport && continuityReport.findings.length > 0 ? ` (${continuityReport.findings.length})` : ''}
+              </button>
+            )}
+            {chapters.length > 0 && (
+              <button
+                onClick={() => setShowNarrationModal(true)}
+                className="w-full mt-2 px-4 py-2 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded font-semibold transition-colors flex items-center justify-center gap-2"
+              >
+                <FaSlidersH className="text-sm" />
+                Narration Settings
+              </button>
+            )}
           </div>
 
           {/* Chapter Creation Form */}
@@ -1040,7 +1208,7 @@ export default function UnifiedBookEditor() {
                     <p className="text-gray-500 italic">No chapters yet. Generate an outline below or create chapters manually.</p>
                   ) : (
                     <div className="space-y-3">
-                      {chapters.map((chapter) => (
+                      {chapters.map((chapter, index) => (
                         <div 
                           key={chapter.id} 
                           className={`p-4 border rounded-lg transition-all ${
@@ -1100,6 +1268,22 @@ export default function UnifiedBookEditor() {
                               )}
                             </div>
                           </div>
+
+                          {/* AI outline revision */}
+                          <div className="flex items-center gap-1 mt-2 text-xs">
+                            {OUTLINE_REVISION_ACTIONS
+                              .filter(({ operation }) => operation !== 'merge' || index < chapters.length - 1)
+                              .map(({ operation, label, icon: Icon }) => (
+                                <button
+                                  key={operation}
+                                  onClick={() => openOutlineRevision(operation, index + 1)}
+                                  className="flex items-center gap-1 px-2 py-1 text-purple-700 bg-purple-50 hover:bg-purple-100 border border-purple-200 rounded transition-colors"
+                                >
+                                  <Icon size={10} />
+                                  {label}
+                                </button>
+                              ))}
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -1527,6 +1711,7 @@ The more detail you provide, the better the AI can assist with writing!"
                     {/* Left side: Audio Generation Button (Play, Download, Regenerate) */}
                     <div className="flex gap-3">
                       <AudioGenerationButton
+                        key={selectedChapter.id}
                         chapterId={selectedChapter.id}
                         chapterTitle={editTitle}
                         chapterContent={editContent}
@@ -1542,6 +1727,15 @@ The more detail you provide, the better the AI can assist with writing!"
                           setBook(prev => prev ? { ...prev, voice_preference: voice } : null);
                         }}
                       />
+                      <button
+                        onClick={() => setShowDraftPanel(true)}
+                        disabled={showDraftPanel || !editOutlineContent.trim()}
+                        className="px-3 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white text-sm rounded-lg font-medium transition-colors flex items-center gap-2"
+                        title={editOutlineContent.trim() ? 'Draft this chapter from its outline' : 'Add an outline for this chapter in Outline mode first'}
+                      >
+                        <FaMagic />
+                        Write This Chapter
+                      </button>
                     </div>
                     
                     {/* Right side: Saving status (only show temporary states) */}
@@ -1552,78 +1746,175 @@ The more detail you provide, the better the AI can assist with writing!"
                   </div>
                 </div>
 
-                {/* Direct Editor - Fixed Layout */}
-                <div className="flex-1 flex flex-col p-4">
-                  {/* Scrollable Text Area */}
-                  <div className="flex-1 mb-4">
-                    <textarea
-                      value={editContent}
-                      onChange={(e) => setEditContent(e.target.value)}
-                      className={`w-full h-full p-4 bg-white text-gray-900 rounded border leading-relaxed focus:outline-none resize-none text-base ${
-                        isOverLimit() 
-                          ? 'border-red-500 focus:border-red-500 focus:ring-2 focus:ring-red-200' 
-                          : isNearLimit()
-                          ? 'border-yellow-500 focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200'
-                          : 'border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-200'
-                      }`}
-                      placeholder="Start writing your chapter..."
-                    />
-                  </div>
-                  
-                  {/* Fixed Bottom Section */}
-                  <div className="flex-shrink-0 space-y-3">
-                    {/* Character count and warnings */}
-                    <div className="flex items-center justify-between text-sm">
-                      <div className="flex items-center gap-4">
-                        <span className={`${isOverLimit() ? 'text-red-600 font-bold' : isNearLimit() ? 'text-yellow-600 font-medium' : 'text-gray-600'}`}>
-                          {getCharacterCount().toLocaleString()} / 7,500 characters
-                        </span>
-                        <span className="text-gray-500">
-                          ~{getWordCount()} words
-                        </span>
-                      </div>
-                      
-                      {isOverLimit() && (
-                        <span className="text-red-600 text-xs font-medium">
-                          ⚠️ Over limit - Audio generation disabled
-                        </span>
-                      )}
-                      {isNearLimit() && !isOverLimit() && (
-                        <span className="text-yellow-600 text-xs font-medium">
-                          ⚠️ Approaching character limit
-                        </span>
+                {/* AI Draft Review - replaces the editor until accepted or discarded */}
+                {showDraftPanel ? (
+                  <ChapterDraftPanel
+                    book={book}
+                    chapter={{ ...selectedChapter, title: editTitle }}
+                    outline={editOutlineContent}
+                    previousChapters={chapters.filter(ch => ch.chapter_number < selectedChapter.chapter_number)}
+                    storyBible={storyBible}
+                    existingContent={editContent}
+                    onSummaryGenerated={saveChapterSummary}
+                    onAccept={(draft, placement) => {
+                      const newContent = placement === 'append' && editContent.trim()
+                        ? editContent + '\n\n' + draft
+                        : draft;
+                      setEditContent(newContent);
+                      setShowDraftPanel(false);
+
+                      // Immediately save the accepted draft
+                      setTimeout(() => {
+                        saveChapterContent(selectedChapter.id, editTitle, newContent);
+                      }, 100);
+                    }}
+                    onClose={() => setShowDraftPanel(false)}
+                  />
+                ) : (
+                  /* Direct Editor - Fixed Layout */
+                  <div className="flex-1 flex flex-col p-4">
+                    {/* AI edits for the selected text */}
+                    <div className="flex items-center gap-1 mb-2 flex-shrink-0 text-xs min-h-[28px]">
+                      {inlineEdit ? null : editSelection ? (
+                        <>
+                          <span className="text-gray-500 mr-1">AI edit selection:</span>
+                          {INLINE_EDIT_ACTIONS.map(({ action, label, icon: Icon }) => (
+                            <button
+                              key={action}
+                              onMouseDown={(e) => e.preventDefault()}
+                              onClick={() => setInlineEdit({ action, ...editSelection })}
+                              className="flex items-center gap-1 px-2 py-1 text-purple-700 bg-purple-50 hover:bg-purple-100 border border-purple-200 rounded transition-colors"
+                            >
+                              <Icon size={10} />
+                              {label}
+                            </button>
+                          ))}
+                        </>
+                      ) : (
+                        <span className="text-gray-400">Select text to rewrite, shorten, expand or fix it for audio with AI</span>
                       )}
                     </div>
-                    
-                    {/* Save Button and Last Saved - Always Visible */}
-                    <div className="flex flex-col items-center gap-2">
-                      <button
-                        onClick={() => saveChapterContent(selectedChapter.id, editTitle, editContent)}
-                        disabled={savingChapter}
-                        className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
-                      >
-                        {savingChapter ? (
-                          <>
-                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                            Saving...
-                          </>
-                        ) : (
-                          <>
-                            <FaSave className="mr-1" />
-                            Save Now
-                          </>
+
+                    {/* Scrollable Text Area */}
+                    {inlineEdit ? (
+                      <InlineEditPanel
+                        content={editContent}
+                        start={inlineEdit.start}
+                        end={inlineEdit.end}
+                        action={inlineEdit.action}
+                        context={{
+                          bookTitle: book.title,
+                          bookDescription: book.description,
+                          bookType: book.book_type,
+                          genre: book.genre,
+                          targetAudience: book.target_audience,
+                          readingLevel: book.reading_level,
+                          currentChapterTitle: editTitle,
+                          currentChapterNumber: selectedChapter.chapter_number,
+                          totalChapters: book.total_chapters
+                        }}
+                        onApply={(newContent) => {
+                          setEditContent(newContent);
+                          setInlineEdit(null);
+                          setEditSelection(null);
+                        }}
+                        onClose={() => setInlineEdit(null)}
+                      />
+                    ) : (
+                      <div className="flex-1 mb-4">
+                        <textarea
+                          ref={editorRef}
+                          value={editContent}
+                          onChange={(e) => setEditContent(e.target.value)}
+                          onSelect={(e) => {
+                            const { selectionStart, selectionEnd } = e.currentTarget;
+                            setEditSelection(
+                              editContent.slice(selectionStart, selectionEnd).trim()
+                                ? { start: selectionStart, end: selectionEnd }
+                                : null
+                            );
+                          }}
+                          className={`w-full h-full p-4 bg-white text-gray-900 rounded border leading-relaxed focus:outline-none resize-none text-base ${
+                            isOverLimit() 
+                              ? 'border-red-500 focus:border-red-500 focus:ring-2 focus:ring-red-200' 
+                              : isNearLimit()
+                              ? 'border-yellow-500 focus:border-yellow-500 focus:ring-2 focus:ring-yellow-200'
+                              : 'border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-200'
+                          }`}
+                          placeholder="Start writing your chapter..."
+                        />
+                      </div>
+                    )}
+                  
+                    {/* Fixed Bottom Section */}
+                    <div className="flex-shrink-0 space-y-3">
+                      {/* Audiobook compliance */}
+                      {!inlineEdit && (
+                        <AudiobookLintPanel
+                          content={editContent}
+                          issues={lintIssues}
+                          onChange={(newContent) => {
+                            setEditContent(newContent);
+                            setEditSelection(null);
+                          }}
+                          onShow={showLintIssue}
+                          onFixWithAI={(issue) => setInlineEdit({ action: 'audio', start: issue.start, end: issue.end })}
+                        />
+                      )}
+
+                      {/* Character count and warnings */}
+                      <div className="flex items-center justify-between text-sm">
+                        <div className="flex items-center gap-4">
+                          <span className={`${isOverLimit() ? 'text-red-600 font-bold' : isNearLimit() ? 'text-yellow-600 font-medium' : 'text-gray-600'}`}>
+                            {getCharacterCount().toLocaleString()} / {MAX_CHAPTER_AUDIO_CHARACTERS.toLocaleString()} characters
+                          </span>
+                          <span className="text-gray-500">
+                            ~{getWordCount()} words
+                          </span>
+                        </div>
+                      
+                        {isOverLimit() && (
+                          <span className="text-red-600 text-xs font-medium">
+                            ⚠️ Over limit - Audio generation disabled
+                          </span>
                         )}
-                      </button>
+                        {isNearLimit() && !isOverLimit() && (
+                          <span className="text-yellow-600 text-xs font-medium">
+                            ⚠️ Approaching character limit
+                          </span>
+                        )}
+                      </div>
+                    
+                      {/* Save Button and Last Saved - Always Visible */}
+                      <div className="flex flex-col items-center gap-2">
+                        <button
+                          onClick={() => saveChapterContent(selectedChapter.id, editTitle, editContent)}
+                          disabled={savingChapter}
+                          className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                        >
+                          {savingChapter ? (
+                            <>
+                              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                              Saving...
+                            </>
+                          ) : (
+                            <>
+                              <FaSave className="mr-1" />
+                              Save Now
+                            </>
+                          )}
+                        </button>
                       
-                      {/* Last Saved Timestamp */}
-                      {lastSaved && !savingChapter && !showSavedIndicator && (
-                        <span className="text-gray-400 text-sm">
-                          Last saved: {lastSaved.toLocaleTimeString()}
-                        </span>
-                      )}
+                        {/* Last Saved Timestamp */}
+                        {lastSaved && !savingChapter && !showSavedIndicator && (
+                          <span className="text-gray-400 text-sm">
+                            Last saved: {lastSaved.toLocaleTimeString()}
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
               </div>
             ) : (
               <div className="flex-1 flex items-center justify-center">
@@ -1643,6 +1934,7 @@ The more detail you provide, the better the AI can assist with writing!"
               currentChapter={selectedChapter ?? undefined}
               chapters={chapters}
               mode={mode}
+              storyBible={storyBible}
               onContentSuggestion={(content) => {
                 if (selectedChapter) {
                   if (mode === 'write') {
@@ -1776,6 +2068,73 @@ The more detail you provide, the better the AI can assist with writing!"
         </div>
       )}
 
+      {/* Whole-Book Audio Modal */}
+      <BookAudioBatchModal
+        bookId={bookId}
+        isOpen={showBookAudioModal}
+        onClose={() => setShowBookAudioModal(false)}
+        onComplete={fetchChapters}
+      />
+
+      {/* Character Voices Modal */}
+      <CastVoicesModal
+        bookId={bookId}
+        isOpen={showCastModal}
+        onClose={() => setShowCastModal(false)}
+      />
+
+      {/* Story Bible Modal */}
+      <StoryBibleModal
+        bookId={bookId}
+        isOpen={showStoryBibleModal}
+        entries={storyBible}
+        onClose={() => setShowStoryBibleModal(false)}
+        onSaved={setStoryBible}
+      />
+
+      {/* Continuity Check Modal */}
+      {book && showContinuityModal && (
+        <ContinuityCheckModal
+          book={book}
+          chapters={chapters.map(ch => ({ ...ch, content: ch.id === selectedChapter?.id ? editContent : ch.content || '' }))}
+          storyBible={storyBible}
+          report={continuityReport}
+          onReport={setContinuityReport}
+          onSummaryGenerated={saveChapterSummary}
+          onShowPassage={showContinuityPassage}
+          onClose={() => setShowContinuityModal(false)}
+        />
+      )}
+
+      {/* Narration Settings Modal */}
+      <NarrationSettingsModal
+        bookId={bookId}
+        isOpen={showNarrationModal}
+        onClose={() => setShowNarrationModal(false)}
+        onSaved={(voice) => {
+          setBook(prev => prev ? { ...prev, voice_preference: voice } : null);
+        }}
+      />
+
+      {/* Outline Revision Modal */}
+      {book && outlineRevision && (
+        <OutlineRevisionModal
+          bookId={bookId}
+          book={{
+            title: book.title,
+            description: book.description,
+            genre: book.genre,
+            targetAudience: book.target_audience?.join(', '),
+            bookType: book.book_type
+          }}
+          chapters={chapters}
+          operation={outlineRevision.operation}
+          chapterNumber={outlineRevision.chapterNumber}
+          onClose={() => setOutlineRevision(null)}
+          onApplied={handleOutlineRevised}
+        />
+      )}
+
       {/* Auth Modal */}
       <AuthModal
         isOpen={showAuthModal}
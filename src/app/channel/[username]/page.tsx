@@ -239,6 +239,7 @@ export default function ChannelPage() {
         <AudioBookList 
           books={books}
           isOwner={isOwner}
+          channel={channel}
         />
       </div>
 
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { FaDownload, FaPause, FaPlay, FaTrash } from 'react-icons/fa';
+import { useOfflineDownloads } from '@/hooks/useOfflineDownloads';
+import { fetchListeningHistory } from '@/hooks/useListeningHistory';
+import { buildChapterQueue, useAudioPlayer } from '@/context/AudioPlayerContext';
+import { formatBytes, getCachedFileUrl, type DownloadedBook } from '@/lib/offline/downloads';
+
+export default function DownloadsPage() {
+  const { supported, downloads, storage, error, remove } = useOfflineDownloads();
+  const player = useAudioPlayer();
+  // Object URLs of the downloaded covers, so they show offline
+  const [coverUrls, setCoverUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+
+    const loadCovers = async () => {
+      const urls: Record<string, string> = {};
+      for (const book of downloads) {
+        if (!book.cover_url) continue;
+        const url = await getCachedFileUrl(book.cover_url).catch(() => null);
+        if (url) {
+          created.push(url);
+          urls[book.id] = url;
+        }
+      }
+      if (!cancelled) setCoverUrls(urls);
+    };
+    loadCovers();
+
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [downloads]);
+
+  const playBook = async (book: DownloadedBook) => {
+    if (player.currentTrack?.biglioId === book.id) {
+      player.togglePlay();
+      return;
+    }
+
+    const channel = book.channel_handle ? { handle: book.channel_handle } : null;
+    const queue = buildChapterQueue({ ...book, channel }, book.chapters);
+    // Pick up where the listener left off when that can be checked
+    const history = await fetchListeningHistory(book.id);
+    const resumeIndex = history && !history.completed
+      ? queue.findIndex(track => track.chapterId === history.chapter_id)
+      : -1;
+
+    if (history && resumeIndex >= 0) {
+      player.playQueue(queue, resumeIndex, history.position_seconds);
+    } else {
+      player.playQueue(queue);
+    }
+  };
+
+  const totalSize = downloads.reduce((sum, book) => sum + book.size_bytes, 0);
+
+  return (
+    <div className="min-h-screen bg-black pt-16">
+      <main className="max-w-md mx-auto px-4 py-6">
+        <h1 className="text-white text-2xl font-bold flex items-center gap-2">
+          <FaDownload className="text-purple-400" />
+          Downloads
+        </h1>
+        <p className="text-gray-400 text-sm mt-1">Audiobooks saved on this device to listen to offline.</p>
+
+        {/* Storage */}
+        {storage && (
+          <div className="mt-4">
+            <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-purple-500"
+                style={{ width: `${storage.quota ? Math.min(100, (storage.usage / storage.quota) * 100) : 0}%` }}
+              />
+            </div>
+            <p className="text-gray-400 text-xs mt-2">
+              Downloads use {formatBytes(totalSize)} • {formatBytes(storage.usage)} of {formatBytes(storage.quota)} available storage used
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {!supported ? (
+          <p className="text-gray-400 text-center py-12">This browser can&apos;t save audiobooks for offline listening.</p>
+        ) : downloads.length === 0 ? (
+          <div className="text-gray-400 text-center py-12">
+            <p>No downloads yet.</p>
+            <p className="text-sm mt-1">Open a book and choose Download book to listen without a connection.</p>
+          </div>
+        ) : (
+          <ul className="mt-6 space-y-4">
+            {downloads.map(book => {
+              const isPlayingBook = player.isPlaying && player.currentTrack?.biglioId === book.id;
+
+              return (
+                <li key={book.id} className="flex items-center gap-3">
+                  <button
+                    onClick={() => playBook(book)}
+                    className="relative w-16 h-16 rounded-lg overflow-hidden flex-shrink-0 bg-gradient-to-br from-indigo-500 via-purple-500 to-pink-500 group"
+                  >
+                    {coverUrls[book.id] ? (
+                      <Image
+                        src={coverUrls[book.id]}
+                        alt={book.title}
+                        fill
+                        unoptimized
+                        className="object-cover"
+                      />
+                    ) : (
+                      <span className="absolute inset-0 flex items-center justify-center text-white font-bold text-xl">
+                        {book.title.charAt(0).toUpperCase()}
+                      </span>
+                    )}
+                    <span className="absolute inset-0 flex items-center justify-center bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {isPlayingBook ? <FaPause className="text-white" /> : <FaPlay className="text-white ml-0.5" />}
+                    </span>
+                  </button>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-white text-sm font-semibold truncate">{book.title}</p>
+                    {book.channel_handle && (
+                      <p className="text-gray-400 text-xs truncate">@{book.channel_handle}</p>
+                    )}
+                    <p className="text-gray-500 text-xs">
+                      {book.chapters.length} chapters • {formatBytes(book.size_bytes)} • {new Date(book.downloaded_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      if (player.currentTrack?.biglioId === book.id) player.stop();
+                      remove(book.id);
+                    }}
+                    className="p-2 text-gray-500 hover:text-red-400 transition-colors flex-shrink-0"
+                    title="Remove download"
+                  >
+                    <FaTrash />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
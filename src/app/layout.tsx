@@ -5,7 +5,9 @@ import '../styles/SmartContactWidget.css';
 import { AIProvider } from '@/context/AIContext';
 import { AuthProvider } from '@/context/AuthContext';
 import { RealtimeProvider } from '@/context/RealtimeContext';
+import { AudioPlayerProvider } from '@/context/AudioPlayerContext';
 import { ModernNavBar } from '@/components/ModernNavBar';
+import { MiniPlayer } from '@/components/MiniPlayer';
 import SmartContactWidget from '@/components/SmartContactWidget';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -39,11 +41,14 @@ export default function RootLayout({
         <AuthProvider>
           <RealtimeProvider>
             <AIProvider>
-              <div className="min-h-screen bg-white dark:bg-black text-gray-900 dark:text-white">
-                <ModernNavBar />
-                {children}
-                <SmartContactWidget />
-              </div>
+              <AudioPlayerProvider>
+                <div className="min-h-screen bg-white dark:bg-black text-gray-900 dark:text-white">
+                  <ModernNavBar />
+                  {children}
+                  <MiniPlayer />
+                  <SmartContactWidget />
+                </div>
+              </AudioPlayerProvider>
             </AIProvider>
           </RealtimeProvider>
         </AuthProvider>
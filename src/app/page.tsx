@@ -5,6 +5,7 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { FaPlay, FaUser, FaSpinner, FaHeadphones } from 'react-icons/fa';
 import { useBooks } from '@/hooks/useBooks';
+import { useContinueListening } from '@/hooks/useListeningHistory';
 import { AudioPlayerModal } from '@/components/AudioPlayerModal';
 
 import SocialActions from '@/components/SocialActions';
@@ -33,6 +34,7 @@ interface Book {
 
 export default function HomePage() {
   const { books, loading, error, refetch } = useBooks();
+  const { items: continueListening, refetch: refetchContinueListening } = useContinueListening();
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -50,6 +52,13 @@ export default function HomePage() {
   const closeModal = () => {
     setIsModalOpen(false);
     setSelectedBook(null);
+    // The player saved a new position
+    refetchContinueListening();
+  };
+
+  const formatTimeLeft = (seconds: number) => {
+    const minutes = Math.max(1, Math.round(seconds / 60));
+    return minutes < 60 ? `${minutes} min left` : `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
   };
 
   const formatTimeAgo = (dateString: string) => {
@@ -70,6 +79,56 @@ export default function HomePage() {
 
       {/* Instagram-style Feed */}
       <main className="max-w-md mx-auto">
+        {/* Continue Listening */}
+        {continueListening.length > 0 && (
+          <section className="py-4 border-b border-gray-800">
+            <h2 className="text-white font-semibold text-sm px-4 mb-3">Continue listening</h2>
+            <div className="flex gap-3 overflow-x-auto px-4 pb-1">
+              {continueListening.map((item) => {
+                const chapterDuration = item.chapter?.duration_seconds || 0;
+                const progress = chapterDuration ? Math.min(100, (item.position_seconds / chapterDuration) * 100) : 0;
+
+                return (
+                  <button
+                    key={item.biglio_id}
+                    onClick={() => openBookModal(item.book)}
+                    className="flex-shrink-0 w-32 text-left group"
+                  >
+                    <div className="relative w-32 h-32 rounded-lg overflow-hidden bg-gradient-to-br from-indigo-500 via-purple-500 to-pink-500">
+                      {item.book.cover_url ? (
+                        <Image
+                          src={item.book.cover_url}
+                          alt={item.book.title}
+                          fill
+                          className="object-cover"
+                          sizes="128px"
+                        />
+                      ) : (
+                        <div className="absolute inset-0 flex items-center justify-center text-white font-bold text-3xl">
+                          {item.book.title.charAt(0).toUpperCase()}
+                        </div>
+                      )}
+                      <div className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <FaPlay className="text-white text-xl ml-1" />
+                      </div>
+                      {/* Progress through the current chapter */}
+                      <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/50">
+                        <div className="h-full bg-purple-500" style={{ width: `${progress}%` }} />
+                      </div>
+                    </div>
+                    <p className="text-white text-xs font-semibold mt-2 truncate">{item.book.title}</p>
+                    <p className="text-gray-400 text-xs truncate">
+                      {item.chapter
+                        ? `Ch. ${item.chapter.chapter_number}${chapterDuration ? ` • ${formatTimeLeft(chapterDuration - item.position_seconds)}` : ''}`
+                        : `@${item.book.channel.handle}`}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {loading && (
           <div className="p-6 text-center">
             <div className="text-white flex items-center justify-center gap-2">
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { useAI, AIPromptType, AIContextMode } from '@/context/AIContext';
+import { useAI, AIPromptType, AIContextMode, ConversationSummary } from '@/context/AIContext';
 import { 
   FaPaperPlane, 
   FaUser, 
@@ -19,8 +19,13 @@ import {
   FaPlus,
   FaPencilAlt,
   FaFeather,
-  FaStar
+  FaStar,
+  FaStop,
+  FaHistory,
+  FaSearch,
+  FaTrash
 } from 'react-icons/fa';
+import type { StoryBibleEntry } from '@/lib/ai/storyBible';
 
 interface ChatMessage {
   id: string;
@@ -28,6 +33,7 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   actionType?: 'start' | 'continue' | 'improve';
+  interrupted?: boolean;
 }
 
 interface Book {
@@ -55,6 +61,7 @@ interface AIAssistantChatProps {
   currentChapter?: Chapter;
   chapters?: Chapter[];
   mode?: 'outline' | 'write';
+  storyBible?: StoryBibleEntry[];
   onContentSuggestion?: (content: string) => void;
   onInsertContent?: (content: string, actionType?: 'start' | 'continue' | 'improve') => void;
   className?: string;
@@ -65,22 +72,42 @@ export function AIAssistantChat({
   currentChapter,
   chapters = [],
   mode = 'write',
+  storyBible = [],
   onContentSuggestion,
   onInsertContent,
   className = ''
 }: AIAssistantChatProps) {
   
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [hasInitialized, setHasInitialized] = useState(false);
+  const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
   const [inputMessage, setInputMessage] = useState('');
   const [showSettings, setShowSettings] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [threads, setThreads] = useState<ConversationSummary[]>([]);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const activeConversationRef = useRef<string | null>(null);
+
+  const conversationId = book && currentChapter ? 
+    `${book.id}-${currentChapter.id}` : 
+    book?.id || 'general';
   
   const { 
-    sendMessage: sendAIMessage, 
+    sendMessageStream,
+    cancelMessage,
     generatePrompt,
     setContextMode,
     clearConversation,
+    openConversation,
+    listConversations,
+    renameConversation,
+    deleteConversation,
+    activeThreadIds,
     contextMode,
     isLoading, 
     error 
@@ -241,19 +268,69 @@ How can I help you today? ✨`;
     }
   }, [book, currentChapter, mode]);
 
-  // Initialize chat with welcome message
+  // Welcome message followed by a restored thread's messages
+  const showConversation = useCallback((restored: { role: 'user' | 'assistant'; content: string; timestamp: string; interrupted?: boolean }[]) => {
+    const welcomeMessage: ChatMessage = {
+      id: `welcome-${Date.now()}`,
+      role: 'assistant',
+      content: getWelcomeMessage(),
+      timestamp: new Date()
+    };
+    setMessages([
+      welcomeMessage,
+      ...restored.map((message, index) => ({
+        id: `history-${index}-${message.timestamp}`,
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp),
+        ...(message.interrupted && { interrupted: true })
+      }))
+    ]);
+  }, [getWelcomeMessage]);
+
+  // Initialize chat for each book/chapter, restoring its most recent saved thread
   useEffect(() => {
-    if (!hasInitialized && (book || currentChapter)) {
-      const welcomeMessage: ChatMessage = {
-        id: `welcome-${Date.now()}`,
-        role: 'assistant',
-        content: getWelcomeMessage(),
-        timestamp: new Date()
-      };
-      setMessages([welcomeMessage]);
-      setHasInitialized(true);
-    }
-  }, [book, currentChapter, hasInitialized, getWelcomeMessage]);
+    if (loadedConversationId === conversationId || !(book || currentChapter)) return;
+
+    setLoadedConversationId(conversationId);
+    activeConversationRef.current = conversationId;
+    showConversation([]);
+
+    if (!book) return;
+    openConversation(conversationId, { bookId: book.id, chapterId: currentChapter?.id })
+      .then(restored => {
+        if (activeConversationRef.current === conversationId && restored.length > 0) {
+          showConversation(restored);
+        }
+      })
+      .catch(err => {
+        console.warn('⚠️ Could not restore AI conversation:', err);
+      });
+  }, [book, currentChapter, conversationId, loadedConversationId, openConversation, showConversation]);
+
+  // Load saved threads while the history panel is open, searching as the author types
+  useEffect(() => {
+    if (!showHistory || !book) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setHistoryLoading(true);
+      setHistoryError(null);
+      try {
+        const results = await listConversations({ bookId: book.id, chapterId: currentChapter?.id }, historyQuery);
+        if (!cancelled) setThreads(results);
+      } catch (err) {
+        if (!cancelled) setHistoryError(err instanceof Error ? err.message : 'Failed to load conversations');
+      } finally {
+        if (!cancelled) setHistoryLoading(false);
+      }
+    }, historyQuery ? 300 : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showHistory, historyQuery, book, currentChapter?.id, listConversations]);
 
   useEffect(() => {
     scrollToBottom();
@@ -292,7 +369,8 @@ How can I help you today? ✨`;
         currentChapterOutline: currentChapter?.outline_content || '',
         chapterSummaries: chapterSummaries,
         wordCount: 0, // Don't count written words in outline mode
-        totalChapters: book?.total_chapters || 0
+        totalChapters: book?.total_chapters || 0,
+        storyBible
       };
     } else {
       // WRITE MODE: Focus on writing, show written content and outline as background
@@ -309,11 +387,58 @@ How can I help you today? ✨`;
         currentChapterOutline: currentChapter?.outline_content || '', // Keep outline as reference
         chapterSummaries: chapterSummaries,
         wordCount: currentChapter?.content?.length || 0,
-        totalChapters: book?.total_chapters || 0
+        totalChapters: book?.total_chapters || 0,
+        storyBible
       };
     }
   };
 
+  // Stream a reply into a single assistant bubble that fills in as tokens arrive
+  const streamReply = async (
+    prompt: string,
+    context: ReturnType<typeof buildContext>,
+    displayMessage?: string,
+    actionType?: ChatMessage['actionType']
+  ) => {
+    const messageId = `assistant-${Date.now()}`;
+
+    const upsertAssistantMessage = (content: string, interrupted?: boolean) => {
+      setMessages(prev => {
+        const message: ChatMessage = {
+          id: messageId,
+          role: 'assistant',
+          content,
+          timestamp: new Date(),
+          actionType,
+          ...(interrupted && { interrupted })
+        };
+        return prev.some(m => m.id === messageId)
+          ? prev.map(m => (m.id === messageId ? message : m))
+          : [...prev, message];
+      });
+    };
+
+    setStreamingMessageId(messageId);
+    try {
+      const result = await sendMessageStream(prompt, context, conversationId, {
+        onToken: partial => upsertAssistantMessage(partial),
+        displayMessage
+      });
+
+      if (result.message) {
+        upsertAssistantMessage(result.message, result.interrupted);
+      } else {
+        setMessages(prev => prev.filter(m => m.id !== messageId));
+      }
+      return result;
+    } catch (error) {
+      setMessages(prev => prev.filter(m => m.id !== messageId));
+      throw error;
+    } finally {
+      setStreamingMessageId(null);
+    }
+  };
+
   const sendMessage = async (content: string) => {
     if (!content.trim() || isLoading) return;
 
@@ -329,23 +454,10 @@ How can I help you today? ✨`;
 
     try {
       const context = buildContext();
-      const conversationId = book && currentChapter ? 
-        `${book.id}-${currentChapter.id}` : 
-        book?.id || 'general';
-
-      const response = await sendAIMessage(content, context, conversationId);
-
-      const assistantMessage: ChatMessage = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: response,
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+      const { message: response, interrupted } = await streamReply(content, context);
 
       // If it's a content suggestion and callback is provided
-      if (onContentSuggestion && response.length > 100) {
+      if (onContentSuggestion && !interrupted && response.length > 100) {
         // Check if response seems like it could be content
         const isContentSuggestion = content.toLowerCase().includes('write') || 
                                    content.toLowerCase().includes('continue') ||
@@ -381,24 +493,15 @@ How can I help you today? ✨`;
       };
       setMessages(prev => [...prev, userMessage]);
 
-      // Generate content
-      const conversationId = book && currentChapter ? 
-        `${book.id}-${currentChapter.id}` : 
-        book?.id || 'general';
-
-      const response = await sendAIMessage(prompt, context, conversationId);
-
-      // Show the generated content in chat with insert/copy buttons
-      const assistantMessage: ChatMessage = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-        actionType: type === AIPromptType.CHAPTER_IDEA ? 'start' :
-                   type === AIPromptType.PLOT_DEVELOPMENT ? 'continue' :
-                   type === AIPromptType.STYLE_IMPROVEMENT ? 'improve' : undefined
-      };
-      setMessages(prev => [...prev, assistantMessage]);
+      // Generate content, streaming it into the chat with insert/copy buttons
+      await streamReply(
+        prompt,
+        context,
+        getWritingActionLabel(type).text,
+        type === AIPromptType.CHAPTER_IDEA ? 'start' :
+        type === AIPromptType.PLOT_DEVELOPMENT ? 'continue' :
+        type === AIPromptType.STYLE_IMPROVEMENT ? 'improve' : undefined
+      );
 
     } catch (error) {
       console.error('Error generating content:', error);
@@ -443,21 +546,47 @@ How can I help you today? ✨`;
   };
 
   const handleClearConversation = () => {
-    const conversationId = book && currentChapter ? 
-      `${book.id}-${currentChapter.id}` : 
-      book?.id || 'general';
-    
+    // Starts a new thread; the previous one stays in the history panel
     clearConversation(conversationId);
-    setMessages([]);
-    
-    // Add welcome message back
-    const welcomeMessage: ChatMessage = {
-      id: `welcome-${Date.now()}`,
-      role: 'assistant',
-      content: getWelcomeMessage(),
-      timestamp: new Date()
-    };
-    setMessages([welcomeMessage]);
+    showConversation([]);
+  };
+
+  const handleOpenThread = async (thread: ConversationSummary) => {
+    if (!book) return;
+    try {
+      const restored = await openConversation(conversationId, { bookId: book.id, chapterId: currentChapter?.id }, thread.id);
+      showConversation(restored);
+      setShowHistory(false);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : 'Failed to load conversation');
+    }
+  };
+
+  const handleRenameThread = async (threadId: string) => {
+    const title = renameValue.trim();
+    setRenamingThreadId(null);
+    if (!title) return;
+
+    try {
+      await renameConversation(threadId, title);
+      setThreads(prev => prev.map(thread => (thread.id === threadId ? { ...thread, title } : thread)));
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : 'Failed to rename conversation');
+    }
+  };
+
+  const handleDeleteThread = async (thread: ConversationSummary) => {
+    const confirmed = confirm(`Delete "${thread.title || 'Untitled conversation'}"? This cannot be undone.`);
+    if (!confirmed) return;
+
+    try {
+      const wasOpen = activeThreadIds[conversationId] === thread.id;
+      await deleteConversation(thread.id);
+      setThreads(prev => prev.filter(t => t.id !== thread.id));
+      if (wasOpen) showConversation([]);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : 'Failed to delete conversation');
+    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -500,6 +629,15 @@ How can I help you today? ✨`;
             </span>
           </div>
           <div className="flex items-center gap-0.5">
+            {book && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`p-1 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors ${showHistory ? 'text-purple-600' : 'text-gray-500'}`}
+                title="Conversation history"
+              >
+                <FaHistory size={12} />
+              </button>
+            )}
             <button
               onClick={() => setShowSettings(!showSettings)}
               className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
@@ -510,7 +648,7 @@ How can I help you today? ✨`;
             <button
               onClick={handleClearConversation}
               className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
-              title="Clear conversation"
+              title="New conversation"
             >
               <FaTimes size={12} />
             </button>
@@ -569,6 +707,98 @@ How can I help you today? ✨`;
         </div>
       )}
 
+      {/* History Panel */}
+      {showHistory && (
+        <div className="p-3 border-b border-gray-200 bg-gray-50 flex-shrink-0 max-h-72 overflow-y-auto">
+          <div className="relative mb-2">
+            <FaSearch className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" size={10} />
+            <input
+              type="text"
+              value={historyQuery}
+              onChange={(e) => setHistoryQuery(e.target.value)}
+              placeholder="Search conversations in this book..."
+              className="w-full pl-6 pr-2 py-1.5 text-xs border border-gray-300 rounded focus:border-purple-500 focus:outline-none"
+            />
+          </div>
+
+          {historyError && (
+            <p className="text-xs text-red-600 mb-2">{historyError}</p>
+          )}
+
+          {historyLoading && threads.length === 0 ? (
+            <p className="text-xs text-gray-500 py-2 text-center">Loading...</p>
+          ) : threads.length === 0 ? (
+            <p className="text-xs text-gray-500 py-2 text-center">
+              {historyQuery ? 'No matching conversations' : 'No saved conversations yet'}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {threads.map(thread => (
+                <li
+                  key={thread.id}
+                  className={`group p-2 rounded border text-xs ${
+                    activeThreadIds[conversationId] === thread.id
+                      ? 'border-purple-300 bg-purple-50'
+                      : 'border-gray-200 bg-white hover:border-gray-300'
+                  }`}
+                >
+                  {renamingThreadId === thread.id ? (
+                    <input
+                      type="text"
+                      value={renameValue}
+                      autoFocus
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => handleRenameThread(thread.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRenameThread(thread.id);
+                        if (e.key === 'Escape') setRenamingThreadId(null);
+                      }}
+                      className="w-full px-1 py-0.5 border border-purple-300 rounded focus:outline-none"
+                    />
+                  ) : (
+                    <div className="flex items-start gap-2">
+                      <button
+                        onClick={() => handleOpenThread(thread)}
+                        className="flex-1 text-left min-w-0"
+                      >
+                        <div className="font-medium text-gray-900 truncate">
+                          {thread.title || 'Untitled conversation'}
+                        </div>
+                        {thread.snippet && (
+                          <div className="text-gray-600 line-clamp-2">{thread.snippet}</div>
+                        )}
+                        <div className="text-gray-400">
+                          {new Date(thread.updated_at).toLocaleDateString()}
+                        </div>
+                      </button>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => {
+                            setRenamingThreadId(thread.id);
+                            setRenameValue(thread.title || '');
+                          }}
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title="Rename"
+                        >
+                          <FaPencilAlt size={10} />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteThread(thread)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <FaTrash size={10} />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Messages - Scrollable Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((message) => (
@@ -596,11 +826,12 @@ How can I help you today? ✨`;
                   }`}
                 >
                   {formatTime(message.timestamp)}
+                  {message.interrupted && ' · Stopped'}
                 </div>
               </div>
               
-              {/* Insert & Copy buttons for AI responses */}
-              {message.role === 'assistant' && (
+              {/* Insert & Copy buttons for AI responses (once the reply is complete) */}
+              {message.role === 'assistant' && message.id !== streamingMessageId && (
                 <div className="flex items-center gap-2 p-2 border-t border-gray-200 bg-gray-50 rounded-b-lg">
                   <button
                     onClick={() => insertContent(message.content)}
@@ -629,7 +860,7 @@ How can I help you today? ✨`;
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && !messages.some(m => m.id === streamingMessageId) && (
           <div className="flex gap-3 justify-start">
             <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center flex-shrink-0">
               <FaSpinner className="text-purple-600 animate-spin" size={14} />
@@ -665,17 +896,27 @@ How can I help you today? ✨`;
             disabled={isLoading}
             className="flex-1 p-3 border border-gray-300 rounded-lg focus:border-blue-500 focus:ring-2 focus:ring-blue-200 focus:outline-none disabled:bg-gray-100"
           />
-          <button
-            onClick={() => sendMessage(inputMessage)}
-            disabled={isLoading || !inputMessage.trim()}
-            className="px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-semibold transition-colors flex items-center gap-2"
-          >
-            {isLoading ? (
-              <FaSpinner className="animate-spin" size={16} />
-            ) : (
-              <FaPaperPlane size={16} />
-            )}
-          </button>
+          {streamingMessageId ? (
+            <button
+              onClick={cancelMessage}
+              className="px-4 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-colors flex items-center gap-2"
+              title="Stop generating"
+            >
+              <FaStop size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={() => sendMessage(inputMessage)}
+              disabled={isLoading || !inputMessage.trim()}
+              className="px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-semibold transition-colors flex items-center gap-2"
+            >
+              {isLoading ? (
+                <FaSpinner className="animate-spin" size={16} />
+              ) : (
+                <FaPaperPlane size={16} />
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useAudioJobs } from '@/hooks/useAudioJobs';
+import { MAX_CHAPTER_AUDIO_CHARACTERS } from '@/lib/audio/narrationSettings';
 import { FaPlay, FaPause, FaSpinner, FaVolumeUp, FaDownload, FaMale, FaFemale, FaUser, FaCrown, FaLock, FaMicrophone, FaStar, FaMusic, FaRocket, FaTrophy, FaDollarSign } from 'react-icons/fa';
 
 interface AudioGenerationButtonProps {
@@ -37,12 +39,54 @@ export function AudioGenerationButton({
   const [showComingSoonModal, setShowComingSoonModal] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+
+  const { jobs, generateAudio: enqueueAudio } = useAudioJobs(chapterId);
 
   // Update audio URL when existingAudioUrl prop changes
   useEffect(() => {
     setAudioUrl(existingAudioUrl || null);
   }, [existingAudioUrl]);
 
+  // Pick up a job that is still queued or running (e.g. after a page reload)
+  useEffect(() => {
+    if (activeJobId) return;
+    const runningJob = jobs.find(job => job.status === 'pending' || job.status === 'processing');
+    if (runningJob) {
+      setActiveJobId(runningJob.id);
+      setIsGenerating(true);
+    }
+  }, [jobs, activeJobId]);
+
+  // Follow the queued job through realtime updates
+  useEffect(() => {
+    if (!activeJobId) return;
+    const job = jobs.find(j => j.id === activeJobId);
+    if (!job) return;
+
+    if (job.status === 'pending') {
+      setProgress(job.attempts ? `Retrying audio generation (attempt ${job.attempts + 1})...` : 'Queued for audio generation...');
+    } else if (job.status === 'processing') {
+      setProgress(`Generating high-quality audio... ${job.progress || 0}%`);
+    } else if (job.status === 'completed') {
+      setActiveJobId(null);
+      setIsGenerating(false);
+      if (job.audio_url) {
+        setAudioUrl(job.audio_url);
+        onAudioGenerated?.(job.audio_url);
+      }
+      setProgress('Audio generated successfully!');
+      
+      // Clear progress after a delay
+      setTimeout(() => setProgress(''), 3000);
+    } else if (job.status === 'failed') {
+      setActiveJobId(null);
+      setIsGenerating(false);
+      setProgress('');
+      setError(job.error_message || 'Failed to generate audio');
+    }
+  }, [jobs, activeJobId, onAudioGenerated]);
+
   // Get the voice to use (book preference or default)
   const voiceToUse = bookVoicePreference || 'female';
 
@@ -52,8 +96,8 @@ export function AudioGenerationButton({
       return;
     }
 
-    if (chapterContent.length > 7500) {
-      setError('Chapter content exceeds 7,500 character limit for audio generation');
+    if (chapterContent.length > MAX_CHAPTER_AUDIO_CHARACTERS) {
+      setError(`Chapter content exceeds ${MAX_CHAPTER_AUDIO_CHARACTERS.toLocaleString()} character limit for audio generation`);
       return;
     }
 
@@ -69,44 +113,15 @@ export function AudioGenerationButton({
   const performAudioGeneration = async (voice: 'male' | 'female') => {
     setIsGenerating(true);
     setError(null);
-    setProgress('Generating high-quality audio...');
+    setProgress('Queueing audio generation...');
 
     try {
-      const response = await fetch('/api/audio/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chapterId,
-          text: chapterContent,
-          voice: voice
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || `Audio generation failed: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.error);
-      }
-
-      if (data.audioUrl) {
-        setAudioUrl(data.audioUrl);
-        setProgress('Audio generated successfully!');
-        onAudioGenerated?.(data.audioUrl);
-        
-        // Clear progress after a delay
-        setTimeout(() => setProgress(''), 3000);
-      }
+      const jobId = await enqueueAudio(chapterContent, voice);
+      setActiveJobId(jobId);
     } catch (err) {
       console.error('Error generating audio:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate audio');
-    } finally {
+      setProgress('');
       setIsGenerating(false);
     }
   };
@@ -11,11 +11,19 @@ import {
   FaVolumeUp, 
  
   FaTimes,
-  FaList
+  FaList,
+  FaDownload,
+  FaCheckCircle,
+  FaMoon
 } from 'react-icons/fa';
 import SocialActions from '@/components/SocialActions';
 import Comments from '@/components/Comments';
 import FollowButton from '@/components/FollowButton';
+import { fetchListeningHistory } from '@/hooks/useListeningHistory';
+import { useOfflineDownloads } from '@/hooks/useOfflineDownloads';
+import { buildChapterQueue, SLEEP_TIMER_OPTIONS, useAudioPlayer } from '@/context/AudioPlayerContext';
+import { formatBytes } from '@/lib/offline/downloads';
+import type { AudioAlignment } from '@/types/database';
 
 interface Book {
   id: string;
@@ -43,6 +51,7 @@ interface Chapter {
   chapter_number: number;
   audio_url?: string;
   duration_seconds: number;
+  audio_alignment?: AudioAlignment | null;
   is_published: boolean;
 }
 
@@ -54,25 +63,34 @@ interface AudioPlayerModalProps {
 
 export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProps) {
   const [chapters, setChapters] = useState<Chapter[]>([]);
-  const [currentChapter, setCurrentChapter] = useState<Chapter | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
-  const [volume, setVolume] = useState(1);
+  const [selectedChapter, setSelectedChapter] = useState<Chapter | null>(null);
   const [showChapterList, setShowChapterList] = useState(false);
   const [showComments, setShowComments] = useState(false);
+  const [showSleepOptions, setShowSleepOptions] = useState(false);
   const [isLiked, setIsLiked] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [resumedFrom, setResumedFrom] = useState<number | null>(null);
 
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeSentenceRef = useRef<HTMLSpanElement>(null);
   const supabase = createClient();
+  const player = useAudioPlayer();
+  const offline = useOfflineDownloads();
+
+  // The app-wide player keeps going when the modal closes, so it may already be playing this book
+  const playingTrack = book && player.currentTrack?.biglioId === book.id ? player.currentTrack : null;
+  const currentChapter = (playingTrack && chapters.find(ch => ch.id === playingTrack.chapterId)) || selectedChapter;
+  const isCurrentLoaded = !!playingTrack && playingTrack.chapterId === currentChapter?.id;
+  const isPlaying = isCurrentLoaded && player.isPlaying;
+  const currentTime = isCurrentLoaded ? player.currentTime : resumedFrom || 0;
+  const duration = isCurrentLoaded ? player.duration : currentChapter?.duration_seconds || 0;
 
   const fetchChapters = useCallback(async () => {
     if (!book) return;
 
     try {
       setIsLoading(true);
+      setResumedFrom(null);
       const { data, error } = await supabase
         .from('chapters')
         .select('*')
@@ -94,12 +112,23 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
         duration: ch.duration_seconds
       })));
       
-      // Auto-select first chapter with audio
+      // Resume where the listener left off, unless they finished the book
+      const history = await fetchListeningHistory(book.id);
+      const resumeChapter = history && !history.completed
+        ? chapters.find(ch => ch.id === history.chapter_id && ch.audio_url)
+        : undefined;
+
+      // Otherwise auto-select first chapter with audio
       const firstChapterWithAudio = chapters?.find(ch => ch.audio_url);
-      if (firstChapterWithAudio) {
+      if (resumeChapter && history) {
+        console.log(`[AUDIO] Resuming "${resumeChapter.title}" at ${history.position_seconds}s`);
+        setResumedFrom(history.position_seconds);
+        setSelectedChapter(resumeChapter);
+      } else if (firstChapterWithAudio) {
         console.log('[AUDIO] Auto-selecting first chapter with audio:', firstChapterWithAudio.title);
-        setCurrentChapter(firstChapterWithAudio);
+        setSelectedChapter(firstChapterWithAudio);
       } else {
+        setSelectedChapter(null);
         console.log('⚠️ No chapters with audio found');
       }
     } catch (error) {
@@ -109,29 +138,15 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
     }
   }, [book, supabase]);
 
-  const playChapter = useCallback((chapter: Chapter) => {
-    if (!chapter.audio_url) return;
-    
-    setCurrentChapter(chapter);
-    setIsPlaying(false);
-    
-    // Small delay to ensure audio src is updated
-    setTimeout(() => {
-      const audio = audioRef.current;
-      if (audio) {
-        audio.load();
-        audio.play().then(() => setIsPlaying(true));
-      }
-    }, 100);
-  }, []);
+  // Hands the book's chapters to the app-wide player, which moves on to the next chapter by itself
+  const playChapter = (chapter: Chapter, positionSeconds = 0) => {
+    if (!book || !chapter.audio_url) return;
 
-  const playNextChapter = useCallback(() => {
-    const currentIndex = chapters.findIndex(ch => ch.id === currentChapter?.id);
-    const nextChapter = chapters[currentIndex + 1];
-    if (nextChapter) {
-      playChapter(nextChapter);
-    }
-  }, [chapters, currentChapter, playChapter]);
+    const queue = buildChapterQueue(book, chapters);
+    setResumedFrom(null);
+    setSelectedChapter(chapter);
+    player.playQueue(queue, queue.findIndex(track => track.chapterId === chapter.id), positionSeconds);
+  };
 
   useEffect(() => {
     if (book && isOpen) {
@@ -139,35 +154,22 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
     }
   }, [book, isOpen, fetchChapters]);
 
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const updateTime = () => setCurrentTime(audio.currentTime);
-    const updateDuration = () => setDuration(audio.duration);
-    const handleEnded = () => playNextChapter();
-
-    audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('loadedmetadata', updateDuration);
-    audio.addEventListener('ended', handleEnded);
-
-    return () => {
-      audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('loadedmetadata', updateDuration);
-      audio.removeEventListener('ended', handleEnded);
-    };
-  }, [currentChapter, playNextChapter]);
-
   const togglePlayPause = () => {
-    const audio = audioRef.current;
-    if (!audio || !currentChapter?.audio_url) return;
+    if (!currentChapter?.audio_url) return;
 
-    if (isPlaying) {
-      audio.pause();
+    if (isCurrentLoaded) {
+      player.togglePlay();
     } else {
-      audio.play();
+      playChapter(currentChapter, resumedFrom || 0);
+    }
+  };
+
+  const playNextChapter = () => {
+    const currentIndex = chapters.findIndex(ch => ch.id === currentChapter?.id);
+    const nextChapter = chapters[currentIndex + 1];
+    if (nextChapter) {
+      playChapter(nextChapter);
     }
-    setIsPlaying(!isPlaying);
   };
 
   const playPreviousChapter = () => {
@@ -178,16 +180,40 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
     }
   };
 
+  const seekToTime = (seconds: number) => {
+    if (!currentChapter) return;
+
+    if (isCurrentLoaded) {
+      player.seek(seconds);
+      if (!player.isPlaying) player.play();
+    } else {
+      playChapter(currentChapter, seconds);
+    }
+  };
+
   const seekTo = (percentage: number) => {
-    const audio = audioRef.current;
-    if (audio && duration) {
-      audio.currentTime = (percentage / 100) * duration;
+    if (duration) {
+      seekToTime((percentage / 100) * duration);
     }
   };
 
+  const sentences = currentChapter?.audio_alignment?.sentences || [];
+  const activeSentenceIndex = isCurrentLoaded
+    ? sentences.findIndex(sentence => currentTime >= sentence.startTime && currentTime < sentence.endTime)
+    : -1;
+
+  // Keep the sentence being spoken in view
+  useEffect(() => {
+    activeSentenceRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeSentenceIndex]);
+
   const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
+    const hours = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60);
     const secs = Math.floor(seconds % 60);
+    if (hours > 0) {
+      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
@@ -282,6 +308,11 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
                 <p className="text-gray-600 text-sm">
                   Chapter {currentChapter.chapter_number} of {chapters.length}
                 </p>
+                {!isCurrentLoaded && resumedFrom !== null && resumedFrom > 0 && (
+                  <p className="text-xs text-blue-600 mt-1">
+                    Continuing where you left off at {formatTime(resumedFrom)}
+                  </p>
+                )}
               </div>
             )}
 
@@ -343,19 +374,76 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
                   min="0"
                   max="1"
                   step="0.1"
-                  value={volume}
-                  onChange={(e) => {
-                    const newVolume = parseFloat(e.target.value);
-                    setVolume(newVolume);
-                    if (audioRef.current) {
-                      audioRef.current.volume = newVolume;
-                    }
-                  }}
+                  value={player.volume}
+                  onChange={(e) => player.setVolume(parseFloat(e.target.value))}
                   className="flex-1"
                 />
               </div>
+
+              {/* Sleep Timer - keeps running across chapters and after the player is closed */}
+              <div className="relative flex items-center justify-center gap-3 mt-4 text-sm">
+                <button
+                  onClick={() => setShowSleepOptions(!showSleepOptions)}
+                  disabled={!player.currentTrack}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-full transition-colors disabled:text-gray-300 ${
+                    player.sleepTimer ? 'bg-indigo-100 text-indigo-700' : 'text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  <FaMoon />
+                  {!player.sleepTimer
+                    ? 'Sleep timer'
+                    : player.sleepTimer.endsAt !== null
+                      ? `Sleep in ${formatTime(player.sleepTimerRemaining || 0)}`
+                      : 'Sleep at end of chapter'}
+                </button>
+                {player.sleepTimer && (
+                  <button
+                    onClick={() => player.setSleepTimer(null)}
+                    className="text-gray-500 hover:text-gray-700 underline"
+                  >
+                    Cancel
+                  </button>
+                )}
+                {showSleepOptions && (
+                  <div className="absolute top-full mt-2 w-48 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10">
+                    {SLEEP_TIMER_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => {
+                          player.setSleepTimer(option.value);
+                          setShowSleepOptions(false);
+                        }}
+                        className="block w-full text-left px-4 py-2 text-gray-700 hover:bg-gray-100"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
 
+            {/* Read-Along Transcript */}
+            {sentences.length > 0 && (
+              <div className="mb-4 md:mb-6">
+                <h4 className="font-semibold text-gray-900 mb-2">Read Along</h4>
+                <div className="max-h-48 md:max-h-64 overflow-y-auto bg-gray-50 rounded-lg p-4 text-gray-700 leading-relaxed">
+                  {sentences.map((sentence, index) => (
+                    <span
+                      key={`${sentence.textStart}-${index}`}
+                      ref={index === activeSentenceIndex ? activeSentenceRef : undefined}
+                      onClick={() => seekToTime(sentence.startTime)}
+                      className={`cursor-pointer rounded transition-colors ${
+                        index === activeSentenceIndex ? 'bg-yellow-200 text-gray-900' : 'hover:bg-gray-200'
+                      }`}
+                    >
+                      {sentence.text}{' '}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Social Actions */}
             <div className="mb-4 md:mb-6">
               <SocialActions 
@@ -366,6 +454,46 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
               />
             </div>
 
+            {/* Offline Download */}
+            {offline.supported && chapters.some(ch => ch.audio_url) && (
+              <div className="mb-4 md:mb-6 flex flex-col items-center gap-2">
+                {offline.progress[book.id] ? (
+                  <p className="text-sm text-gray-600">
+                    Downloading {offline.progress[book.id].completed} of {offline.progress[book.id].total} chapters...
+                  </p>
+                ) : offline.isDownloaded(book.id) ? (
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="flex items-center gap-1 text-green-700">
+                      <FaCheckCircle />
+                      Downloaded • {formatBytes(offline.downloads.find(download => download.id === book.id)?.size_bytes || 0)}
+                    </span>
+                    <button
+                      onClick={() => offline.remove(book.id)}
+                      className="text-gray-500 hover:text-gray-700 underline"
+                    >
+                      Remove download
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => offline.download(book, chapters)}
+                    className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors"
+                  >
+                    <FaDownload />
+                    Download book
+                  </button>
+                )}
+                {offline.storage && (
+                  <p className="text-xs text-gray-400">
+                    {formatBytes(offline.storage.usage)} of {formatBytes(offline.storage.quota)} storage used on this device
+                  </p>
+                )}
+                {offline.error && (
+                  <p className="text-xs text-red-600">{offline.error}</p>
+                )}
+              </div>
+            )}
+
             {/* Comments Section */}
             {showComments && (
               <div className="border-t border-gray-200 pt-4 mb-4">
@@ -436,20 +564,6 @@ export function AudioPlayerModal({ book, isOpen, onClose }: AudioPlayerModalProp
             </div>
           </div>
         </div>
-
-        {/* Hidden Audio Element */}
-        {currentChapter?.audio_url && (
-          <audio
-            ref={audioRef}
-            src={currentChapter.audio_url}
-            onLoadedMetadata={() => {
-              if (audioRef.current) {
-                setDuration(audioRef.current.duration);
-                audioRef.current.volume = volume;
-              }
-            }}
-          />
-        )}
       </div>
     </div>
   );
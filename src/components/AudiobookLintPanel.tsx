@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCheckCircle, FaChevronDown, FaChevronUp, FaExclamationCircle, FaExclamationTriangle, FaMagic } from 'react-icons/fa';
+import { applyLintFixes, countLintIssues, AudiobookLintIssue } from '@/utils/audiobookLint';
+
+interface AudiobookLintPanelProps {
+  content: string;
+  issues: AudiobookLintIssue[];
+  onChange: (newContent: string) => void;
+  // Select the issue's text in the editor
+  onShow: (issue: AudiobookLintIssue) => void;
+  // Issues without a quick fix (long sentences) can be handed to the AI editor
+  onFixWithAI: (issue: AudiobookLintIssue) => void;
+}
+
+const EXCERPT_LENGTH = 60;
+
+function excerpt(content: string, issue: AudiobookLintIssue): string {
+  const text = content.slice(issue.start, issue.end).replace(/\s+/g, ' ');
+  if (!text.trim()) return '(list marker)';
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+}
+
+/**
+ * Audiobook compliance warnings for the chapter being edited, with quick
+ * fixes for each issue and for all of them at once.
+ */
+export function AudiobookLintPanel({ content, issues, onChange, onShow, onFixWithAI }: AudiobookLintPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { errors, warnings } = countLintIssues(issues);
+  const fixableCount = issues.filter(issue => issue.fix).length;
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700">
+        <FaCheckCircle />
+        Ready for narration - no audiobook formatting issues
+      </div>
+    );
+  }
+
+  return (
+    <div className={`border rounded-lg text-sm ${errors > 0 ? 'border-red-200 bg-red-50' : 'border-yellow-200 bg-yellow-50'}`}>
+      {/* Summary */}
+      <div className="flex items-center justify-between px-3 py-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={`flex items-center gap-2 font-medium ${errors > 0 ? 'text-red-700' : 'text-yellow-800'}`}
+        >
+          {errors > 0 ? <FaExclamationCircle /> : <FaExclamationTriangle />}
+          {[
+            errors > 0 && `${errors} audiobook issue${errors === 1 ? '' : 's'}`,
+            warnings > 0 && `${warnings} warning${warnings === 1 ? '' : 's'}`
+          ].filter(Boolean).join(', ')}
+          {expanded ? <FaChevronUp size={10} /> : <FaChevronDown size={10} />}
+        </button>
+        {fixableCount > 0 && (
+          <button
+            onClick={() => onChange(applyLintFixes(content, issues))}
+            className="px-3 py-1 text-xs bg-white hover:bg-gray-100 border border-gray-300 text-gray-700 rounded-md transition-colors"
+          >
+            Fix All ({fixableCount})
+          </button>
+        )}
+      </div>
+
+      {/* Issue List */}
+      {expanded && (
+        <ul className="max-h-40 overflow-y-auto border-t border-gray-200 bg-white divide-y divide-gray-100 rounded-b-lg">
+          {issues.map(issue => (
+            <li key={`${issue.rule}-${issue.start}`} className="flex items-start gap-2 px-3 py-2">
+              {issue.severity === 'error'
+                ? <FaExclamationCircle className="text-red-500 mt-0.5 flex-shrink-0" size={12} />
+                : <FaExclamationTriangle className="text-yellow-500 mt-0.5 flex-shrink-0" size={12} />}
+              <div className="flex-1 min-w-0">
+                <button
+                  onClick={() => onShow(issue)}
+                  className="font-mono text-xs text-gray-900 bg-gray-100 hover:bg-gray-200 px-1 rounded truncate max-w-full text-left"
+                  title="Show in chapter"
+                >
+                  {excerpt(content, issue)}
+                </button>
+                <p className="text-xs text-gray-600 mt-0.5">{issue.message}</p>
+              </div>
+              {issue.fix ? (
+                <button
+                  onClick={() => onChange(applyLintFixes(content, [issue]))}
+                  className="px-2 py-1 text-xs text-purple-700 bg-purple-50 hover:bg-purple-100 border border-purple-200 rounded transition-colors flex-shrink-0"
+                  title={issue.fix.replacement ? `Replace with "${issue.fix.replacement}"` : undefined}
+                >
+                  {issue.fix.label}
+                </button>
+              ) : (
+                <button
+                  onClick={() => onFixWithAI(issue)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-purple-700 bg-purple-50 hover:bg-purple-100 border border-purple-200 rounded transition-colors flex-shrink-0"
+                >
+                  <FaMagic size={10} />
+                  Fix with AI
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
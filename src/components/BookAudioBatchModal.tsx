@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCheck, FaClock, FaExclamationTriangle, FaTimes, FaVolumeUp } from 'react-icons/fa';
+import { useBookAudioJobs } from '@/hooks/useAudioJobs';
+import type { ChapterAudioState } from '@/lib/audio/bookAudio';
+
+interface BookAudioBatchModalProps {
+  bookId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  // Called once the batch has finished so the editor can refresh chapters
+  onComplete?: () => void;
+}
+
+const stateLabels: Record<ChapterAudioState, string> = {
+  ready: 'Up to date',
+  missing: 'No audio',
+  stale: 'Out of date',
+  failed: 'Failed',
+  generating: 'Generating',
+  empty: 'No content'
+};
+
+export function BookAudioBatchModal({ bookId, isOpen, onClose, onComplete }: BookAudioBatchModalProps) {
+  const { plan, jobsByChapter, isRunning, loading, error, generateBookAudio } = useBookAudioJobs(isOpen ? bookId : undefined);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+
+  if (!isOpen) return null;
+
+  const startGeneration = async () => {
+    setIsQueueing(true);
+    try {
+      await generateBookAudio();
+      setHasStarted(true);
+    } catch (err) {
+      console.error('Error queueing book audio:', err);
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (hasStarted) onComplete?.();
+    onClose();
+  };
+
+  const formatNumber = (value: number) => value.toLocaleString('en-US');
+
+  const formatCost = (value: number) =>
+    value === 0 ? 'Free' : value < 0.01 ? '< $0.01' : `$${value.toFixed(2)}`;
+
+  const getChapterStatus = (chapterId: string, state: ChapterAudioState) => {
+    const job = jobsByChapter[chapterId];
+
+    if (job?.status === 'processing') {
+      return { icon: <FaClock className="text-yellow-500 animate-spin" />, label: `${job.progress || 0}%`, progress: job.progress || 0 };
+    }
+    if (job?.status === 'pending') {
+      return { icon: <FaClock className="text-gray-400" />, label: job.attempts ? 'Retrying' : 'Queued', progress: 0 };
+    }
+    if (job?.status === 'completed') {
+      return { icon: <FaCheck className="text-green-500" />, label: 'Done', progress: 100 };
+    }
+    if (job?.status === 'failed') {
+      return { icon: <FaExclamationTriangle className="text-red-500" />, label: 'Failed', progress: 0 };
+    }
+
+    switch (state) {
+      case 'ready':
+        return { icon: <FaCheck className="text-green-500" />, label: stateLabels[state] };
+      case 'generating':
+        return { icon: <FaClock className="text-yellow-500 animate-spin" />, label: stateLabels[state] };
+      case 'failed':
+      case 'stale':
+        return { icon: <FaExclamationTriangle className="text-orange-500" />, label: stateLabels[state] };
+      default:
+        return { icon: <FaExclamationTriangle className="text-gray-400" />, label: stateLabels[state] };
+    }
+  };
+
+  const trackedJobs = Object.values(jobsByChapter);
+  const finishedJobs = trackedJobs.filter(job => job.status === 'completed' || job.status === 'failed').length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-hidden">
+        {/* Modal Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <FaVolumeUp className="text-purple-600" />
+            Generate Audio for Book
+          </h3>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <FaTimes className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="px-6 py-4 space-y-4 max-h-[calc(90vh-140px)] overflow-y-auto">
+          {loading && !plan ? (
+            <p className="text-center text-gray-500 py-6">Checking chapters...</p>
+          ) : plan ? (
+            <>
+              {/* Estimate */}
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xl font-bold text-gray-900">{plan.chaptersToGenerate}</p>
+                  <p className="text-xs text-gray-500">chapters to generate</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xl font-bold text-gray-900">{formatNumber(plan.totalCharacters)}</p>
+                  <p className="text-xs text-gray-500">characters</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xl font-bold text-gray-900">{formatCost(plan.estimatedCostUsd)}</p>
+                  <p className="text-xs text-gray-500">estimated TTS cost</p>
+                </div>
+              </div>
+              {plan.billableCharacters < plan.totalCharacters && (
+                <p className="text-xs text-gray-500">
+                  Unchanged paragraphs are reused, so only {formatNumber(plan.billableCharacters)} characters will be synthesized.
+                </p>
+              )}
+
+              {/* Overall progress */}
+              {hasStarted && trackedJobs.length > 0 && (
+                <div>
+                  <div className="flex justify-between text-sm text-gray-600 mb-1">
+                    <span>{isRunning ? 'Generating...' : 'Finished'}</span>
+                    <span>{finishedJobs} of {trackedJobs.length} chapters</span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-full">
+                    <div
+                      className="h-full bg-purple-600 rounded-full transition-all"
+                      style={{ width: `${(finishedJobs / trackedJobs.length) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {hasStarted && !isRunning && plan.audioReady && (
+                <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+                  🎉 Every chapter has audio - this book is ready to publish.
+                </div>
+              )}
+
+              {/* Per-chapter status */}
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {plan.chapters.map(chapter => {
+                  const status = getChapterStatus(chapter.id, chapter.state);
+                  return (
+                    <li key={chapter.id} className="px-3 py-2">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {chapter.chapterNumber}. {chapter.title}
+                          </p>
+                          <p className="text-xs text-gray-500">{formatNumber(chapter.characters)} characters</p>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-gray-600 flex-shrink-0">
+                          {status.icon}
+                          <span>{status.label}</span>
+                        </div>
+                      </div>
+                      {status.progress !== undefined && status.progress > 0 && status.progress < 100 && (
+                        <div className="w-full h-1 bg-gray-200 rounded-full mt-2">
+                          <div className="h-full bg-yellow-500 rounded-full" style={{ width: `${status.progress}%` }} />
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          ) : null}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            {hasStarted ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            onClick={startGeneration}
+            disabled={!plan || plan.chaptersToGenerate === 0 || isQueueing || isRunning}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors"
+          >
+            {isQueueing ? 'Queueing...' : isRunning ? 'Generating...' : `Generate ${plan?.chaptersToGenerate || 0} Chapters`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
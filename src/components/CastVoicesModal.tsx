@@ -0,0 +1,250 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaPlus, FaTimes, FaTrash, FaUsers } from 'react-icons/fa';
+import type { TtsVoice } from '@/lib/audio/providers';
+
+interface CastVoicesModalProps {
+  bookId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface CastRow {
+  name: string;
+  // Comma-separated while editing
+  aliases: string;
+  voice: string;
+}
+
+export function CastVoicesModal({ bookId, isOpen, onClose }: CastVoicesModalProps) {
+  const [rows, setRows] = useState<CastRow[]>([]);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [castResponse, voicesResponse] = await Promise.all([
+          fetch(`/api/books/${bookId}/cast`),
+          fetch('/api/audio/voices')
+        ]);
+        const castData = await castResponse.json();
+        if (!castResponse.ok) throw new Error(castData.details || castData.error || 'Failed to load cast');
+
+        setRows(castData.cast.map((member: { name: string; aliases: string[]; voice: string }) => ({
+          name: member.name,
+          aliases: member.aliases.join(', '),
+          voice: member.voice
+        })));
+        setSuggestions(castData.suggestions || []);
+
+        if (voicesResponse.ok) {
+          const voicesData = await voicesResponse.json();
+          setVoices(voicesData.voices || []);
+        }
+      } catch (err) {
+        console.error('Error loading cast:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load cast');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [isOpen, bookId]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (index: number, changes: Partial<CastRow>) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = (name = '') => {
+    setRows(current => [...current, { name, aliases: '', voice: 'male' }]);
+    setSuggestions(current => current.filter(suggestion => suggestion !== name));
+  };
+
+  const removeRow = (index: number) => {
+    setRows(current => current.filter((_, i) => i !== index));
+  };
+
+  const saveCast = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/books/${bookId}/cast`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cast: rows
+            .filter(row => row.name.trim())
+            .map(row => ({
+              name: row.name.trim(),
+              aliases: row.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+              voice: row.voice
+            }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error || 'Failed to save cast');
+
+      onClose();
+    } catch (err) {
+      console.error('Error saving cast:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save cast');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-hidden">
+        {/* Modal Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <FaUsers className="text-purple-600" />
+            Character Voices
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <FaTimes className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="px-6 py-4 space-y-4 max-h-[calc(90vh-140px)] overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            Dialogue attributed to a character is read in their voice; narration stays in the book&apos;s voice.
+            Regenerate audio after changing the cast.
+          </p>
+
+          {loading ? (
+            <p className="text-center text-gray-500 py-6">Loading cast...</p>
+          ) : (
+            <>
+              {rows.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="pb-2 font-medium">Character</th>
+                      <th className="pb-2 font-medium">Also called</th>
+                      <th className="pb-2 font-medium">Voice</th>
+                      <th className="pb-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map((row, index) => (
+                      <tr key={index}>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="text"
+                            value={row.name}
+                            onChange={(e) => updateRow(index, { name: e.target.value })}
+                            placeholder="Name"
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="text"
+                            value={row.aliases}
+                            onChange={(e) => updateRow(index, { aliases: e.target.value })}
+                            placeholder="Liz, Miss Bennet"
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <select
+                            value={row.voice}
+                            onChange={(e) => updateRow(index, { voice: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          >
+                            <option value="male">Male</option>
+                            <option value="female">Female</option>
+                            {voices.map(voice => (
+                              <option key={voice.id} value={voice.id}>{voice.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => removeRow(index)}
+                            className="text-gray-400 hover:text-red-600 transition-colors"
+                            title="Remove character"
+                          >
+                            <FaTrash className="w-3 h-3" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-center text-gray-500 py-4">No characters yet - the whole book is read in one voice.</p>
+              )}
+
+              <button
+                onClick={() => addRow()}
+                className="text-sm text-purple-600 hover:text-purple-800 flex items-center gap-1"
+              >
+                <FaPlus className="w-3 h-3" />
+                Add character
+              </button>
+
+              {suggestions.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-2">Speakers found in your chapters:</p>
+                  <div className="flex flex-wrap gap-2">
+                    {suggestions.map(suggestion => (
+                      <button
+                        key={suggestion}
+                        onClick={() => addRow(suggestion)}
+                        className="px-2 py-1 text-xs bg-purple-50 hover:bg-purple-100 text-purple-700 rounded-full transition-colors"
+                      >
+                        + {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={saveCast}
+            disabled={loading || saving}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save Cast'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FaCheck, FaMagic, FaRedo, FaSpinner, FaStop, FaTimes } from 'react-icons/fa';
+import { readServerSentEvents } from '@/lib/sse';
+import { selectRelevantEntries, type StoryBibleEntry } from '@/lib/ai/storyBible';
+import { MAX_CHAPTER_AUDIO_CHARACTERS } from '@/lib/audio/narrationSettings';
+
+interface DraftBook {
+  title: string;
+  description?: string;
+  book_type?: 'fiction' | 'non-fiction';
+  genre?: string;
+  target_audience?: string[];
+  reading_level?: string;
+  total_chapters?: number;
+}
+
+interface DraftChapter {
+  id: string;
+  title: string;
+  content: string;
+  summary?: string;
+  chapter_number: number;
+}
+
+interface ChapterDraftPanelProps {
+  book: DraftBook;
+  chapter: DraftChapter;
+  outline: string;
+  // Chapters before this one; any without a summary are summarized first
+  previousChapters: DraftChapter[];
+  storyBible: StoryBibleEntry[];
+  existingContent: string;
+  onSummaryGenerated: (chapterId: string, summary: string) => void;
+  onAccept: (draft: string, placement: 'replace' | 'append') => void;
+  onClose: () => void;
+}
+
+type DraftPhase = 'idle' | 'summarizing' | 'drafting' | 'done' | 'stopped' | 'error';
+
+const LENGTH_OPTIONS = [2000, 3000, 4000];
+
+// Chapters shorter than this are skipped by /api/ai/generate-summary
+const MIN_SUMMARY_CONTENT = 100;
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Drafts a whole chapter from its outline with /api/ai/write-chapter. The
+ * draft streams into a review area and only reaches the editor when the
+ * author accepts it.
+ */
+export function ChapterDraftPanel({
+  book,
+  chapter,
+  outline,
+  previousChapters,
+  storyBible,
+  existingContent,
+  onSummaryGenerated,
+  onAccept,
+  onClose
+}: ChapterDraftPanelProps) {
+  const [phase, setPhase] = useState<DraftPhase>('idle');
+  const [targetWords, setTargetWords] = useState(3000);
+  const [draft, setDraft] = useState('');
+  const [status, setStatus] = useState('');
+  const [truncated, setTruncated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const draftEndRef = useRef<HTMLDivElement>(null);
+
+  // Stop any stream still running when the panel closes
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (phase === 'drafting') {
+      draftEndRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [draft, phase]);
+
+  const summarizeMissingChapters = async (signal: AbortSignal) => {
+    const summaries = new Map<string, string>();
+    const missing = previousChapters.filter(ch => !ch.summary?.trim() && (ch.content || '').trim().length >= MIN_SUMMARY_CONTENT);
+
+    for (const previous of missing) {
+      setStatus(`Summarizing Chapter ${previous.chapter_number}...`);
+      try {
+        const response = await fetch('/api/ai/generate-summary', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            bookTitle: book.title,
+            bookGenre: book.genre,
+            bookType: book.book_type,
+            chapterTitle: previous.title,
+            chapterOrder: previous.chapter_number,
+            chapterContent: previous.content,
+            targetAudience: book.target_audience
+          }),
+          signal
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to generate summary');
+
+        summaries.set(previous.id, data.summary);
+        onSummaryGenerated(previous.id, data.summary);
+      } catch (err) {
+        if (signal.aborted) throw err;
+        // The draft is still written, just with less context for this chapter
+        console.warn(`⚠️ Could not summarize Chapter ${previous.chapter_number}:`, err);
+      }
+    }
+
+    return summaries;
+  };
+
+  const startDraft = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setDraft('');
+    setTruncated(false);
+    setError(null);
+
+    let partialDraft = '';
+
+    try {
+      setPhase('summarizing');
+      const generated = await summarizeMissingChapters(controller.signal);
+
+      setPhase('drafting');
+      setStatus('Writing...');
+
+      const response = await fetch('/api/ai/write-chapter', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream'
+        },
+        body: JSON.stringify({
+          bookTitle: book.title,
+          bookDescription: book.description,
+          bookType: book.book_type,
+          genre: book.genre,
+          targetAudience: book.target_audience,
+          readingLevel: book.reading_level,
+          totalChapters: book.total_chapters,
+          chapterTitle: chapter.title,
+          chapterNumber: chapter.chapter_number,
+          chapterOutline: outline,
+          previousChapters: previousChapters.map(previous => ({
+            chapterNumber: previous.chapter_number,
+            title: previous.title,
+            summary: generated.get(previous.id) || previous.summary || ''
+          })),
+          storyBible: selectRelevantEntries(storyBible, { chapterText: outline, chapterNumber: chapter.chapter_number }),
+          targetWords
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Drafting failed: ${response.statusText}`);
+      }
+
+      let finished = false;
+      await readServerSentEvents(response, ({ event, data }) => {
+        const payload = data as { text?: string; draft?: string; truncated?: boolean; error?: string; details?: string };
+        if (event === 'token' && payload.text) {
+          partialDraft += payload.text;
+          setDraft(partialDraft);
+        } else if (event === 'done') {
+          finished = true;
+          setDraft(payload.draft ?? partialDraft.trim());
+          setTruncated(payload.truncated === true);
+        } else if (event === 'error') {
+          throw new Error(payload.details ? `${payload.error}: ${payload.details}` : payload.error || 'Drafting failed');
+        }
+      });
+
+      setPhase(finished ? 'done' : 'stopped');
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setPhase(partialDraft ? 'stopped' : 'idle');
+        return;
+      }
+      console.error('Error drafting chapter:', err);
+      setError(err instanceof Error ? err.message : 'Drafting failed');
+      setPhase(partialDraft ? 'stopped' : 'error');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      setStatus('');
+    }
+  };
+
+  const isRunning = phase === 'summarizing' || phase === 'drafting';
+  const canAccept = (phase === 'done' || phase === 'stopped') && draft.trim().length > 0;
+  const wordCount = countWords(draft);
+
+  return (
+    <div className="flex-1 flex flex-col p-4 overflow-hidden">
+      <div className="flex-1 flex flex-col bg-white border border-purple-200 rounded-lg shadow-sm overflow-hidden">
+        {/* Panel Header */}
+        <div className="px-4 py-3 border-b border-purple-100 bg-purple-50 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <FaMagic className="text-purple-600" />
+            <h3 className="font-semibold text-gray-900">
+              AI Draft: Chapter {chapter.chapter_number}{chapter.title ? ` - ${chapter.title}` : ''}
+            </h3>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-gray-600">
+            {isRunning && (
+              <span className="flex items-center gap-2 text-purple-700">
+                <FaSpinner className="animate-spin" size={12} />
+                {status}
+              </span>
+            )}
+            {draft && <span>~{wordCount.toLocaleString()} words</span>}
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Discard draft"
+            >
+              <FaTimes className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Panel Content */}
+        {phase === 'idle' || phase === 'error' ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              The AI writes a complete draft of this chapter from its outline, keeping it consistent with
+              the summaries of the chapters before it. You can review and edit the draft before anything
+              is added to the chapter.
+            </p>
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-700 max-h-48 overflow-y-auto whitespace-pre-wrap">
+              {outline}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Length</label>
+              <select
+                value={targetWords}
+                onChange={(e) => setTargetWords(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {LENGTH_OPTIONS.map(words => (
+                  <option key={words} value={words}>About {words.toLocaleString()} words</option>
+                ))}
+              </select>
+            </div>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+          </div>
+        ) : isRunning ? (
+          <div className="flex-1 overflow-y-auto p-4">
+            <div className="whitespace-pre-wrap leading-relaxed text-gray-900">
+              {draft}
+              {phase === 'drafting' && <span className="inline-block w-2 h-4 bg-purple-400 animate-pulse align-middle ml-0.5" />}
+            </div>
+            <div ref={draftEndRef} />
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col p-4 gap-3 overflow-hidden">
+            {(phase === 'stopped' || truncated || error) && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800 flex-shrink-0">
+                {error
+                  ? `Drafting stopped with an error: ${error}. The partial draft is below.`
+                  : truncated
+                  ? 'The draft reached the length limit before the chapter ended. Review the ending before accepting.'
+                  : 'Drafting was stopped. The partial draft is below.'}
+              </div>
+            )}
+            {draft.length > MAX_CHAPTER_AUDIO_CHARACTERS && (
+              <p className="text-xs text-gray-500 flex-shrink-0">
+                This draft is {draft.length.toLocaleString()} characters, over the {MAX_CHAPTER_AUDIO_CHARACTERS.toLocaleString()} character
+                limit for chapter audio. Trim it or split it across chapters before generating audio.
+              </p>
+            )}
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="flex-1 w-full p-4 text-gray-900 rounded border border-gray-300 leading-relaxed focus:outline-none focus:border-purple-500 focus:ring-2 focus:ring-purple-200 resize-none"
+            />
+          </div>
+        )}
+
+        {/* Panel Footer */}
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-3 flex-shrink-0">
+          {isRunning ? (
+            <button
+              onClick={() => controllerRef.current?.abort()}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors flex items-center gap-2"
+            >
+              <FaStop size={12} />
+              Stop
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+              >
+                Discard
+              </button>
+              {phase === 'idle' || phase === 'error' ? (
+                <button
+                  onClick={startDraft}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors flex items-center gap-2"
+                >
+                  <FaMagic size={12} />
+                  Write Draft
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={startDraft}
+                    className="px-4 py-2 text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-md transition-colors flex items-center gap-2"
+                  >
+                    <FaRedo size={12} />
+                    Rewrite
+                  </button>
+                  {existingContent.trim() && (
+                    <button
+                      onClick={() => onAccept(draft.trim(), 'append')}
+                      disabled={!canAccept}
+                      className="px-4 py-2 text-purple-700 border border-purple-300 hover:bg-purple-50 disabled:text-gray-400 disabled:border-gray-200 rounded-md transition-colors"
+                    >
+                      Append to Chapter
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onAccept(draft.trim(), 'replace')}
+                    disabled={!canAccept}
+                    className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors flex items-center gap-2"
+                  >
+                    <FaCheck size={12} />
+                    {existingContent.trim() ? 'Replace Chapter' : 'Use Draft'}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
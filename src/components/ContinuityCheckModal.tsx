@@ -0,0 +1,305 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FaExclamationCircle, FaExclamationTriangle, FaSearch, FaSpinner, FaTimes } from 'react-icons/fa';
+import {
+  CONTINUITY_FULL_TEXT_LIMIT,
+  CONTINUITY_ISSUE_TYPES,
+  type ContinuityIssueType,
+  type ContinuityLocation,
+  type ContinuityReport
+} from '@/lib/ai/continuity';
+import type { StoryBibleEntry } from '@/lib/ai/storyBible';
+
+interface ContinuityBook {
+  title: string;
+  book_type?: 'fiction' | 'non-fiction';
+  genre?: string;
+  target_audience?: string[];
+}
+
+interface ContinuityChapter {
+  id: string;
+  title: string;
+  content: string;
+  summary?: string;
+  chapter_number: number;
+}
+
+interface ContinuityCheckModalProps {
+  book: ContinuityBook;
+  // All chapters of the book, in chapter order
+  chapters: ContinuityChapter[];
+  storyBible: StoryBibleEntry[];
+  // The previous report, shown until the check is run again
+  report: ContinuityReport | null;
+  onReport: (report: ContinuityReport) => void;
+  onSummaryGenerated: (chapterId: string, summary: string) => void;
+  onShowPassage: (chapterId: string, quote: string) => void;
+  onClose: () => void;
+}
+
+// Chapters shorter than this are skipped by /api/ai/generate-summary
+const MIN_SUMMARY_CONTENT = 100;
+
+// Characters sent in place of a summary that could not be generated
+const SUMMARY_FALLBACK_LENGTH = 1500;
+
+/**
+ * Runs the whole-book continuity check and lists its findings. Each place a
+ * finding involves links to the chapter and passage in the editor. Books too
+ * long to send whole are checked from their chapter summaries, generating
+ * any that are missing first. Render it only while open.
+ */
+export function ContinuityCheckModal({
+  book,
+  chapters,
+  storyBible,
+  report,
+  onReport,
+  onSummaryGenerated,
+  onShowPassage,
+  onClose
+}: ContinuityCheckModalProps) {
+  const [checking, setChecking] = useState(false);
+  const [status, setStatus] = useState('');
+  const [filter, setFilter] = useState<ContinuityIssueType | 'all'>('all');
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop a check still running when the modal closes
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const written = chapters.filter(chapter => (chapter.content || '').trim());
+  const totalLength = written.reduce((sum, chapter) => sum + chapter.content.length, 0);
+  const useSummaries = totalLength > CONTINUITY_FULL_TEXT_LIMIT;
+
+  const summarize = async (chapter: ContinuityChapter, signal: AbortSignal): Promise<string> => {
+    setStatus(`Summarizing Chapter ${chapter.chapter_number}...`);
+    const response = await fetch('/api/ai/generate-summary', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        bookTitle: book.title,
+        bookGenre: book.genre,
+        bookType: book.book_type,
+        chapterTitle: chapter.title,
+        chapterOrder: chapter.chapter_number,
+        chapterContent: chapter.content,
+        targetAudience: book.target_audience
+      }),
+      signal
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to generate summary');
+
+    onSummaryGenerated(chapter.id, data.summary);
+    return data.summary;
+  };
+
+  const runCheck = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setChecking(true);
+    setError(null);
+
+    try {
+      const texts: { chapterNumber: number; title: string; text: string }[] = [];
+      for (const chapter of written) {
+        let text = chapter.content;
+        if (useSummaries && chapter.summary?.trim()) {
+          text = chapter.summary;
+        } else if (useSummaries && chapter.content.trim().length >= MIN_SUMMARY_CONTENT) {
+          try {
+            text = await summarize(chapter, controller.signal);
+          } catch (err) {
+            if (controller.signal.aborted) throw err;
+            // The check still runs, with the opening of this chapter instead
+            console.warn(`⚠️ Could not summarize Chapter ${chapter.chapter_number}:`, err);
+            text = chapter.content.slice(0, SUMMARY_FALLBACK_LENGTH);
+          }
+        }
+        texts.push({ chapterNumber: chapter.chapter_number, title: chapter.title, text });
+      }
+
+      setStatus(`Reading ${texts.length} chapters...`);
+      const response = await fetch('/api/ai/continuity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bookTitle: book.title,
+          bookType: book.book_type,
+          genre: book.genre,
+          basis: useSummaries ? 'summaries' : 'text',
+          chapters: texts,
+          storyBible
+        }),
+        signal: controller.signal
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error || 'Continuity check failed');
+
+      onReport({ findings: data.findings, basis: data.basis, checkedAt: new Date().toISOString() });
+      setFilter('all');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error checking continuity:', err);
+      setError(err instanceof Error ? err.message : 'Continuity check failed');
+    } finally {
+      if (controllerRef.current === controller) {
+        setChecking(false);
+        setStatus('');
+      }
+    }
+  };
+
+  const showLocation = (location: ContinuityLocation) => {
+    const chapter = chapters.find(ch => ch.chapter_number === location.chapterNumber);
+    if (chapter) onShowPassage(chapter.id, location.quote);
+  };
+
+  const findings = report?.findings || [];
+  const visibleFindings = filter === 'all' ? findings : findings.filter(finding => finding.type === filter);
+  const chapterTitle = (chapterNumber: number) => chapters.find(ch => ch.chapter_number === chapterNumber)?.title;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Continuity Check</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Finds characters that change, timeline conflicts, dropped plot threads and repeated content across all
+              chapters.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <FaTimes size={20} />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          {useSummaries && (
+            <p className="text-xs text-gray-500">
+              This book is too long to check in full, so it is checked from chapter summaries. Missing summaries are
+              generated first, and some findings may not point to an exact passage.
+            </p>
+          )}
+
+          {checking && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <FaSpinner className="animate-spin text-purple-600" />
+              {status}
+            </div>
+          )}
+
+          {report && !checking && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setFilter('all')}
+                  className={`px-3 py-1 text-xs rounded-full transition-colors ${filter === 'all' ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  All ({findings.length})
+                </button>
+                {(Object.keys(CONTINUITY_ISSUE_TYPES) as ContinuityIssueType[]).map(type => {
+                  const count = findings.filter(finding => finding.type === type).length;
+                  if (count === 0) return null;
+                  return (
+                    <button
+                      key={type}
+                      onClick={() => setFilter(type)}
+                      title={CONTINUITY_ISSUE_TYPES[type].description}
+                      className={`px-3 py-1 text-xs rounded-full transition-colors ${filter === type ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    >
+                      {CONTINUITY_ISSUE_TYPES[type].label} ({count})
+                    </button>
+                  );
+                })}
+              </div>
+
+              {findings.length === 0 ? (
+                <p className="text-center text-gray-500 py-6">No continuity problems found.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {visibleFindings.map((finding, index) => (
+                    <li key={index} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start gap-2">
+                        {finding.severity === 'error'
+                          ? <FaExclamationCircle className="text-red-500 mt-0.5 flex-shrink-0" />
+                          : <FaExclamationTriangle className="text-yellow-500 mt-0.5 flex-shrink-0" />}
+                        <div className="min-w-0 flex-1">
+                          <h4 className="font-semibold text-gray-900 text-sm">{finding.title}</h4>
+                          {finding.explanation && (
+                            <p className="text-sm text-gray-600 mt-1">{finding.explanation}</p>
+                          )}
+                          <div className="mt-2 space-y-1">
+                            {finding.locations.map((location, locationIndex) => (
+                              <button
+                                key={locationIndex}
+                                onClick={() => showLocation(location)}
+                                className="block w-full text-left text-xs px-2 py-1 rounded bg-purple-50 hover:bg-purple-100 transition-colors"
+                                title="Show in editor"
+                              >
+                                <span className="font-medium text-purple-700">
+                                  Chapter {location.chapterNumber}
+                                  {chapterTitle(location.chapterNumber) ? `: ${chapterTitle(location.chapterNumber)}` : ''}
+                                </span>
+                                {location.quote && (
+                                  <span className="block text-gray-600 italic truncate">&ldquo;{location.quote}&rdquo;</span>
+                                )}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <p className="text-xs text-gray-400">
+                Checked {new Date(report.checkedAt).toLocaleString()} from {report.basis === 'summaries' ? 'chapter summaries' : 'the full text'}.
+              </p>
+            </>
+          )}
+
+          {!report && !checking && written.length < 2 && (
+            <p className="text-center text-gray-500 py-6">Write at least two chapters to check continuity.</p>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={runCheck}
+            disabled={checking || written.length < 2}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors flex items-center gap-2"
+          >
+            <FaSearch size={12} />
+            {checking ? 'Checking...' : report ? 'Check Again' : 'Check Continuity'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { IconType } from 'react-icons';
+import {
+  FaCheck,
+  FaComments,
+  FaCompressAlt,
+  FaExpandAlt,
+  FaMagic,
+  FaRedo,
+  FaSpinner,
+  FaTimes,
+  FaVolumeUp
+} from 'react-icons/fa';
+import { useAI, AIEditAction, BookContext } from '@/context/AIContext';
+import { applyDiff, diffWords, DiffChange } from '@/utils/textDiff';
+
+export const INLINE_EDIT_ACTIONS: { action: AIEditAction; label: string; icon: IconType }[] = [
+  { action: 'rewrite', label: 'Rewrite', icon: FaMagic },
+  { action: 'shorten', label: 'Shorten', icon: FaCompressAlt },
+  { action: 'expand', label: 'Expand', icon: FaExpandAlt },
+  { action: 'conversational', label: 'More Conversational', icon: FaComments },
+  { action: 'audio', label: 'Fix for Audio', icon: FaVolumeUp }
+];
+
+type ChangeDecision = 'accepted' | 'rejected';
+
+interface InlineEditPanelProps {
+  content: string;
+  // Selected range in content
+  start: number;
+  end: number;
+  action: AIEditAction;
+  context?: BookContext;
+  onApply: (newContent: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Shows an AI revision of the selected passage as tracked changes within the
+ * chapter. Each change can be accepted or rejected; applying keeps the
+ * original wording for anything not accepted.
+ */
+export function InlineEditPanel({ content, start, end, action, context, onApply, onClose }: InlineEditPanelProps) {
+  const { suggestEdit } = useAI();
+  const [revised, setRevised] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [decisions, setDecisions] = useState<Record<number, ChangeDecision>>({});
+  const diffRef = useRef<HTMLSpanElement>(null);
+  const requestRef = useRef(0);
+  // Read at request time so a rebuilt context object does not trigger a new request
+  const contextRef = useRef(context);
+
+  useEffect(() => {
+    contextRef.current = context;
+  }, [context]);
+
+  const original = content.slice(start, end);
+  const actionLabel = INLINE_EDIT_ACTIONS.find(option => option.action === action)?.label || 'Edit';
+
+  const requestSuggestion = useCallback(async () => {
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    setRevised(null);
+    setDecisions({});
+
+    try {
+      const suggestion = await suggestEdit(original.trim(), action, contextRef.current);
+      if (requestId !== requestRef.current) return;
+
+      // Keep the selection's surrounding whitespace so paragraphs stay separated
+      const leading = original.match(/^\s*/)?.[0] || '';
+      const trailing = original.match(/\s*$/)?.[0] || '';
+      setRevised(leading + suggestion + trailing);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      console.error('Error getting AI edit suggestion:', err);
+      setError(err instanceof Error ? err.message : 'Failed to get a suggestion');
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  }, [suggestEdit, original, action]);
+
+  useEffect(() => {
+    requestSuggestion();
+  }, [requestSuggestion]);
+
+  const segments = useMemo(() => (revised === null ? [] : diffWords(original, revised)), [original, revised]);
+  const changes = segments.filter((segment): segment is DiffChange => segment.type === 'change');
+  const acceptedCount = changes.filter(change => decisions[change.id] === 'accepted').length;
+  const pendingCount = changes.filter(change => !decisions[change.id]).length;
+
+  useEffect(() => {
+    if (revised !== null) {
+      diffRef.current?.scrollIntoView({ block: 'center' });
+    }
+  }, [revised]);
+
+  const decide = (id: number, decision: ChangeDecision) => {
+    setDecisions(prev => ({ ...prev, [id]: decision }));
+  };
+
+  const decideAll = (decision: ChangeDecision) => {
+    setDecisions(Object.fromEntries(changes.map(change => [change.id, decision])));
+  };
+
+  const apply = () => {
+    const accepted = new Set(changes.filter(change => decisions[change.id] === 'accepted').map(change => change.id));
+    onApply(content.slice(0, start) + applyDiff(segments, accepted) + content.slice(end));
+  };
+
+  const renderChange = (change: DiffChange) => {
+    const decision = decisions[change.id];
+
+    if (decision === 'accepted') {
+      return (
+        <span key={change.id} className="bg-green-50 text-green-900 rounded-sm cursor-pointer" onClick={() => decide(change.id, 'rejected')} title="Accepted - click to reject">
+          {change.added}
+        </span>
+      );
+    }
+    if (decision === 'rejected') {
+      return (
+        <span key={change.id} className="bg-gray-100 rounded-sm cursor-pointer" onClick={() => decide(change.id, 'accepted')} title="Rejected - click to accept">
+          {change.removed}
+        </span>
+      );
+    }
+
+    return (
+      <span key={change.id} className="rounded-sm ring-1 ring-purple-200">
+        {change.removed && <del className="bg-red-50 text-red-700">{change.removed}</del>}
+        {change.added && <ins className="bg-green-50 text-green-800 no-underline">{change.added}</ins>}
+        <span className="inline-flex align-middle ml-0.5 gap-0.5 select-none">
+          <button
+            onClick={() => decide(change.id, 'accepted')}
+            className="p-0.5 text-green-600 hover:bg-green-100 rounded"
+            title="Accept change"
+          >
+            <FaCheck size={10} />
+          </button>
+          <button
+            onClick={() => decide(change.id, 'rejected')}
+            className="p-0.5 text-red-600 hover:bg-red-100 rounded"
+            title="Reject change"
+          >
+            <FaTimes size={10} />
+          </button>
+        </span>
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex-1 mb-4 flex flex-col bg-white border border-purple-200 rounded overflow-hidden">
+      {/* Panel Header */}
+      <div className="px-4 py-2 border-b border-purple-100 bg-purple-50 flex items-center justify-between flex-shrink-0 text-sm">
+        <span className="font-medium text-gray-900 flex items-center gap-2">
+          <FaMagic className="text-purple-600" />
+          AI Suggestion: {actionLabel}
+        </span>
+        {revised !== null && (
+          <span className="text-gray-600">
+            {changes.length === 0
+              ? 'No changes suggested'
+              : `${changes.length} change${changes.length === 1 ? '' : 's'}, ${pendingCount} to review`}
+          </span>
+        )}
+      </div>
+
+      {/* Chapter with the suggestion shown in place */}
+      <div className="flex-1 overflow-y-auto p-4 leading-relaxed text-base whitespace-pre-wrap">
+        <span className="text-gray-400">{content.slice(0, start)}</span>
+        <span ref={diffRef}>
+          {loading ? (
+            <span className="bg-purple-50 text-gray-700">
+              {original}
+              <FaSpinner className="inline animate-spin text-purple-600 ml-1" size={12} />
+            </span>
+          ) : revised === null ? (
+            <span className="bg-purple-50 text-gray-700">{original}</span>
+          ) : (
+            segments.map((segment, index) =>
+              segment.type === 'equal'
+                ? <span key={`equal-${index}`} className="text-gray-900">{segment.text}</span>
+                : renderChange(segment)
+            )
+          )}
+        </span>
+        <span className="text-gray-400">{content.slice(end)}</span>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex-shrink-0">
+          {error}
+        </div>
+      )}
+
+      {/* Panel Footer */}
+      <div className="px-4 py-2 border-t border-gray-200 flex items-center justify-between gap-2 flex-shrink-0">
+        <div className="flex gap-2">
+          <button
+            onClick={() => decideAll('accepted')}
+            disabled={changes.length === 0}
+            className="px-3 py-1.5 text-sm text-green-700 bg-green-50 hover:bg-green-100 disabled:text-gray-400 disabled:bg-gray-50 rounded-md transition-colors"
+          >
+            Accept All
+          </button>
+          <button
+            onClick={() => decideAll('rejected')}
+            disabled={changes.length === 0}
+            className="px-3 py-1.5 text-sm text-red-700 bg-red-50 hover:bg-red-100 disabled:text-gray-400 disabled:bg-gray-50 rounded-md transition-colors"
+          >
+            Reject All
+          </button>
+          <button
+            onClick={requestSuggestion}
+            disabled={loading}
+            className="px-3 py-1.5 text-sm text-purple-700 bg-purple-50 hover:bg-purple-100 disabled:text-gray-400 rounded-md transition-colors flex items-center gap-1"
+          >
+            <FaRedo size={10} />
+            Try Again
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            disabled={loading || acceptedCount === 0}
+            className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors"
+            title={pendingCount > 0 ? 'Changes you have not reviewed keep the original wording' : undefined}
+          >
+            Apply {acceptedCount > 0 ? `${acceptedCount} Change${acceptedCount === 1 ? '' : 's'}` : 'Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
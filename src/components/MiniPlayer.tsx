@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import {
+  FaPlay,
+  FaPause,
+  FaStepForward,
+  FaStepBackward,
+  FaList,
+  FaTimes,
+  FaBook,
+  FaMoon
+} from 'react-icons/fa';
+import { useAudioPlayer } from '@/context/AudioPlayerContext';
+
+const formatTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Player docked to the bottom of every page while something is playing,
+ * with the play queue behind the list button.
+ */
+export function MiniPlayer() {
+  const {
+    queue,
+    currentIndex,
+    currentTrack,
+    isPlaying,
+    currentTime,
+    duration,
+    sleepTimer,
+    sleepTimerRemaining,
+    togglePlay,
+    seek,
+    next,
+    previous,
+    playIndex,
+    removeFromQueue,
+    stop
+  } = useAudioPlayer();
+  const [showQueue, setShowQueue] = useState(false);
+
+  if (!currentTrack) return null;
+
+  const upNext = queue.slice(currentIndex + 1);
+
+  return (
+    <>
+      {/* Spacer to prevent content from being hidden under the docked player */}
+      <div className="h-20" />
+
+      <div className="fixed bottom-0 left-0 right-0 z-40 bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700 shadow-lg">
+        {/* Queue */}
+        {showQueue && (
+          <div className="absolute bottom-full right-0 w-full sm:w-96 sm:right-4 mb-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl max-h-80 overflow-y-auto">
+            <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+              <h4 className="font-semibold text-sm">Up Next</h4>
+              <button
+                onClick={() => setShowQueue(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <FaTimes className="w-4 h-4" />
+              </button>
+            </div>
+            {upNext.length === 0 ? (
+              <p className="p-4 text-sm text-center text-gray-500">Nothing else queued</p>
+            ) : (
+              upNext.map((track, offset) => {
+                const index = currentIndex + 1 + offset;
+                return (
+                  <div
+                    key={`${track.chapterId}-${index}`}
+                    className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <button
+                      onClick={() => playIndex(index)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-sm font-medium truncate">
+                        Chapter {track.chapterNumber}: {track.title}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {track.bookTitle}
+                        {track.durationSeconds > 0 && ` • ${formatTime(track.durationSeconds)}`}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => removeFromQueue(index)}
+                      className="p-1 text-gray-400 hover:text-gray-600 flex-shrink-0"
+                      title="Remove from queue"
+                    >
+                      <FaTimes className="w-3 h-3" />
+                    </button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        {/* Progress Bar */}
+        <div
+          className="w-full h-1 bg-gray-200 dark:bg-gray-700 cursor-pointer"
+          onClick={(e) => {
+            if (!duration) return;
+            const rect = e.currentTarget.getBoundingClientRect();
+            seek(((e.clientX - rect.left) / rect.width) * duration);
+          }}
+        >
+          <div
+            className="h-full bg-blue-600"
+            style={{ width: `${duration ? Math.min(100, (currentTime / duration) * 100) : 0}%` }}
+          />
+        </div>
+
+        <div className="flex items-center gap-3 px-4 h-[4.75rem] max-w-6xl mx-auto">
+          {/* Now Playing */}
+          <div className="w-12 h-12 rounded-md flex-shrink-0 overflow-hidden bg-gradient-to-br from-indigo-500 to-purple-500 flex items-center justify-center">
+            {currentTrack.coverUrl ? (
+              <Image
+                src={currentTrack.coverUrl}
+                alt={currentTrack.bookTitle}
+                width={48}
+                height={48}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <FaBook className="text-white" />
+            )}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-semibold truncate">
+              Chapter {currentTrack.chapterNumber}: {currentTrack.title}
+            </p>
+            <p className="text-xs text-gray-500 truncate">
+              {currentTrack.bookTitle} • {formatTime(currentTime)} / {formatTime(duration)}
+              {sleepTimer && (
+                <span className="text-indigo-600" title="Sleep timer">
+                  {' • '}<FaMoon className="inline w-3 h-3 mb-0.5" />{' '}
+                  {sleepTimer.endsAt !== null ? formatTime(sleepTimerRemaining || 0) : 'End of chapter'}
+                </span>
+              )}
+            </p>
+          </div>
+
+          {/* Playback Controls */}
+          <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+            <button
+              onClick={previous}
+              className="hidden sm:block p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white rounded-full transition-colors"
+              title="Previous chapter"
+            >
+              <FaStepBackward className="w-4 h-4" />
+            </button>
+            <button
+              onClick={togglePlay}
+              className="p-3 bg-blue-600 hover:bg-blue-700 text-white rounded-full shadow"
+              title={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isPlaying ? <FaPause className="w-4 h-4" /> : <FaPlay className="w-4 h-4 ml-0.5" />}
+            </button>
+            <button
+              onClick={next}
+              disabled={upNext.length === 0}
+              className="p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:text-gray-300 dark:disabled:text-gray-600 rounded-full transition-colors"
+              title="Next chapter"
+            >
+              <FaStepForward className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowQueue(!showQueue)}
+              className={`p-2 rounded-full transition-colors ${showQueue ? 'text-blue-600' : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'}`}
+              title="Queue"
+            >
+              <FaList className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => {
+                setShowQueue(false);
+                stop();
+              }}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-full transition-colors"
+              title="Stop and close player"
+            >
+              <FaTimes className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -19,7 +19,8 @@ import {
   FaBook,
   FaHeart,
   FaBookmark,
-  FaSearch
+  FaSearch,
+  FaDownload
 } from 'react-icons/fa';
 
 interface ModernSideNavProps {
@@ -158,6 +159,12 @@ export function ModernSideNav({
       icon: FaHeart,
       requireAuth: true
     },
+    {
+      id: 'downloads',
+      label: 'Downloads',
+      href: '/downloads',
+      icon: FaDownload
+    },
     {
       id: 'divider-2',
       label: '',
@@ -0,0 +1,346 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaPlus, FaSlidersH, FaTimes, FaTrash } from 'react-icons/fa';
+import {
+  DEFAULT_NARRATION_SETTINGS,
+  NARRATION_LANGUAGES,
+  PAUSE_RANGE_MS,
+  PITCH_RANGE,
+  SPEAKING_RATE_RANGE
+} from '@/lib/audio/narrationSettings';
+import type { NarrationSettings, PronunciationEntry } from '@/types/database';
+
+interface NarrationSettingsModalProps {
+  bookId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: (voicePreference: 'male' | 'female') => void;
+}
+
+export function NarrationSettingsModal({ bookId, isOpen, onClose, onSaved }: NarrationSettingsModalProps) {
+  const [voicePreference, setVoicePreference] = useState<'male' | 'female'>('female');
+  const [settings, setSettings] = useState<NarrationSettings>(DEFAULT_NARRATION_SETTINGS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/books/${bookId}/voice-preference`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load narration settings');
+
+        setVoicePreference(data.voicePreference || 'female');
+        setSettings(data.narrationSettings);
+      } catch (err) {
+        console.error('Error loading narration settings:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load narration settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [isOpen, bookId]);
+
+  if (!isOpen) return null;
+
+  const updatePronunciation = (index: number, changes: Partial<PronunciationEntry>) => {
+    setSettings(current => ({
+      ...current,
+      pronunciations: current.pronunciations.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    }));
+  };
+
+  const addPronunciation = () => {
+    setSettings(current => ({
+      ...current,
+      pronunciations: [...current.pronunciations, { term: '', spoken: '' }]
+    }));
+  };
+
+  const removePronunciation = (index: number) => {
+    setSettings(current => ({
+      ...current,
+      pronunciations: current.pronunciations.filter((_, i) => i !== index)
+    }));
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/books/${bookId}/voice-preference`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          voicePreference,
+          narrationSettings: {
+            ...settings,
+            // Rows left completely empty are dropped rather than rejected
+            pronunciations: settings.pronunciations.filter(entry => entry.term.trim() || entry.spoken?.trim() || entry.ipa?.trim())
+          }
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save narration settings');
+
+      onSaved?.(voicePreference);
+      onClose();
+    } catch (err) {
+      console.error('Error saving narration settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save narration settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-hidden">
+        {/* Modal Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <FaSlidersH className="text-purple-600" />
+            Narration Settings
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <FaTimes className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="px-6 py-4 space-y-5 max-h-[calc(90vh-140px)] overflow-y-auto">
+          {loading ? (
+            <p className="text-center text-gray-500 py-6">Loading settings...</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                These settings apply to every chapter. Regenerate audio after changing them.
+              </p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Voice</label>
+                  <select
+                    value={voicePreference}
+                    onChange={(e) => setVoicePreference(e.target.value as 'male' | 'female')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="female">Female</option>
+                    <option value="male">Male</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+                  <select
+                    value={settings.languageCode}
+                    onChange={(e) => setSettings(current => ({ ...current, languageCode: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {NARRATION_LANGUAGES.map(language => (
+                      <option key={language.code} value={language.code}>{language.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="flex justify-between text-sm font-medium text-gray-700 mb-1">
+                  <span>Speaking rate</span>
+                  <span className="text-gray-500">{settings.speakingRate.toFixed(2)}x</span>
+                </label>
+                <input
+                  type="range"
+                  min={0.5}
+                  max={Math.min(2, SPEAKING_RATE_RANGE.max)}
+                  step={0.05}
+                  value={settings.speakingRate}
+                  onChange={(e) => setSettings(current => ({ ...current, speakingRate: Number(e.target.value) }))}
+                  className="w-full accent-purple-600"
+                />
+              </div>
+
+              <div>
+                <label className="flex justify-between text-sm font-medium text-gray-700 mb-1">
+                  <span>Pitch</span>
+                  <span className="text-gray-500">
+                    {settings.pitch > 0 ? '+' : ''}{settings.pitch} semitones
+                  </span>
+                </label>
+                <input
+                  type="range"
+                  min={Math.max(-10, PITCH_RANGE.min)}
+                  max={Math.min(10, PITCH_RANGE.max)}
+                  step={0.5}
+                  value={settings.pitch}
+                  onChange={(e) => setSettings(current => ({ ...current, pitch: Number(e.target.value) }))}
+                  className="w-full accent-purple-600"
+                />
+              </div>
+
+              {/* Pauses */}
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Pauses</h4>
+                <div className="grid grid-cols-3 gap-3">
+                  {([
+                    ['paragraphPauseMs', 'Between paragraphs'],
+                    ['scenePauseMs', 'At scene breaks'],
+                    ['chunkPauseMs', 'Between voices']
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <label className="block text-xs text-gray-500 mb-1">{label} (ms)</label>
+                      <input
+                        type="number"
+                        min={PAUSE_RANGE_MS.min}
+                        max={PAUSE_RANGE_MS.max}
+                        step={50}
+                        value={settings[field]}
+                        onChange={(e) => setSettings(current => ({ ...current, [field]: Number(e.target.value) }))}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Intro and outro */}
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.chapterIntro}
+                    onChange={(e) => setSettings(current => ({ ...current, chapterIntro: e.target.checked }))}
+                    className="accent-purple-600"
+                  />
+                  Announce &quot;Chapter N: Title&quot; at the start of each chapter
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.channelOutro}
+                    onChange={(e) => setSettings(current => ({ ...current, channelOutro: e.target.checked }))}
+                    className="accent-purple-600"
+                  />
+                  End each chapter with a channel outro
+                </label>
+                {settings.channelOutro && (
+                  <input
+                    type="text"
+                    value={settings.outroText || ''}
+                    onChange={(e) => setSettings(current => ({ ...current, outroText: e.target.value }))}
+                    placeholder="You have been listening to {book}, from {channel}."
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                )}
+              </div>
+
+              {/* Pronunciation lexicon */}
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-1">Pronunciations</h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  Spell out how names and jargon should sound. IPA is used by voices that support it; the others read the spelling.
+                </p>
+
+                {settings.pronunciations.length > 0 && (
+                  <table className="w-full text-sm mb-2">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="pb-2 font-medium">Word</th>
+                        <th className="pb-2 font-medium">Sounds like</th>
+                        <th className="pb-2 font-medium">IPA (optional)</th>
+                        <th className="pb-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {settings.pronunciations.map((entry, index) => (
+                        <tr key={index}>
+                          <td className="py-2 pr-2">
+                            <input
+                              type="text"
+                              value={entry.term}
+                              onChange={(e) => updatePronunciation(index, { term: e.target.value })}
+                              placeholder="Hermione"
+                              className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                          </td>
+                          <td className="py-2 pr-2">
+                            <input
+                              type="text"
+                              value={entry.spoken || ''}
+                              onChange={(e) => updatePronunciation(index, { spoken: e.target.value })}
+                              placeholder="her-MY-oh-nee"
+                              className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                          </td>
+                          <td className="py-2 pr-2">
+                            <input
+                              type="text"
+                              value={entry.ipa || ''}
+                              onChange={(e) => updatePronunciation(index, { ipa: e.target.value })}
+                              placeholder="hɜːˈmaɪ.ə.ni"
+                              className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                          </td>
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => removePronunciation(index)}
+                              className="text-gray-400 hover:text-red-600 transition-colors"
+                              title="Remove pronunciation"
+                            >
+                              <FaTrash className="w-3 h-3" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <button
+                  onClick={addPronunciation}
+                  className="text-sm text-purple-600 hover:text-purple-800 flex items-center gap-1"
+                >
+                  <FaPlus className="w-3 h-3" />
+                  Add pronunciation
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={saveSettings}
+            disabled={loading || saving}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCompressArrowsAlt, FaCut, FaPlus, FaRedo, FaSpinner, FaSyncAlt, FaTimes } from 'react-icons/fa';
+import type { IconType } from 'react-icons';
+import { createClient } from '@/lib/supabase';
+import { useAI, OutlineRevisionBook } from '@/context/AIContext';
+import { formatOutlineContent, OutlineChapter, OutlineError, OutlineRevisionOperation } from '@/lib/ai/outline';
+
+export interface OutlineRevisionChapterRow {
+  id: string;
+  title: string;
+  content: string;
+  outline_content?: string;
+  chapter_number: number;
+}
+
+interface OutlineRevisionModalProps {
+  bookId: string;
+  book: OutlineRevisionBook;
+  // All chapters of the book, in chapter order
+  chapters: OutlineRevisionChapterRow[];
+  operation: OutlineRevisionOperation;
+  chapterNumber: number;
+  onClose: () => void;
+  // Called after the outline was changed, with the chapter to select
+  onApplied: (chapterId: string) => void;
+}
+
+export const OUTLINE_REVISION_ACTIONS: { operation: OutlineRevisionOperation; label: string; icon: IconType }[] = [
+  { operation: 'regenerate', label: 'Regenerate', icon: FaSyncAlt },
+  { operation: 'insert', label: 'Insert After', icon: FaPlus },
+  { operation: 'split', label: 'Split', icon: FaCut },
+  { operation: 'merge', label: 'Merge With Next', icon: FaCompressArrowsAlt }
+];
+
+function describeOperation(operation: OutlineRevisionOperation, chapterNumber: number, chapters: OutlineRevisionChapterRow[]) {
+  const chapter = chapters[chapterNumber - 1];
+  const next = chapters[chapterNumber];
+
+  switch (operation) {
+    case 'regenerate':
+      return {
+        title: `Regenerate Chapter ${chapterNumber}`,
+        description: `Writes a new title and outline for "${chapter.title}" that fits between the chapters around it. Written content is kept.`
+      };
+    case 'insert':
+      return {
+        title: chapterNumber === 0 ? 'Insert Chapter at the Beginning' : `Insert Chapter After Chapter ${chapterNumber}`,
+        description: 'Adds a new chapter that bridges its neighbours. Later chapters are renumbered.'
+      };
+    case 'split':
+      return {
+        title: `Split Chapter ${chapterNumber}`,
+        description: `Replaces the outline of "${chapter.title}" with two chapters. Written content stays with the first; later chapters are renumbered.`
+      };
+    case 'merge':
+      return {
+        title: `Merge Chapters ${chapterNumber} and ${chapterNumber + 1}`,
+        description: `Combines "${chapter.title}" and "${next?.title}" into one chapter. Written content of both is kept, one after the other, and later chapters are renumbered.`
+      };
+  }
+}
+
+/**
+ * Preview and apply an AI change to an existing outline: regenerate, insert,
+ * split or merge chapters. The change and the renumbering are applied in one
+ * transaction so chapter_number and order_index stay consecutive. Render it
+ * only while an operation is open.
+ */
+export function OutlineRevisionModal({
+  bookId,
+  book,
+  chapters,
+  operation,
+  chapterNumber,
+  onClose,
+  onApplied
+}: OutlineRevisionModalProps) {
+  const { reviseOutline } = useAI();
+  const [instructions, setInstructions] = useState('');
+  const [proposal, setProposal] = useState<OutlineChapter[] | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const supabase = createClient();
+
+  const { title, description } = describeOperation(operation, chapterNumber, chapters);
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    setProposal(null);
+
+    try {
+      const result = await reviseOutline(
+        { operation, chapterNumber, instructions },
+        book,
+        chapters.map(chapter => ({ title: chapter.title, summary: chapter.outline_content }))
+      );
+      setProposal(result);
+    } catch (err) {
+      console.error('Error revising outline:', err);
+      const issues = err instanceof OutlineError && err.issues.length > 0 ? ` (${err.issues.slice(0, 3).join('; ')})` : '';
+      setError(`${err instanceof Error ? err.message : 'Failed to revise the outline'}${issues}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // The whole revision is applied in one transaction by apply_outline_revision
+  // (outline-revision.sql), so a failure never leaves an orphan chapter or a gap
+  const apply = async () => {
+    if (!proposal) return;
+    setApplying(true);
+    setError(null);
+
+    try {
+      const { data: selectId, error: applyError } = await supabase
+        .rpc('apply_outline_revision', {
+          p_biglio_id: bookId,
+          p_chapter_ids: chapters.map(chapter => chapter.id),
+          p_operation: operation,
+          p_chapter_number: chapterNumber,
+          p_chapters: proposal.map(chapter => ({
+            title: chapter.title,
+            outline_content: formatOutlineContent(chapter)
+          }))
+        });
+      if (applyError || !selectId) throw applyError || new Error('No chapter returned');
+
+      console.log(`✓ Outline ${operation} applied`);
+      onApplied(selectId as string);
+    } catch (err) {
+      console.error('Error applying outline revision:', err);
+      setError('Failed to update the chapters. Refresh the chapter list and try again.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+            <p className="text-sm text-gray-600 mt-1">{description}</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={applying}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <FaTimes size={20} />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Instructions (optional)
+            </label>
+            <textarea
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              disabled={generating || applying}
+              className="w-full p-3 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none text-sm"
+              rows={2}
+              placeholder="e.g. Introduce the rival earlier, or focus on budgeting basics"
+            />
+          </div>
+
+          {generating && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <FaSpinner className="animate-spin text-purple-600" />
+              Revising the outline...
+            </div>
+          )}
+
+          {proposal && (
+            <div className="space-y-3">
+              {proposal.map((chapter, index) => (
+                <div key={index} className="border border-purple-200 bg-purple-50 rounded-lg p-4">
+                  <h4 className="font-semibold text-gray-900 mb-1">{chapter.title}</h4>
+                  <p className="text-sm text-gray-700 leading-relaxed">{chapter.summary}</p>
+                  {chapter.keyPoints.length > 0 && (
+                    <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+                      {chapter.keyPoints.map((point, pointIndex) => (
+                        <li key={pointIndex}>• {point}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={applying}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          {proposal ? (
+            <>
+              <button
+                onClick={generate}
+                disabled={generating || applying}
+                className="px-4 py-2 text-purple-700 bg-purple-50 hover:bg-purple-100 disabled:text-gray-400 rounded-md transition-colors flex items-center gap-2"
+              >
+                <FaRedo size={12} />
+                Try Again
+              </button>
+              <button
+                onClick={apply}
+                disabled={applying}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors"
+              >
+                {applying ? 'Applying...' : 'Apply to Outline'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={generate}
+              disabled={generating}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors"
+            >
+              {generating ? 'Generating...' : 'Generate'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { createClient } from '@/lib/supabase';
-import { FaCheck, FaExclamationTriangle, FaEye, FaClock, FaPlay } from 'react-icons/fa';
+import { lintChapterText, countLintIssues, AUDIOBOOK_LINT_RULES, AudiobookLintRule } from '@/utils/audiobookLint';
+import { FaCheck, FaExclamationTriangle, FaEye, FaClock, FaPlay, FaExclamationCircle } from 'react-icons/fa';
 
 interface Chapter {
   id: string;
@@ -47,8 +48,18 @@ export function PublicationWorkflow({ bookId, currentStatus, onStatusChange }: P
   const someChaptersGenerating = chapters.some(ch => ch.audio_status === 'generating');
   const hasFailedChapters = chapters.some(ch => ch.audio_status === 'failed');
 
+  // Audiobook compliance per chapter - errors block publishing
+  const chapterCompliance = useMemo(() => chapters.map(chapter => {
+    const issues = lintChapterText(chapter.content || '');
+    const rules = Array.from(new Set(issues.map(issue => issue.rule))) as AudiobookLintRule[];
+    return { chapter, rules, ...countLintIssues(issues) };
+  }), [chapters]);
+  const nonCompliantChapters = chapterCompliance.filter(result => result.errors > 0);
+  const chaptersWithWarnings = chapterCompliance.filter(result => result.errors === 0 && result.warnings > 0);
+  const isCompliant = nonCompliantChapters.length === 0;
+
   const handlePublish = async () => {
-    if (!allChaptersHaveAudio) return;
+    if (!allChaptersHaveAudio || !isCompliant) return;
 
     setPublishing(true);
     try {
@@ -178,6 +189,45 @@ export function PublicationWorkflow({ bookId, currentStatus, onStatusChange }: P
         </div>
       </div>
 
+      {/* Audiobook Compliance */}
+      {chapters.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-md font-medium text-gray-900 mb-3">Audiobook Compliance</h4>
+          {nonCompliantChapters.length === 0 && chaptersWithWarnings.length === 0 ? (
+            <p className="text-sm text-green-700 flex items-center gap-2">
+              <FaCheck />
+              All chapters follow the audiobook formatting rules.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {[...nonCompliantChapters, ...chaptersWithWarnings].map(({ chapter, rules, errors, warnings }) => (
+                <div key={chapter.id} className={`p-3 rounded-lg ${errors > 0 ? 'bg-red-50' : 'bg-yellow-50'}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      {errors > 0
+                        ? <FaExclamationCircle className="text-red-500" />
+                        : <FaExclamationTriangle className="text-yellow-500" />}
+                      <span className="text-sm text-gray-700 truncate max-w-xs">
+                        {chapter.title || 'Untitled Chapter'}
+                      </span>
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {[
+                        errors > 0 && `${errors} issue${errors === 1 ? '' : 's'}`,
+                        warnings > 0 && `${warnings} warning${warnings === 1 ? '' : 's'}`
+                      ].filter(Boolean).join(', ')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1 ml-7">
+                    {rules.map(rule => AUDIOBOOK_LINT_RULES[rule].label).join(' · ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Progress Summary */}
       <div className="mb-6 p-4 bg-blue-50 rounded-lg">
         <div className="flex items-center gap-2 mb-2">
@@ -185,7 +235,11 @@ export function PublicationWorkflow({ bookId, currentStatus, onStatusChange }: P
           <span className="font-medium text-blue-900">Ready for Publication?</span>
         </div>
         
-        {allChaptersHaveAudio ? (
+        {!isCompliant ? (
+          <p className="text-sm text-red-700">
+            ❌ {nonCompliantChapters.length} chapter{nonCompliantChapters.length === 1 ? ' has' : 's have'} audiobook formatting issues. Fix them in the editor before publishing.
+          </p>
+        ) : allChaptersHaveAudio ? (
           <p className="text-sm text-green-700">
             ✅ All {chapters.length} chapters have audio generated and are ready for publication!
           </p>
@@ -209,7 +263,8 @@ export function PublicationWorkflow({ bookId, currentStatus, onStatusChange }: P
         {currentStatus === 'draft' && allChaptersHaveAudio && (
           <button
             onClick={handlePublish}
-            disabled={publishing}
+            disabled={publishing || !isCompliant}
+            title={!isCompliant ? 'Fix the audiobook formatting issues first' : undefined}
             className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {publishing ? 'Publishing...' : 'Publish to Feed'}
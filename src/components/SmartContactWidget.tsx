@@ -74,11 +74,11 @@ const SmartContactWidget = () => {
     }
     
     if (message.includes('audio') || message.includes('generate audio') || message.includes('voice') || message.includes('narration')) {
-      return "Audio generation is super easy! Each chapter has a 🎵 button when it contains text. Choose between male/female voices, then click generate. Audio is stored in Supabase and plays instantly. Keep chapters under 7,500 characters for best quality!";
+      return "Audio generation is super easy! Each chapter has a 🎵 button when it contains text. Choose between male/female voices, then click generate. Audio is stored in Supabase and plays instantly. Chapters up to 30,000 characters can be narrated.";
     }
     
-    if (message.includes('character limit') || message.includes('7500') || message.includes('limit')) {
-      return "We recommend keeping chapters under 7,500 characters for optimal audio quality and generation speed. The editor shows your character count and warns when approaching the limit. Longer content can be split into multiple chapters!";
+    if (message.includes('character limit') || message.includes('limit')) {
+      return "Chapters can be up to 30,000 characters for audio generation, enough for a 4,000-word chapter. The editor shows your character count and warns when approaching the limit. Longer content can be split into multiple chapters!";
     }
     
     if (message.includes('save') || message.includes('autosave') || message.includes('saving')) {
@@ -0,0 +1,305 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaBookOpen, FaMagic, FaPlus, FaSpinner, FaTimes, FaTrash } from 'react-icons/fa';
+import { STORY_BIBLE_KINDS, type StoryBibleEntry, type StoryBibleKind } from '@/lib/ai/storyBible';
+
+interface StoryBibleModalProps {
+  bookId: string;
+  isOpen: boolean;
+  entries: StoryBibleEntry[];
+  onClose: () => void;
+  onSaved: (entries: StoryBibleEntry[]) => void;
+}
+
+interface EntryRow {
+  kind: StoryBibleKind;
+  name: string;
+  // Comma-separated while editing
+  aliases: string;
+  description: string;
+  chapterNumber: string;
+}
+
+const NAME_PLACEHOLDERS: Record<StoryBibleKind, string> = {
+  character: 'Elizabeth Bennet',
+  location: 'Netherfield Park',
+  term: 'The Militia',
+  timeline: 'Jane falls ill'
+};
+
+function toRow(entry: StoryBibleEntry): EntryRow {
+  return {
+    kind: entry.kind,
+    name: entry.name,
+    aliases: entry.aliases.join(', '),
+    description: entry.description,
+    chapterNumber: entry.chapterNumber ? String(entry.chapterNumber) : ''
+  };
+}
+
+/**
+ * Edit the book's story bible. Entries can be added by hand or picked from
+ * suggestions the AI extracts from the chapters.
+ */
+export function StoryBibleModal({ bookId, isOpen, entries, onClose, onSaved }: StoryBibleModalProps) {
+  const [rows, setRows] = useState<EntryRow[]>([]);
+  const [activeKind, setActiveKind] = useState<StoryBibleKind>('character');
+  const [suggestions, setSuggestions] = useState<StoryBibleEntry[]>([]);
+  const [suggesting, setSuggesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRows(entries.map(toRow));
+    setSuggestions([]);
+    setError(null);
+  }, [isOpen, entries]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (index: number, changes: Partial<EntryRow>) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    setRows(current => [...current, { kind: activeKind, name: '', aliases: '', description: '', chapterNumber: '' }]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(current => current.filter((_, i) => i !== index));
+  };
+
+  const addSuggestions = (added: StoryBibleEntry[]) => {
+    setRows(current => [...current, ...added.map(toRow)]);
+    setSuggestions(current => current.filter(suggestion => !added.includes(suggestion)));
+    if (added.length === 1) setActiveKind(added[0].kind);
+  };
+
+  const suggestEntries = async () => {
+    setSuggesting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/books/${bookId}/story-bible/suggest`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error || 'Failed to suggest entries');
+
+      // Leave out anything already added in this session but not saved yet
+      const names = new Set(rows.map(row => row.name.trim().toLowerCase()));
+      const fresh = (data.suggestions as StoryBibleEntry[]).filter(suggestion => !names.has(suggestion.name.toLowerCase()));
+      setSuggestions(fresh);
+      if (fresh.length === 0) setError('No new entries found in your chapters.');
+    } catch (err) {
+      console.error('Error suggesting story bible entries:', err);
+      setError(err instanceof Error ? err.message : 'Failed to suggest entries');
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const saveEntries = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/books/${bookId}/story-bible`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          entries: rows
+            .filter(row => row.name.trim())
+            .map(row => ({
+              kind: row.kind,
+              name: row.name.trim(),
+              aliases: row.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+              description: row.description.trim(),
+              chapterNumber: row.chapterNumber ? Number(row.chapterNumber) : null
+            }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error || 'Failed to save story bible');
+
+      onSaved(data.entries);
+      onClose();
+    } catch (err) {
+      console.error('Error saving story bible:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save story bible');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleRows = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.kind === activeKind);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl mx-4 max-h-[90vh] overflow-hidden">
+        {/* Modal Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <FaBookOpen className="text-purple-600" />
+            Story Bible
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <FaTimes className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Modal Content */}
+        <div className="px-6 py-4 space-y-4 max-h-[calc(90vh-140px)] overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            The AI assistant uses these names and facts when chatting and drafting chapters, so they stay consistent
+            across the book.
+          </p>
+
+          {/* Kind Tabs */}
+          <div className="flex gap-1 border-b border-gray-200">
+            {STORY_BIBLE_KINDS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => setActiveKind(kind)}
+                className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                  activeKind === kind
+                    ? 'border-purple-600 text-purple-700'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {label} ({rows.filter(row => row.kind === kind).length})
+              </button>
+            ))}
+          </div>
+
+          {visibleRows.length > 0 ? (
+            <div className="space-y-3">
+              {visibleRows.map(({ row, index }) => (
+                <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                  <div className="flex gap-2">
+                    {activeKind === 'timeline' && (
+                      <input
+                        type="number"
+                        min={1}
+                        value={row.chapterNumber}
+                        onChange={(e) => updateRow(index, { chapterNumber: e.target.value })}
+                        placeholder="Ch."
+                        title="Chapter"
+                        className="w-16 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                    )}
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => updateRow(index, { name: e.target.value })}
+                      placeholder={NAME_PLACEHOLDERS[row.kind]}
+                      className="flex-1 px-2 py-1 text-sm font-medium border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    {activeKind !== 'timeline' && (
+                      <input
+                        type="text"
+                        value={row.aliases}
+                        onChange={(e) => updateRow(index, { aliases: e.target.value })}
+                        placeholder="Also called"
+                        className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                    )}
+                    <button
+                      onClick={() => removeRow(index)}
+                      className="px-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Remove entry"
+                    >
+                      <FaTrash className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <textarea
+                    value={row.description}
+                    onChange={(e) => updateRow(index, { description: e.target.value })}
+                    placeholder="Facts to keep consistent"
+                    rows={2}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 py-4">
+              No {STORY_BIBLE_KINDS.find(option => option.kind === activeKind)?.label.toLowerCase()} yet.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={addRow}
+              className="text-sm text-purple-600 hover:text-purple-800 flex items-center gap-1"
+            >
+              <FaPlus className="w-3 h-3" />
+              Add entry
+            </button>
+            <button
+              onClick={suggestEntries}
+              disabled={suggesting}
+              className="text-sm text-purple-600 hover:text-purple-800 disabled:text-gray-400 flex items-center gap-1"
+            >
+              {suggesting ? <FaSpinner className="w-3 h-3 animate-spin" /> : <FaMagic className="w-3 h-3" />}
+              {suggesting ? 'Reading chapters...' : 'Suggest from chapters'}
+            </button>
+          </div>
+
+          {suggestions.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs text-gray-500">Found in your chapters:</p>
+                <button
+                  onClick={() => addSuggestions(suggestions)}
+                  className="text-xs text-purple-600 hover:text-purple-800"
+                >
+                  Add all
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map(suggestion => (
+                  <button
+                    key={`${suggestion.kind}-${suggestion.name}`}
+                    onClick={() => addSuggestions([suggestion])}
+                    title={suggestion.description}
+                    className="px-2 py-1 text-xs bg-purple-50 hover:bg-purple-100 text-purple-700 rounded-full transition-colors"
+                  >
+                    + {suggestion.name}
+                    <span className="text-purple-400 ml-1">{suggestion.kind}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={saveEntries}
+            disabled={saving}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-md transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save Story Bible'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import Image from 'next/image';
 import { createClient } from '@/lib/supabase';
 import { 
@@ -11,14 +11,20 @@ import {
   FaBook,
   FaClock,
   FaHeadphones,
-  FaEllipsisV,
+  FaPlus,
   FaRocket,
   FaCheck,
   FaImage,
   FaEdit,
-  FaTrash
+  FaTrash,
+  FaEyeSlash
 } from 'react-icons/fa';
 import { ImagePicker } from '@/components/ImagePicker';
+import { fetchListeningHistory } from '@/hooks/useListeningHistory';
+import { buildChapterQueue, useAudioPlayer } from '@/context/AudioPlayerContext';
+import { removeDownload } from '@/lib/offline/downloads';
+import { countLintIssues, lintChapterText } from '@/utils/audiobookLint';
+import type { ListeningHistory } from '@/types/database';
 
 interface Book {
   id: string;
@@ -46,21 +52,24 @@ interface Chapter {
 interface AudioBookListProps {
   books: Book[];
   isOwner: boolean;
+  // Channel the books belong to, shown as the artist on lock screens
+  channel?: { handle: string; display_name: string } | null;
 }
 
-export function AudioBookList({ books, isOwner }: AudioBookListProps) {
+export function AudioBookList({ books, isOwner, channel }: AudioBookListProps) {
   const [expandedBooks, setExpandedBooks] = useState<Record<string, boolean>>({});
-  const [playingChapter, setPlayingChapter] = useState<string | null>(null);
   const [bookChapters, setBookChapters] = useState<Record<string, Chapter[]>>({});
   const [loadingChapters, setLoadingChapters] = useState<Record<string, boolean>>({});
-  const [playbackSpeed, setPlaybackSpeed] = useState<Record<string, number>>({});
   const [publishingBooks, setPublishingBooks] = useState<Record<string, boolean>>({});
   const [editingCoverBookId, setEditingCoverBookId] = useState<string | null>(null);
   const [showImagePicker, setShowImagePicker] = useState(false);
   const [deletingBooks, setDeletingBooks] = useState<Record<string, boolean>>({});
+  // Where the listener left off in each expanded book
+  const [bookHistory, setBookHistory] = useState<Record<string, ListeningHistory | null>>({});
   
-  const audioRef = useRef<HTMLAudioElement>(null);
   const supabase = createClient();
+  const player = useAudioPlayer();
+  const playingChapter = player.isPlaying ? player.currentTrack?.chapterId ?? null : null;
 
   // Debug logging
   console.log('📚 AudioBookList received books:', books);
@@ -80,14 +89,18 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
     try {
       setLoadingChapters(prev => ({ ...prev, [bookId]: true }));
       
-      const { data, error } = await supabase
-        .from('chapters')
-        .select('id, title, content, chapter_number, audio_url, duration_seconds, is_published')
-        .eq('biglio_id', bookId)
-        // .eq('is_published', true) // Temporarily disabled to debug
-        .order('chapter_number', { ascending: true });
+      const [{ data, error }, history] = await Promise.all([
+        supabase
+          .from('chapters')
+          .select('id, title, content, chapter_number, audio_url, duration_seconds, is_published')
+          .eq('biglio_id', bookId)
+          // .eq('is_published', true) // Temporarily disabled to debug
+          .order('chapter_number', { ascending: true }),
+        fetchListeningHistory(bookId)
+      ]);
 
       console.log('📖 Chapters query result:', { data, error });
+      setBookHistory(prev => ({ ...prev, [bookId]: history }));
 
       if (error) throw error;
 
@@ -122,61 +135,43 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
     }
   };
 
-  const handlePlayChapter = useCallback((chapter: Chapter) => {
+  const handlePlayChapter = (book: Book, chapter: Chapter) => {
     if (!chapter.audio_url) return;
-    
-    // Stop current audio if playing
-    if (audioRef.current) {
-      audioRef.current.pause();
-    }
-    
-    if (playingChapter === chapter.id) {
-      setPlayingChapter(null);
-    } else {
-      setPlayingChapter(chapter.id);
-      
-      // Set up new audio
-      if (audioRef.current) {
-        audioRef.current.src = chapter.audio_url;
-        audioRef.current.load();
-        audioRef.current.play().catch(console.error);
-      }
-    }
-  }, [playingChapter]);
 
-  const togglePlaybackSpeed = (chapterId: string) => {
-    const currentSpeed = playbackSpeed[chapterId] || 1;
-    const newSpeed = currentSpeed === 1 ? 1.5 : currentSpeed === 1.5 ? 2 : 1;
-    
-    setPlaybackSpeed(prev => ({
-      ...prev,
-      [chapterId]: newSpeed
-    }));
-    
-    if (audioRef.current && playingChapter === chapterId) {
-      audioRef.current.playbackRate = newSpeed;
+    if (player.currentTrack?.chapterId === chapter.id) {
+      player.togglePlay();
+      return;
     }
-  };
 
-  // Handle audio events
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    // Remember where the chapter being left stopped, so replaying it resumes without a refetch
+    const leaving = player.currentTrack;
+    if (leaving) {
+      setBookHistory(prev => {
+        const previous = prev[leaving.biglioId];
+        if (!previous) return prev;
+        return {
+          ...prev,
+          [leaving.biglioId]: { ...previous, chapter_id: leaving.chapterId, position_seconds: Math.floor(player.currentTime), completed: false }
+        };
+      });
+    }
 
-    const handlePlay = () => setPlayingChapter(prevId => prevId);
-    const handlePause = () => setPlayingChapter(null);
-    const handleEnded = () => setPlayingChapter(null);
+    // Pick up where the listener left off in this chapter
+    const history = bookHistory[book.id];
+    const resumePosition = history && !history.completed && history.chapter_id === chapter.id ? history.position_seconds : 0;
+    const queue = buildChapterQueue({ ...book, channel }, bookChapters[book.id] || []);
+    player.playQueue(queue, queue.findIndex(track => track.chapterId === chapter.id), resumePosition);
+  };
 
-    audio.addEventListener('play', handlePlay);
-    audio.addEventListener('pause', handlePause);
-    audio.addEventListener('ended', handleEnded);
+  const togglePlaybackSpeed = () => {
+    const currentSpeed = player.playbackRate;
+    player.setPlaybackRate(currentSpeed === 1 ? 1.5 : currentSpeed === 1.5 ? 2 : 1);
+  };
 
-    return () => {
-      audio.removeEventListener('play', handlePlay);
-      audio.removeEventListener('pause', handlePause);
-      audio.removeEventListener('ended', handleEnded);
-    };
-  }, []);
+  const addChapterToQueue = (book: Book, chapter: Chapter) => {
+    const chapters = bookChapters[book.id] || [];
+    player.addToQueue(buildChapterQueue({ ...book, channel }, chapters).filter(track => track.chapterId === chapter.id));
+  };
 
   const formatDuration = (seconds: number) => {
     if (seconds < 60) return `${Math.floor(seconds)}s`;
@@ -250,6 +245,20 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
       return;
     }
 
+    // Audiobook formatting errors block publishing
+    const nonCompliantChapters = chapters.filter(ch => countLintIssues(lintChapterText(ch.content || '')).errors > 0);
+
+    if (nonCompliantChapters.length > 0) {
+      console.log(`❌ Compliance check: ${nonCompliantChapters.length} chapters have audiobook formatting errors`);
+      alert(
+        `❌ Audiobook Formatting Issues\n\n` +
+        `${nonCompliantChapters.length} chapter${nonCompliantChapters.length === 1 ? ' has' : 's have'} audiobook formatting issues:\n\n` +
+        nonCompliantChapters.map(ch => `• Chapter ${ch.chapter_number}: ${ch.title}`).join('\n') +
+        `\n\nFix them in the editor before publishing.`
+      );
+      return;
+    }
+
     const chaptersWithAudio = chapters.filter(ch => ch.audio_url && ch.audio_url.trim() !== '');
     const totalChapters = chapters.length;
 
@@ -315,6 +324,46 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
     }
   };
 
+  // Take a book off the main feed; listeners' offline downloads are removed the next time they are online
+  const handleUnpublishBook = async (bookId: string, bookTitle: string) => {
+    if (!isOwner || publishingBooks[bookId]) return;
+
+    const confirmed = confirm(
+      `Unpublish "${bookTitle}"?\n\n` +
+      `• It will be removed from the main feed\n` +
+      `• Listeners' offline downloads will be removed\n\n` +
+      `You can publish it again later.`
+    );
+    if (!confirmed) return;
+
+    setPublishingBooks(prev => ({ ...prev, [bookId]: true }));
+
+    try {
+      console.log('📥 Unpublishing book...', bookId);
+
+      const { error } = await supabase
+        .from('biglios')
+        .update({ is_published: false })
+        .eq('id', bookId);
+
+      if (error) {
+        console.error('❌ Error unpublishing book:', error);
+        alert('Failed to unpublish book. Please try again.');
+        return;
+      }
+
+      await removeDownload(bookId).catch(err => console.warn('⚠️ Could not remove download:', err));
+      console.log('✅ Book unpublished successfully');
+
+      window.location.reload();
+    } catch (err) {
+      console.error('❌ Error unpublishing book:', err);
+      alert('An unexpected error occurred. Please try again.');
+    } finally {
+      setPublishingBooks(prev => ({ ...prev, [bookId]: false }));
+    }
+  };
+
   // Handle cover image update
   const handleCoverImageUpdate = async (bookId: string, newImageUrl: string) => {
     try {
@@ -359,7 +408,8 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
       `• Remove all audio files\n` +
       `• Delete the book cover image\n` +
       `• Remove all likes, saves, and comments\n` +
-      `• Remove from your channel and the main feed\n\n` +
+      `• Remove from your channel and the main feed\n` +
+      `• Remove listeners' offline downloads\n\n` +
       `Are you absolutely sure you want to delete this book?`
     );
     
@@ -383,6 +433,7 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
       }
 
       console.log('✅ Book deleted successfully:', data);
+      await removeDownload(bookId).catch(err => console.warn('⚠️ Could not remove download:', err));
       
       // Show success message
       alert(`🗑️ Success! "${bookTitle}" has been permanently deleted.`);
@@ -463,11 +514,15 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
                   {/* Play Button Overlay */}
                   <button
                     onClick={() => {
-                      // Play first chapter of this book
+                      // Play the chapter the listener stopped in, or the first chapter of this book
                       const chapters = bookChapters[book.id];
-                      const firstChapterWithAudio = chapters?.find(ch => ch.audio_url);
-                      if (firstChapterWithAudio) {
-                        handlePlayChapter(firstChapterWithAudio);
+                      const history = bookHistory[book.id];
+                      const chapterToPlay =
+                        chapters?.find(ch => ch.id === player.currentTrack?.chapterId) ||
+                        (history && !history.completed ? chapters?.find(ch => ch.id === history.chapter_id && ch.audio_url) : undefined) ||
+                        chapters?.find(ch => ch.audio_url);
+                      if (chapterToPlay) {
+                        handlePlayChapter(book, chapterToPlay);
                       } else {
                         // If no chapters loaded yet, expand the book first
                         toggleBookExpansion(book.id);
@@ -606,6 +661,19 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
                             <span>Published</span>
                           </div>
                         )}
+
+                        {/* Unpublish Button - Only show for owner and published books */}
+                        {isOwner && book.is_published && (
+                          <button
+                            onClick={() => handleUnpublishBook(book.id, book.title)}
+                            disabled={publishingBooks[book.id]}
+                            className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-gray-200 text-gray-800 rounded-full hover:bg-gray-300 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Remove from the main feed and revoke offline downloads"
+                          >
+                            <FaEyeSlash className="text-xs" />
+                            <span>Unpublish</span>
+                          </button>
+                        )}
                       </div>
 
                       {/* Expand Button - Separate row on mobile for better spacing */}
@@ -648,7 +716,7 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
                         
                         {/* Play Button */}
                         <button
-                          onClick={() => handlePlayChapter(chapter)}
+                          onClick={() => handlePlayChapter(book, chapter)}
                           className="w-10 h-10 rounded-full bg-white border-2 border-gray-300 flex items-center justify-center hover:border-blue-500 hover:bg-blue-50 transition-colors flex-shrink-0"
                           disabled={!chapter.audio_url}
                         >
@@ -666,6 +734,9 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
                           </h4>
                           <p className="text-xs text-gray-500 mt-1">
                             {new Date().toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', year: 'numeric' })}
+                            {bookHistory[book.id]?.chapter_id === chapter.id && !bookHistory[book.id]?.completed && (bookHistory[book.id]?.position_seconds || 0) > 0 && (
+                              <span className="text-blue-600"> • Resume at {formatTime(bookHistory[book.id]?.position_seconds || 0)}</span>
+                            )}
                           </p>
                         </div>
 
@@ -676,15 +747,20 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
 
                         {/* Playback Speed */}
                         <button
-                          onClick={() => togglePlaybackSpeed(chapter.id)}
+                          onClick={togglePlaybackSpeed}
                           className="px-2 py-1 text-xs bg-gray-200 hover:bg-gray-300 rounded transition-colors flex-shrink-0"
                         >
-                          {playbackSpeed[chapter.id] || 1}x
+                          {player.playbackRate}x
                         </button>
 
-                        {/* Menu Button */}
-                        <button className="p-1 text-gray-400 hover:text-gray-600 transition-colors flex-shrink-0">
-                          <FaEllipsisV className="text-xs" />
+                        {/* Add to Queue */}
+                        <button
+                          onClick={() => addChapterToQueue(book, chapter)}
+                          disabled={!chapter.audio_url}
+                          className="p-1 text-gray-400 hover:text-gray-600 disabled:text-gray-300 transition-colors flex-shrink-0"
+                          title="Add to queue"
+                        >
+                          <FaPlus className="text-xs" />
                         </button>
                       </div>
                     ))}
@@ -702,17 +778,6 @@ export function AudioBookList({ books, isOwner }: AudioBookListProps) {
         ))}
       </div>
       
-      {/* Hidden Audio Element */}
-      <audio
-        ref={audioRef}
-        onLoadedMetadata={() => {
-          if (audioRef.current && playingChapter) {
-            const speed = Object.values(playbackSpeed).find(s => s) || 1;
-            audioRef.current.playbackRate = speed;
-          }
-        }}
-      />
-
       {/* Image Picker Modal */}
       <ImagePicker
         isOpen={showImagePicker}
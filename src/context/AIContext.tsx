@@ -1,9 +1,19 @@
 'use client';
 
-import { createContext, useContext, useState, ReactNode, useCallback } from 'react';
+import { createContext, useContext, useState, ReactNode, useCallback, useRef } from 'react';
 import { detectBookType } from '@/utils/bookTypeDetection';
-
-interface BookContext {
+import { readServerSentEvents } from '@/lib/sse';
+import {
+  OUTLINE_ERROR_STATUS,
+  OutlineError,
+  type OutlineChapter,
+  type OutlineErrorCode,
+  type OutlineRevisionRequest
+} from '@/lib/ai/outline';
+import { formatStoryBible, selectRelevantEntries, type StoryBibleEntry } from '@/lib/ai/storyBible';
+import type { AIConversation, AIMessage } from '@/types/database';
+
+export interface BookContext {
   bookTitle?: string;
   bookDescription?: string;
   bookType?: 'fiction' | 'non-fiction';
@@ -19,6 +29,8 @@ interface BookContext {
   previousChapters?: string;
   chapterSummaries?: string[];
   totalChapters?: number;
+  // The whole bible; only entries relevant to the message are sent
+  storyBible?: StoryBibleEntry[];
 }
 
 interface OutlineOptions {
@@ -29,12 +41,20 @@ interface OutlineOptions {
   [key: string]: unknown;
 }
 
-interface OutlineResult {
-  chapterNumber: number;
+type OutlineResult = OutlineChapter;
+
+export interface OutlineRevisionBook {
   title: string;
-  summary: string;
-  keyPoints: string[];
-  estimatedWordCount: number;
+  description?: string;
+  genre?: string;
+  targetAudience?: string;
+  bookType?: 'fiction' | 'non-fiction';
+}
+
+// Chapters of the outline being revised, in order
+export interface OutlineRevisionChapter {
+  title: string;
+  summary?: string;
 }
 
 // AI Prompt Types (upgraded from old system)
@@ -48,18 +68,89 @@ export enum AIPromptType {
 
 export type AIContextMode = 'chapter' | 'book' | 'full';
 
+// Inline edits on selected text, built on the STYLE_IMPROVEMENT prompts
+export type AIEditAction = 'rewrite' | 'shorten' | 'expand' | 'conversational' | 'audio';
+
+interface PromptOptions {
+  // Passage to revise; STYLE_IMPROVEMENT then works on this instead of the whole chapter
+  selectedText?: string;
+  editAction?: AIEditAction;
+}
+
+const EDIT_INSTRUCTIONS: Record<AIEditAction, string> = {
+  rewrite: 'Rewrite this passage to improve its flow, clarity, and impact. Keep its meaning and roughly its length.',
+  shorten: 'Shorten this passage to about half its length. Keep the essential content and cut repetition, filler, and weak phrasing.',
+  expand: 'Expand this passage to about twice its length with richer detail and development. Do not introduce new events or claims that contradict the surrounding chapter.',
+  conversational: 'Make this passage more conversational, as if speaking directly to the listener. Use natural rhythm, contractions, and spoken transitions.',
+  audio: 'Fix this passage for audiobook narration. Spell out numbers, symbols, dates, and abbreviations, turn any list into flowing sentences, and split sentences that are too long to read in one breath. Change as little else as possible.'
+};
+
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  // Set on assistant replies that were cancelled part-way through streaming
+  interrupted?: boolean;
+}
+
+interface StreamMessageOptions {
+  // Called with the full reply so far each time new text arrives
+  onToken?: (partialMessage: string) => void;
+  // Shown and saved in place of the message when that is a long generated prompt
+  displayMessage?: string;
+}
+
+interface StreamMessageResult {
+  message: string;
+  interrupted: boolean;
+}
+
+// The book (and chapter) a saved conversation belongs to
+interface ConversationScope {
+  bookId: string;
+  chapterId?: string;
+}
+
+export type ConversationSummary = AIConversation & { snippet?: string };
+
+// Where exchanges in a conversation are saved; threadId is null until the first one
+interface ConversationThread {
+  scope: ConversationScope;
+  threadId: string | null;
+  saving: Promise<void>;
+}
+
+// Typed error from an outline route response
+function outlineErrorFromResponse(response: Response, data: { error?: string; code?: string; issues?: string[] } | null): OutlineError {
+  const code = (data?.code && data.code in OUTLINE_ERROR_STATUS ? data.code : 'ai_unavailable') as OutlineErrorCode;
+  return new OutlineError(code, data?.error || `Outline request failed: ${response.statusText}`, data?.issues || []);
+}
+
+function toChatMessage(message: AIMessage): ChatMessage {
+  return {
+    role: message.role === 'user' ? 'user' : 'assistant',
+    content: message.content,
+    timestamp: message.created_at,
+    ...(message.metadata?.interrupted && { interrupted: true })
+  };
 }
 
 interface AIContextType {
   sendMessage: (message: string, context?: BookContext, conversationId?: string) => Promise<string>;
+  sendMessageStream: (message: string, context?: BookContext, conversationId?: string, options?: StreamMessageOptions) => Promise<StreamMessageResult>;
+  cancelMessage: () => void;
+  isStreaming: boolean;
   generateOutline: (title: string, description: string, options?: OutlineOptions) => Promise<OutlineResult[]>;
-  generatePrompt: (type: AIPromptType, context?: BookContext) => string;
+  reviseOutline: (request: OutlineRevisionRequest, book: OutlineRevisionBook, outline: OutlineRevisionChapter[]) => Promise<OutlineResult[]>;
+  generatePrompt: (type: AIPromptType, context?: BookContext, options?: PromptOptions) => string;
+  suggestEdit: (selectedText: string, action: AIEditAction, context?: BookContext) => Promise<string>;
   setContextMode: (mode: AIContextMode) => void;
   clearConversation: (conversationId?: string) => void;
+  openConversation: (conversationId: string, scope: ConversationScope, threadId?: string) => Promise<ChatMessage[]>;
+  listConversations: (scope: ConversationScope, query?: string) => Promise<ConversationSummary[]>;
+  renameConversation: (threadId: string, title: string) => Promise<void>;
+  deleteConversation: (threadId: string) => Promise<void>;
+  activeThreadIds: Record<string, string>;
   optimizeContext: (fullContext: string, message: string) => string;
   contextMode: AIContextMode;
   isLoading: boolean;
@@ -74,6 +165,57 @@ export function AIProvider({ children }: { children: ReactNode }) {
   const [error, setError] = useState<string | null>(null);
   const [contextMode, setContextMode] = useState<AIContextMode>('chapter');
   const [messageHistory, setMessageHistory] = useState<Record<string, ChatMessage[]>>({});
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  const threadsRef = useRef<Record<string, ConversationThread>>({});
+  const [activeThreadIds, setActiveThreadIds] = useState<Record<string, string>>({});
+
+  const setActiveThread = useCallback((conversationId: string, threadId: string | null) => {
+    setActiveThreadIds(prev => {
+      const next = { ...prev };
+      if (threadId) next[conversationId] = threadId;
+      else delete next[conversationId];
+      return next;
+    });
+  }, []);
+
+  // Save a finished exchange to the conversation's thread, creating the thread on first use.
+  // Saves are queued per thread so messages land in order; failures only cost persistence.
+  const persistExchange = useCallback((conversationId: string, exchange: ChatMessage[]) => {
+    const thread = threadsRef.current[conversationId];
+    if (!thread) return;
+
+    thread.saving = thread.saving.then(async () => {
+      if (!thread.threadId) {
+        const response = await fetch('/api/ai/conversations', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ biglio_id: thread.scope.bookId, chapter_id: thread.scope.chapterId })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to create conversation');
+
+        thread.threadId = data.conversation.id as string;
+        if (threadsRef.current[conversationId] === thread) {
+          setActiveThread(conversationId, thread.threadId);
+        }
+      }
+
+      const response = await fetch(`/api/ai/conversations/${thread.threadId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messages: exchange.map(({ role, content, interrupted }) => ({ role, content, interrupted }))
+        })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to save messages');
+      }
+    }).catch(err => {
+      console.warn('⚠️ Could not save AI conversation:', err);
+    });
+  }, [setActiveThread]);
 
   // Token estimation for context optimization (from old system)
   const estimateTokenCount = (text: string): number => {
@@ -142,7 +284,7 @@ export function AIProvider({ children }: { children: ReactNode }) {
   }, [isContextTooLarge]);
 
   // Generate sophisticated prompts (enhanced with book type awareness from old system)
-  const generatePrompt = useCallback((type: AIPromptType, context?: BookContext): string => {
+  const generatePrompt = useCallback((type: AIPromptType, context?: BookContext, options?: PromptOptions): string => {
     const bookInfo = context?.bookTitle ? ` for "${context.bookTitle}"` : '';
     const chapterInfo = context?.currentChapterTitle ? ` in the chapter "${context.currentChapterTitle}"` : '';
     const bookType = context?.bookType || detectBookType(context?.genre);
@@ -168,6 +310,13 @@ export function AIProvider({ children }: { children: ReactNode }) {
         return `Suggest ways to develop character arcs${chapterInfo}${bookInfo}. How can I show growth, change, or reveal new aspects of the characters? Focus on authentic character moments, emotional depth, and meaningful development that serves the story.`;
         
       case AIPromptType.STYLE_IMPROVEMENT:
+        if (options?.selectedText) {
+          const instruction = EDIT_INSTRUCTIONS[options.editAction || 'rewrite'];
+          const voice = isNonFiction
+            ? 'Keep the instructional clarity and practical value, and keep addressing the reader the same way.'
+            : 'Keep the same voice, tense, point of view, and plot events.';
+          return `Please revise a passage from this chapter${chapterInfo}${bookInfo}. ${instruction} ${voice} The passage must still read naturally in place within the chapter. Return only the revised passage, with no introduction, quotation marks, or notes.\n\nPassage:\n${options.selectedText}`;
+        }
         if (isNonFiction) {
           return `Please rewrite and improve this entire chapter${chapterInfo}${bookInfo}. Take the existing content and enhance it for clarity, authority, and practical value. Improve the instructional flow, add better examples, and make complex concepts more accessible. Maintain the same key concepts but make the teaching more effective and engaging for audio consumption. ${context?.currentChapterContent ? `Current chapter content: ${context.currentChapterContent}` : ''} Improved version:`;
         }
@@ -227,6 +376,18 @@ export function AIProvider({ children }: { children: ReactNode }) {
       contextualMessage += `\n`;
     }
 
+    // Names and facts the reply must stay consistent with
+    if (context.storyBible && context.storyBible.length > 0) {
+      const entries = selectRelevantEntries(context.storyBible, {
+        message,
+        chapterText: `${context.currentChapterContent || ''}\n${context.currentChapterOutline || ''}`,
+        chapterNumber: context.currentChapterNumber
+      });
+      if (entries.length > 0) {
+        contextualMessage += `Story bible (keep names and facts consistent):\n${formatStoryBible(entries)}\n\n`;
+      }
+    }
+
     // Add current chapter context (mode-aware)
     if (context.currentChapterTitle) {
       contextualMessage += `Currently working on: "${context.currentChapterTitle}"`;
@@ -319,6 +480,7 @@ export function AIProvider({ children }: { children: ReactNode }) {
         ...prev,
         [conversationId]: [...(prev[conversationId] || []), assistantMessage]
       }));
+      persistExchange(conversationId, [userMessage, assistantMessage]);
 
       return data.message || '';
     } catch (err) {
@@ -328,7 +490,165 @@ export function AIProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, [contextMode, messageHistory, optimizeContext, buildContextualMessage]);
+  }, [contextMode, messageHistory, optimizeContext, buildContextualMessage, persistExchange]);
+
+  /**
+   * Like sendMessage, but the reply is streamed and reported through onToken
+   * as it arrives. cancelMessage() stops the stream: the partial reply is
+   * kept in messageHistory marked as interrupted, or, if nothing had arrived
+   * yet, the user message is removed so the history never ends on an
+   * unanswered question.
+   */
+  const sendMessageStream = useCallback(async (
+    message: string,
+    context?: BookContext,
+    conversationId: string = 'default',
+    options: StreamMessageOptions = {}
+  ): Promise<StreamMessageResult> => {
+    // Only one reply streams at a time
+    streamControllerRef.current?.abort();
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+
+    setIsLoading(true);
+    setIsStreaming(true);
+    setError(null);
+
+    const contextualMessage = buildContextualMessage(message, context);
+    const userMessage: ChatMessage = {
+      role: 'user',
+      content: options.displayMessage || message,
+      timestamp: new Date().toISOString()
+    };
+
+    setMessageHistory(prev => ({
+      ...prev,
+      [conversationId]: [...(prev[conversationId] || []), userMessage]
+    }));
+
+    let partialMessage = '';
+
+    const finish = (content: string, interrupted: boolean) => {
+      if (!content) {
+        setMessageHistory(prev => ({
+          ...prev,
+          [conversationId]: (prev[conversationId] || []).filter(entry => entry !== userMessage)
+        }));
+        return;
+      }
+
+      const assistantMessage: ChatMessage = {
+        role: 'assistant',
+        content,
+        timestamp: new Date().toISOString(),
+        ...(interrupted && { interrupted })
+      };
+      setMessageHistory(prev => ({
+        ...prev,
+        [conversationId]: [...(prev[conversationId] || []), assistantMessage]
+      }));
+      persistExchange(conversationId, [userMessage, assistantMessage]);
+    };
+
+    try {
+      const response = await fetch('/api/ai/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream'
+        },
+        body: JSON.stringify({
+          messages: [{ role: 'user', content: contextualMessage }],
+          context,
+          conversationHistory: messageHistory[conversationId] || [],
+          stream: true
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `AI request failed: ${response.statusText}`);
+      }
+
+      let finalMessage: string | null = null;
+      let streamError: string | null = null;
+
+      await readServerSentEvents(response, ({ event, data }) => {
+        const payload = data as { text?: string; message?: string; error?: string; details?: string };
+        if (event === 'token' && payload.text) {
+          partialMessage += payload.text;
+          options.onToken?.(partialMessage);
+        } else if (event === 'done') {
+          finalMessage = payload.message ?? partialMessage;
+        } else if (event === 'error') {
+          streamError = payload.details ? `${payload.error}: ${payload.details}` : payload.error || 'AI request failed';
+        }
+      });
+
+      if (streamError) throw new Error(streamError);
+      if (finalMessage === null) {
+        // The connection closed without a done event; treat it like a cancel
+        finish(partialMessage, true);
+        return { message: partialMessage, interrupted: true };
+      }
+
+      finish(finalMessage, false);
+      return { message: finalMessage, interrupted: false };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        finish(partialMessage, true);
+        return { message: partialMessage, interrupted: true };
+      }
+
+      finish('', false);
+      const errorMessage = err instanceof Error ? err.message : 'AI request failed';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      if (streamControllerRef.current === controller) {
+        streamControllerRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
+    }
+  }, [messageHistory, buildContextualMessage, persistExchange]);
+
+  const cancelMessage = useCallback(() => {
+    streamControllerRef.current?.abort();
+  }, []);
+
+  // One-off revision of a selected passage; kept out of the chat history
+  const suggestEdit = useCallback(async (
+    selectedText: string,
+    action: AIEditAction,
+    context?: BookContext
+  ): Promise<string> => {
+    const prompt = generatePrompt(AIPromptType.STYLE_IMPROVEMENT, context, { selectedText, editAction: action });
+
+    const response = await fetch('/api/ai/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        messages: [{ role: 'user', content: prompt }],
+        context,
+        // Skip the narration clean-up so the diff only shows the model's edits
+        raw: true
+      }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data || data.error) {
+      throw new Error(data?.details || data?.error || `AI request failed: ${response.statusText}`);
+    }
+
+    // Models sometimes wrap the passage in quotes despite the instructions
+    const revised = (data.message || '').trim();
+    const quoted = /^"[\s\S]*"$/;
+    return quoted.test(revised) && !quoted.test(selectedText.trim()) ? revised.slice(1, -1) : revised;
+  }, [generatePrompt]);
 
   const generateOutline = async (title: string, description: string, options?: OutlineOptions): Promise<OutlineResult[]> => {
     setIsLoading(true);
@@ -350,49 +670,181 @@ export function AIProvider({ children }: { children: ReactNode }) {
         }),
       });
 
-      if (!response.ok) {
-        throw new Error(`Outline generation failed: ${response.statusText}`);
-      }
+      const data = await response.json().catch(() => null);
 
-      const data = await response.json();
-      
-      if (data.error) {
-        const detailedError = data.details ? `${data.error}: ${data.details}` : data.error;
-        throw new Error(detailedError);
+      if (!response.ok || data?.error) {
+        throw outlineErrorFromResponse(response, data);
       }
 
       return data.outline || [];
     } catch (err) {
-      let errorMessage = 'Outline generation failed';
-      
-      if (err instanceof Error) {
-        errorMessage = err.message;
-      }
+      const outlineError = err instanceof OutlineError
+        ? err
+        : new OutlineError('ai_unavailable', err instanceof Error ? err.message : 'Outline generation failed');
       
       console.error('AI Context outline error:', err);
-      setError(errorMessage);
-      throw new Error(errorMessage);
+      setError(outlineError.message);
+      throw outlineError;
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Ask the AI for replacement chapters for one outline operation (regenerate,
+   * insert, split or merge). Returns the new chapters; applying them to the
+   * book is up to the caller.
+   */
+  const reviseOutline = useCallback(async (
+    request: OutlineRevisionRequest,
+    book: OutlineRevisionBook,
+    outline: OutlineRevisionChapter[]
+  ): Promise<OutlineResult[]> => {
+    const response = await fetch('/api/ai/outline/revise', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...request, book, outline }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || data?.error) {
+      throw outlineErrorFromResponse(response, data);
+    }
+
+    return data.chapters || [];
+  }, []);
+
+  // Clearing starts a fresh thread; the previous one stays in the saved history
   const clearConversation = useCallback((conversationId: string = 'default') => {
+    const thread = threadsRef.current[conversationId];
+    if (thread) {
+      threadsRef.current[conversationId] = { scope: thread.scope, threadId: null, saving: Promise.resolve() };
+      setActiveThread(conversationId, null);
+    }
+
     setMessageHistory(prev => ({
       ...prev,
       [conversationId]: []
     }));
+  }, [setActiveThread]);
+
+  /**
+   * Attach a conversation to saved history for a book or chapter and load it:
+   * the given thread, or the most recent one for the scope. Later exchanges
+   * are saved to that thread (or a new one if the scope has none yet).
+   */
+  const openConversation = useCallback(async (
+    conversationId: string,
+    scope: ConversationScope,
+    threadId?: string
+  ): Promise<ChatMessage[]> => {
+    const thread: ConversationThread = { scope, threadId: null, saving: Promise.resolve() };
+    threadsRef.current[conversationId] = thread;
+    const isCurrent = () => threadsRef.current[conversationId] === thread;
+
+    try {
+      let id = threadId;
+      if (!id) {
+        const params = new URLSearchParams({ biglio_id: scope.bookId });
+        if (scope.chapterId) params.set('chapter_id', scope.chapterId);
+
+        const response = await fetch(`/api/ai/conversations?${params}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load conversations');
+        id = (data.conversations as ConversationSummary[])[0]?.id;
+      }
+
+      if (!id) {
+        if (isCurrent()) {
+          setMessageHistory(prev => ({ ...prev, [conversationId]: [] }));
+          setActiveThread(conversationId, null);
+        }
+        return [];
+      }
+
+      const response = await fetch(`/api/ai/conversations/${id}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load conversation');
+
+      const messages = (data.messages as AIMessage[])
+        .filter(message => message.role !== 'system')
+        .map(toChatMessage);
+
+      if (isCurrent()) {
+        thread.threadId = id;
+        setMessageHistory(prev => ({ ...prev, [conversationId]: messages }));
+        setActiveThread(conversationId, id);
+      }
+      return messages;
+    } catch (err) {
+      // Without saved history (e.g. signed out) the conversation stays in memory only
+      if (isCurrent()) delete threadsRef.current[conversationId];
+      throw err;
+    }
+  }, [setActiveThread]);
+
+  // Saved threads for a book or chapter, newest first; a query searches titles and messages across the book
+  const listConversations = useCallback(async (
+    scope: ConversationScope,
+    query?: string
+  ): Promise<ConversationSummary[]> => {
+    const params = new URLSearchParams({ biglio_id: scope.bookId });
+    if (scope.chapterId) params.set('chapter_id', scope.chapterId);
+    if (query?.trim()) params.set('q', query.trim());
+
+    const response = await fetch(`/api/ai/conversations?${params}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load conversations');
+
+    return data.conversations || [];
   }, []);
 
+  const renameConversation = useCallback(async (threadId: string, title: string) => {
+    const response = await fetch(`/api/ai/conversations/${threadId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title })
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Failed to rename conversation');
+    }
+  }, []);
+
+  const deleteConversation = useCallback(async (threadId: string) => {
+    const response = await fetch(`/api/ai/conversations/${threadId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Failed to delete conversation');
+    }
+
+    // A deleted thread that is still open is cleared so new messages start a new thread
+    for (const [conversationId, thread] of Object.entries(threadsRef.current)) {
+      if (thread.threadId === threadId) clearConversation(conversationId);
+    }
+  }, [clearConversation]);
+
   const value: AIContextType = {
     sendMessage,
+    sendMessageStream,
+    cancelMessage,
     generateOutline,
+    reviseOutline,
     generatePrompt,
+    suggestEdit,
     setContextMode,
     clearConversation,
+    openConversation,
+    listConversations,
+    renameConversation,
+    deleteConversation,
+    activeThreadIds,
     optimizeContext,
     contextMode,
     isLoading,
+    isStreaming,
     error,
     messageHistory
   };
@@ -0,0 +1,478 @@
+'use client';
+
+import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
+import { useListeningProgress } from '@/hooks/useListeningHistory';
+import { useMediaSession } from '@/hooks/useMediaSession';
+import { getCachedFileUrl } from '@/lib/offline/downloads';
+import type { AudioAlignment } from '@/types/database';
+
+// A chapter in the play queue
+export interface AudioTrack {
+  biglioId: string;
+  chapterId: string;
+  chapterNumber: number;
+  title: string;
+  bookTitle: string;
+  channelName?: string;
+  coverUrl?: string;
+  audioUrl: string;
+  durationSeconds: number;
+  audioAlignment?: AudioAlignment | null;
+  // Finishing the last chapter marks the book as completed in listening history
+  isLastChapter: boolean;
+}
+
+// Minutes until playback pauses, or the end of the chapter playing
+export type SleepTimerSetting = number | 'end_of_chapter';
+
+export interface SleepTimer {
+  setting: SleepTimerSetting;
+  // When a timed sleep timer runs out; null for the end of the chapter
+  endsAt: number | null;
+}
+
+export const SLEEP_TIMER_OPTIONS: { value: SleepTimerSetting; label: string }[] = [
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '60 minutes' },
+  { value: 'end_of_chapter', label: 'End of chapter' }
+];
+
+interface AudioPlayerContextType {
+  queue: AudioTrack[];
+  currentIndex: number;
+  currentTrack: AudioTrack | null;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  volume: number;
+  playbackRate: number;
+  sleepTimer: SleepTimer | null;
+  // Seconds left on a timed sleep timer
+  sleepTimerRemaining: number | null;
+  playQueue: (tracks: AudioTrack[], startIndex?: number, positionSeconds?: number) => void;
+  playIndex: (index: number) => void;
+  addToQueue: (tracks: AudioTrack[]) => void;
+  removeFromQueue: (index: number) => void;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (seconds: number) => void;
+  next: () => void;
+  previous: () => void;
+  setVolume: (volume: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  setSleepTimer: (setting: SleepTimerSetting | null) => void;
+  stop: () => void;
+}
+
+interface QueueBook {
+  id: string;
+  title: string;
+  cover_url?: string;
+  channel?: { handle: string; display_name?: string } | null;
+}
+
+interface QueueChapter {
+  id: string;
+  title: string;
+  chapter_number: number;
+  audio_url?: string;
+  duration_seconds: number;
+  audio_alignment?: AudioAlignment | null;
+}
+
+// "Previous" restarts the chapter once this far into it
+const RESTART_THRESHOLD_SECONDS = 3;
+
+// Seconds the volume fades out over before the sleep timer pauses playback
+const SLEEP_FADE_SECONDS = 10;
+const SLEEP_TIMER_TICK_MS = 250;
+
+/**
+ * Turns a book's chapters, in chapter order, into queue tracks. Chapters
+ * without audio are left out.
+ */
+export function buildChapterQueue(book: QueueBook, chapters: QueueChapter[]): AudioTrack[] {
+  const playable = chapters.filter(chapter => chapter.audio_url);
+  const lastChapterId = playable[playable.length - 1]?.id;
+
+  return playable.map(chapter => ({
+    biglioId: book.id,
+    chapterId: chapter.id,
+    chapterNumber: chapter.chapter_number,
+    title: chapter.title,
+    bookTitle: book.title,
+    channelName: book.channel ? book.channel.display_name || `@${book.channel.handle}` : undefined,
+    coverUrl: book.cover_url,
+    audioUrl: chapter.audio_url as string,
+    durationSeconds: chapter.duration_seconds || 0,
+    audioAlignment: chapter.audio_alignment,
+    isLastChapter: chapter.id === lastChapterId
+  }));
+}
+
+const AudioPlayerContext = createContext<AudioPlayerContextType | undefined>(undefined);
+
+/**
+ * The app's single audio engine. Owns the only audio element, so playback
+ * keeps going across navigation and two players can never play at once.
+ * Plays a queue of chapters, moving on to the next when one ends, and saves
+ * the listening position as it goes.
+ */
+export function AudioPlayerProvider({ children }: { children: ReactNode }) {
+  const [queue, setQueue] = useState<AudioTrack[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [volume, setVolumeState] = useState(1);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const [sleepTimer, setSleepTimerState] = useState<SleepTimer | null>(null);
+  const [sleepTimerRemaining, setSleepTimerRemaining] = useState<number | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Latest queue and position in it, for the audio element's event handlers
+  const queueRef = useRef<AudioTrack[]>([]);
+  const indexRef = useRef(-1);
+  // Position to seek to once the loading chapter's metadata arrives
+  const pendingSeekRef = useRef<number | null>(null);
+  // Bumped on every chapter change; set while the next chapter's source is being looked up
+  const loadIdRef = useRef(0);
+  const switchingRef = useRef(false);
+  // Object URL of the downloaded audio playing, if any
+  const objectUrlRef = useRef<string | null>(null);
+  // The listener's volume, restored after a sleep timer fade
+  const volumeRef = useRef(1);
+  const sleepTimerRef = useRef<SleepTimer | null>(null);
+  const { start: startProgress, update: updateProgress, save: saveProgress } = useListeningProgress();
+
+  const loadTrack = useCallback((tracks: AudioTrack[], index: number, positionSeconds = 0, autoplay = true) => {
+    const audio = audioRef.current;
+    const track = tracks[index];
+    if (!audio || !track) return;
+
+    // Save the chapter being left now - its pause event is ignored while switching
+    if (queueRef.current[indexRef.current] && audio.currentTime > 0 && !audio.ended && !switchingRef.current) {
+      updateProgress(audio.currentTime);
+      saveProgress();
+    }
+
+    queueRef.current = tracks;
+    indexRef.current = index;
+    setQueue(tracks);
+    setCurrentIndex(index);
+    setCurrentTime(positionSeconds);
+    setDuration(track.durationSeconds);
+    pendingSeekRef.current = positionSeconds > 0 ? positionSeconds : null;
+    startProgress({ biglioId: track.biglioId, chapterId: track.chapterId }, positionSeconds);
+
+    const loadId = ++loadIdRef.current;
+    switchingRef.current = true;
+    audio.pause();
+
+    // Downloaded chapters play from the device, so they work offline
+    getCachedFileUrl(track.audioUrl)
+      .catch(() => null)
+      .then(cachedUrl => {
+        if (loadId !== loadIdRef.current) {
+          if (cachedUrl) URL.revokeObjectURL(cachedUrl);
+          return;
+        }
+
+        if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+        objectUrlRef.current = cachedUrl;
+        switchingRef.current = false;
+
+        console.log(`[AUDIO] Playing "${track.title}" from "${track.bookTitle}"${cachedUrl ? ' (downloaded)' : ''}${positionSeconds > 0 ? ` at ${positionSeconds}s` : ''}`);
+        audio.src = cachedUrl || track.audioUrl;
+        audio.load();
+        if (autoplay) {
+          audio.play().catch(error => console.warn('⚠️ Playback did not start:', error));
+        }
+      });
+  }, [startProgress, updateProgress, saveProgress]);
+
+  const playQueue = useCallback((tracks: AudioTrack[], startIndex = 0, positionSeconds = 0) => {
+    loadTrack(tracks, startIndex, positionSeconds);
+  }, [loadTrack]);
+
+  const playIndex = useCallback((index: number) => {
+    loadTrack(queueRef.current, index);
+  }, [loadTrack]);
+
+  const addToQueue = useCallback((tracks: AudioTrack[]) => {
+    const queued = new Set(queueRef.current.map(track => track.chapterId));
+    const added = tracks.filter(track => !queued.has(track.chapterId));
+    if (added.length === 0) return;
+
+    if (queueRef.current.length === 0) {
+      loadTrack(added, 0);
+      return;
+    }
+
+    queueRef.current = [...queueRef.current, ...added];
+    setQueue(queueRef.current);
+  }, [loadTrack]);
+
+  const removeFromQueue = useCallback((index: number) => {
+    // The chapter playing stays until it is stopped or skipped
+    if (index === indexRef.current || !queueRef.current[index]) return;
+
+    queueRef.current = queueRef.current.filter((_, i) => i !== index);
+    if (index < indexRef.current) indexRef.current -= 1;
+    setQueue(queueRef.current);
+    setCurrentIndex(indexRef.current);
+  }, []);
+
+  const play = useCallback(() => {
+    audioRef.current?.play().catch(error => console.warn('⚠️ Playback did not start:', error));
+  }, []);
+
+  const pause = useCallback(() => {
+    audioRef.current?.pause();
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio || !queueRef.current[indexRef.current]) return;
+
+    if (audio.paused) {
+      play();
+    } else {
+      audio.pause();
+    }
+  }, [play]);
+
+  const seek = useCallback((seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio || !queueRef.current[indexRef.current]) return;
+
+    pendingSeekRef.current = null;
+    audio.currentTime = Math.max(0, seconds);
+    setCurrentTime(audio.currentTime);
+  }, []);
+
+  const next = useCallback(() => {
+    if (indexRef.current + 1 < queueRef.current.length) {
+      loadTrack(queueRef.current, indexRef.current + 1);
+    }
+  }, [loadTrack]);
+
+  const previous = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.currentTime > RESTART_THRESHOLD_SECONDS || indexRef.current <= 0) {
+      seek(0);
+    } else {
+      loadTrack(queueRef.current, indexRef.current - 1);
+    }
+  }, [loadTrack, seek]);
+
+  const setVolume = useCallback((newVolume: number) => {
+    volumeRef.current = newVolume;
+    setVolumeState(newVolume);
+    if (audioRef.current) audioRef.current.volume = newVolume;
+  }, []);
+
+  const setSleepTimer = useCallback((setting: SleepTimerSetting | null) => {
+    const timer = setting === null
+      ? null
+      : { setting, endsAt: setting === 'end_of_chapter' ? null : Date.now() + setting * 60 * 1000 };
+
+    sleepTimerRef.current = timer;
+    setSleepTimerState(timer);
+    setSleepTimerRemaining(typeof setting === 'number' ? setting * 60 : null);
+    // Undo a fade in progress
+    if (audioRef.current) audioRef.current.volume = volumeRef.current;
+  }, []);
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    setPlaybackRateState(rate);
+    const audio = audioRef.current;
+    if (audio) {
+      // The default rate carries over to the next chapter loaded
+      audio.defaultPlaybackRate = rate;
+      audio.playbackRate = rate;
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    // Reloading drops the pending pause event, so save here
+    if (queueRef.current[indexRef.current] && audio.currentTime > 0 && !audio.ended && !switchingRef.current) {
+      updateProgress(audio.currentTime);
+      saveProgress();
+    }
+    loadIdRef.current += 1;
+    switchingRef.current = false;
+    setSleepTimer(null);
+    audio.pause();
+    audio.removeAttribute('src');
+    audio.load();
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+
+    queueRef.current = [];
+    indexRef.current = -1;
+    pendingSeekRef.current = null;
+    setQueue([]);
+    setCurrentIndex(-1);
+    setCurrentTime(0);
+    setDuration(0);
+  }, [updateProgress, saveProgress, setSleepTimer]);
+
+  // Fades the volume out as the sleep timer runs down, then pauses
+  useEffect(() => {
+    if (!sleepTimer) return;
+
+    const interval = setInterval(() => {
+      const audio = audioRef.current;
+      const timer = sleepTimerRef.current;
+      if (!audio || !timer) return;
+
+      let remaining: number;
+      if (timer.endsAt !== null) {
+        remaining = (timer.endsAt - Date.now()) / 1000;
+        setSleepTimerRemaining(Math.max(0, Math.ceil(remaining)));
+
+        if (remaining <= 0) {
+          console.log('😴 Sleep timer ended, pausing playback');
+          // The pause event saves the position to listening history
+          audio.pause();
+          setSleepTimer(null);
+          return;
+        }
+      } else {
+        // Stopping at the end of the chapter is handled by handleEnded
+        const track = queueRef.current[indexRef.current];
+        const duration = track?.durationSeconds || audio.duration;
+        if (switchingRef.current || !Number.isFinite(duration) || duration <= 0) return;
+        remaining = (duration - audio.currentTime) / (audio.playbackRate || 1);
+      }
+
+      if (!audio.paused) {
+        audio.volume = volumeRef.current * Math.min(1, Math.max(0, remaining / SLEEP_FADE_SECONDS));
+      }
+    }, SLEEP_TIMER_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [sleepTimer, setSleepTimer]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handlePlay = () => setIsPlaying(true);
+    const handleTimeUpdate = () => {
+      // Ignore the chapter being left and the reset to 0 while a resumed chapter is still loading
+      if (!queueRef.current[indexRef.current] || switchingRef.current || pendingSeekRef.current !== null) return;
+      setCurrentTime(audio.currentTime);
+      updateProgress(audio.currentTime);
+    };
+    // Prefer the duration measured from the MP3 frames at generation time -
+    // browsers estimate it from the file size for streams without a Xing header
+    const handleLoadedMetadata = () => {
+      const track = queueRef.current[indexRef.current];
+      setDuration(track?.durationSeconds || (Number.isFinite(audio.duration) ? audio.duration : 0));
+      if (pendingSeekRef.current) {
+        audio.currentTime = pendingSeekRef.current;
+        setCurrentTime(pendingSeekRef.current);
+        pendingSeekRef.current = null;
+      }
+    };
+    // 'pause' also fires when a chapter ends; that is saved by handleEnded
+    const handlePause = () => {
+      setIsPlaying(false);
+      if (!audio.ended && !switchingRef.current) saveProgress();
+    };
+    const handleEnded = () => {
+      const track = queueRef.current[indexRef.current];
+      const sleepAtChapterEnd = sleepTimerRef.current?.setting === 'end_of_chapter';
+      saveProgress({ completed: track?.isLastChapter === true });
+
+      if (indexRef.current + 1 < queueRef.current.length) {
+        // A sleep timer set for the end of the chapter leaves the next chapter ready to resume from
+        loadTrack(queueRef.current, indexRef.current + 1, 0, !sleepAtChapterEnd);
+        if (sleepAtChapterEnd) saveProgress();
+      } else {
+        setIsPlaying(false);
+      }
+
+      if (sleepAtChapterEnd) {
+        console.log('😴 Sleep timer ended at the end of the chapter');
+        setSleepTimer(null);
+      }
+    };
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('ended', handleEnded);
+
+    return () => {
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('ended', handleEnded);
+    };
+  }, [loadTrack, updateProgress, saveProgress, setSleepTimer]);
+
+  useMediaSession(audioRef, queue[currentIndex] || null, {
+    play,
+    pause,
+    seek,
+    previous,
+    next: currentIndex + 1 < queue.length ? next : undefined,
+    stop
+  });
+
+  const value = {
+    queue,
+    currentIndex,
+    currentTrack: queue[currentIndex] || null,
+    isPlaying,
+    currentTime,
+    duration,
+    volume,
+    playbackRate,
+    sleepTimer,
+    sleepTimerRemaining,
+    playQueue,
+    playIndex,
+    addToQueue,
+    removeFromQueue,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    next,
+    previous,
+    setVolume,
+    setPlaybackRate,
+    setSleepTimer,
+    stop,
+  };
+
+  return (
+    <AudioPlayerContext.Provider value={value}>
+      {children}
+      <audio ref={audioRef} preload="metadata" />
+    </AudioPlayerContext.Provider>
+  );
+}
+
+export function useAudioPlayer() {
+  const context = useContext(AudioPlayerContext);
+  if (context === undefined) {
+    throw new Error('useAudioPlayer must be used within an AudioPlayerProvider');
+  }
+  return context;
+}
@@ -1,12 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { createClient } from '@/lib/supabase';
+import type { BookAudioPlan } from '@/lib/audio/bookAudio';
 
 interface AudioJob {
   id: string;
   chapter_id: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress?: number;
+  attempts?: number;
+  max_attempts?: number;
+  run_after?: string;
   audio_url?: string;
   duration_seconds?: number;
   error_message?: string;
@@ -47,7 +52,7 @@ export function useAudioJobs(chapterId?: string) {
       if (!chapterId) return;
 
       const subscription = supabase
-        .channel('audio_jobs')
+        .channel(`audio_jobs:${chapterId}`)
         .on(
           'postgres_changes',
           {
@@ -107,7 +112,9 @@ export function useAudioJobs(chapterId?: string) {
     }
   };
 
-  const generateAudio = async (text: string, voice: string = 'female'): Promise<AudioJob> => {
+  // Queues audio generation and resolves with the job id. Progress and the
+  // final result arrive through the realtime subscription on `jobs`.
+  const generateAudio = async (text: string, voice: string = 'female'): Promise<string> => {
     if (!chapterId) {
       throw new Error('Chapter ID is required');
     }
@@ -127,20 +134,16 @@ export function useAudioJobs(chapterId?: string) {
         }),
       });
 
-      if (!response.ok) {
-        throw new Error(`Audio generation failed: ${response.statusText}`);
-      }
-
       const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.error);
+
+      if (!response.ok || data.error) {
+        throw new Error(data.details || data.error || `Audio generation failed: ${response.statusText}`);
       }
 
-      // Fetch the updated job from database
+      // Fetch the queued job from database
       await fetchJobs();
       
-      return data;
+      return data.jobId;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Audio generation failed';
       setError(errorMessage);
@@ -165,4 +168,124 @@ export function useAudioJobs(chapterId?: string) {
     getLatestJob,
     getJobByStatus
   };
-}
\ No newline at end of file
+}
+// Audio jobs for every chapter of a book, for whole-book generation. `plan`
+// comes from /api/books/[id]/audio and is refreshed as jobs finish.
+export function useBookAudioJobs(bookId?: string) {
+  const [plan, setPlan] = useState<BookAudioPlan | null>(null);
+  const [jobsByChapter, setJobsByChapter] = useState<Record<string, AudioJob>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const fetchPlan = useCallback(async () => {
+    if (!bookId) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/books/${bookId}/audio`);
+      const data = await response.json();
+
+      if (!response.ok || data.error) {
+        throw new Error(data.details || data.error || 'Failed to load book audio status');
+      }
+      setPlan(data as BookAudioPlan);
+    } catch (err) {
+      console.error('Error fetching book audio plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load book audio status');
+    } finally {
+      setLoading(false);
+    }
+  }, [bookId]);
+
+  useEffect(() => {
+    if (!bookId) return;
+
+    fetchPlan();
+
+    const subscription = supabase
+      .channel(`audio_jobs:book:${bookId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'audio_jobs',
+          filter: `biglio_id=eq.${bookId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const job = payload.new as AudioJob;
+          setJobsByChapter((current) => ({ ...current, [job.chapter_id]: job }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [bookId, supabase, fetchPlan]);
+
+  const activeJobs = Object.values(jobsByChapter).filter(
+    (job) => job.status === 'pending' || job.status === 'processing'
+  );
+  const isRunning = activeJobs.length > 0;
+  const hasJobs = Object.keys(jobsByChapter).length > 0;
+
+  // Refresh the plan (and the book's audio_ready flag) once the batch drains
+  useEffect(() => {
+    if (!isRunning && hasJobs) {
+      fetchPlan();
+    }
+  }, [isRunning, hasJobs, fetchPlan]);
+
+  const generateBookAudio = async (chapterIds?: string[]): Promise<Record<string, string>> => {
+    if (!bookId) {
+      throw new Error('Book ID is required');
+    }
+
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/books/${bookId}/audio`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ chapterIds }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || data.error) {
+        throw new Error(data.details || data.error || `Audio generation failed: ${response.statusText}`);
+      }
+
+      // Seed the queued jobs until their realtime updates arrive
+      const queuedAt = new Date().toISOString();
+      setJobsByChapter((current) => {
+        const next = { ...current };
+        for (const [chapterId, jobId] of Object.entries(data.jobs as Record<string, string>)) {
+          next[chapterId] = { id: jobId, chapter_id: chapterId, status: 'pending', progress: 0, created_at: queuedAt };
+        }
+        return next;
+      });
+
+      return data.jobs;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Audio generation failed';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  return {
+    plan,
+    jobsByChapter,
+    isRunning,
+    loading,
+    error,
+    generateBookAudio,
+    refetch: fetchPlan
+  };
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import type { ListeningHistory } from '@/types/database';
+
+// Seconds of playback between periodic saves
+const SAVE_INTERVAL_SECONDS = 15;
+
+export interface ListeningProgress {
+  biglioId: string;
+  chapterId: string;
+}
+
+export interface ContinueListeningItem {
+  biglio_id: string;
+  chapter_id: string | null;
+  position_seconds: number;
+  last_listened_at: string;
+  chapter: { title: string; chapter_number: number; duration_seconds: number } | null;
+  book: {
+    id: string;
+    title: string;
+    description: string;
+    cover_url?: string;
+    total_chapters: number;
+    like_count: number;
+    comment_count: number;
+    save_count: number;
+    published_at: string;
+    channel: {
+      id: string;
+      user_id: string;
+      handle: string;
+      display_name: string;
+      avatar_url?: string;
+      follower_count: number;
+    };
+  };
+}
+
+// Where the signed-in user left off in a book, or null
+export async function fetchListeningHistory(biglioId: string): Promise<ListeningHistory | null> {
+  try {
+    const response = await fetch(`/api/listening-history?biglio_id=${encodeURIComponent(biglioId)}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.history || null;
+  } catch (error) {
+    console.warn('⚠️ Could not load listening history:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves the listener's position in the book being played through
+ * /api/listening-history. Call `start` when a chapter begins, `update` from
+ * the audio element's timeupdate (it saves every SAVE_INTERVAL_SECONDS) and
+ * `save` on pause, close and the end of the book. Anonymous listeners are
+ * not tracked.
+ */
+export function useListeningProgress() {
+  const { user } = useAuth();
+  const progressRef = useRef<ListeningProgress | null>(null);
+  const positionRef = useRef(0);
+  const lastSavedRef = useRef(0);
+
+  const save = useCallback((options: { completed?: boolean; keepalive?: boolean } = {}) => {
+    const progress = progressRef.current;
+    if (!user || !progress) return;
+
+    lastSavedRef.current = positionRef.current;
+    fetch('/api/listening-history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        biglio_id: progress.biglioId,
+        chapter_id: progress.chapterId,
+        position_seconds: positionRef.current,
+        completed: options.completed === true
+      }),
+      // Lets the request finish while the page is closing
+      keepalive: options.keepalive
+    }).catch(error => console.warn('⚠️ Could not save listening position:', error));
+  }, [user]);
+
+  const start = useCallback((progress: ListeningProgress, positionSeconds = 0) => {
+    progressRef.current = progress;
+    positionRef.current = positionSeconds;
+    lastSavedRef.current = positionSeconds;
+  }, []);
+
+  const update = useCallback((positionSeconds: number) => {
+    positionRef.current = positionSeconds;
+    if (Math.abs(positionSeconds - lastSavedRef.current) >= SAVE_INTERVAL_SECONDS) {
+      save();
+    }
+  }, [save]);
+
+  // Keep the position when the tab is closed or the player unmounts mid-chapter
+  useEffect(() => {
+    const handlePageHide = () => save({ keepalive: true });
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      if (positionRef.current !== lastSavedRef.current) save({ keepalive: true });
+    };
+  }, [save]);
+
+  return { start, update, save };
+}
+
+// Books the signed-in user is part way through, for the "Continue listening" row
+export function useContinueListening() {
+  const { user } = useAuth();
+  const [items, setItems] = useState<ContinueListeningItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    if (!user) {
+      setItems([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await fetch('/api/listening-history');
+      if (!response.ok) throw new Error(`Request failed: ${response.status}`);
+      const data = await response.json();
+      setItems(data.history || []);
+    } catch (error) {
+      console.warn('⚠️ Could not load continue listening:', error);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  return { items, loading, refetch: fetchItems };
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useRef, type RefObject } from 'react';
+import type { AudioTrack } from '@/context/AudioPlayerContext';
+
+// Seconds skipped by lock-screen and headset seek buttons that don't send an offset
+const SEEK_BACKWARD_SECONDS = 15;
+const SEEK_FORWARD_SECONDS = 30;
+
+interface MediaSessionActions {
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  previous: () => void;
+  // Left out when there is no next chapter, which hides the button
+  next?: () => void;
+  stop: () => void;
+}
+
+function isMediaSessionSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+}
+
+/**
+ * Publishes the chapter playing to the operating system through the Media
+ * Session API, so phone lock screens, notifications and Bluetooth headsets
+ * show it and can control playback. Does nothing where the API is missing.
+ */
+export function useMediaSession(
+  audioRef: RefObject<HTMLAudioElement | null>,
+  track: AudioTrack | null,
+  actions: MediaSessionActions
+) {
+  // Latest actions and track for the handlers registered with the browser
+  const actionsRef = useRef(actions);
+  const trackRef = useRef(track);
+  actionsRef.current = actions;
+  trackRef.current = track;
+
+  const hasTrack = !!track;
+  const hasNext = !!actions.next;
+
+  // What the lock screen shows
+  useEffect(() => {
+    if (!isMediaSessionSupported()) return;
+
+    if (!track) {
+      navigator.mediaSession.metadata = null;
+      navigator.mediaSession.playbackState = 'none';
+      return;
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: `Chapter ${track.chapterNumber}: ${track.title}`,
+      artist: track.channelName || 'Biglio',
+      album: track.bookTitle,
+      artwork: track.coverUrl ? [{ src: track.coverUrl, sizes: '512x512' }] : []
+    });
+  }, [track]);
+
+  // Lock-screen and headset buttons
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !hasTrack) return;
+
+    const seekBy = (offset: number) => {
+      const audio = audioRef.current;
+      if (audio) actionsRef.current.seek(audio.currentTime + offset);
+    };
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', () => actionsRef.current.play()],
+      ['pause', () => actionsRef.current.pause()],
+      ['stop', () => actionsRef.current.stop()],
+      ['seekbackward', details => seekBy(-(details.seekOffset || SEEK_BACKWARD_SECONDS))],
+      ['seekforward', details => seekBy(details.seekOffset || SEEK_FORWARD_SECONDS)],
+      ['seekto', details => {
+        if (details.seekTime !== undefined) actionsRef.current.seek(details.seekTime);
+      }],
+      ['previoustrack', () => actionsRef.current.previous()],
+      ['nexttrack', hasNext ? () => actionsRef.current.next?.() : null]
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Browsers throw for actions they don't support
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Not supported, nothing was registered
+        }
+      }
+    };
+  }, [audioRef, hasTrack, hasNext]);
+
+  // Playback state and the position shown on the lock-screen scrubber
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isMediaSessionSupported()) return;
+
+    const updatePositionState = () => {
+      if (!trackRef.current) return;
+      navigator.mediaSession.playbackState = audio.paused ? 'paused' : 'playing';
+
+      const duration = trackRef.current.durationSeconds || audio.duration;
+      if (!navigator.mediaSession.setPositionState || !Number.isFinite(duration) || duration <= 0) return;
+      try {
+        navigator.mediaSession.setPositionState({
+          duration,
+          playbackRate: audio.playbackRate || 1,
+          position: Math.min(audio.currentTime, duration)
+        });
+      } catch (error) {
+        console.warn('⚠️ Could not update media position:', error);
+      }
+    };
+
+    const events = ['loadedmetadata', 'play', 'pause', 'seeked', 'ratechange'];
+    events.forEach(event => audio.addEventListener(event, updatePositionState));
+    return () => events.forEach(event => audio.removeEventListener(event, updatePositionState));
+  }, [audioRef]);
+}
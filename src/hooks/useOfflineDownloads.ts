@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  downloadBook,
+  getStorageEstimate,
+  isOfflineSupported,
+  listDownloads,
+  removeDownload,
+  removeRevokedDownloads,
+  type DownloadedBook,
+  type DownloadProgress,
+  type StorageEstimate
+} from '@/lib/offline/downloads';
+
+type DownloadArgs = Parameters<typeof downloadBook>;
+
+/**
+ * Books downloaded for offline listening on this device, with the storage
+ * they use. Downloads of books that are no longer published are removed
+ * when the hook mounts online.
+ */
+export function useOfflineDownloads() {
+  const [supported, setSupported] = useState(false);
+  const [downloads, setDownloads] = useState<DownloadedBook[]>([]);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [progress, setProgress] = useState<Record<string, DownloadProgress>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [books, estimate] = await Promise.all([listDownloads(), getStorageEstimate()]);
+      setDownloads(books);
+      setStorage(estimate);
+    } catch (err) {
+      console.warn('⚠️ Could not load downloads:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOfflineSupported()) return;
+    setSupported(true);
+
+    const load = async () => {
+      await removeRevokedDownloads();
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  const download = useCallback(async (book: DownloadArgs[0], chapters: DownloadArgs[1]) => {
+    setError(null);
+    try {
+      await downloadBook(book, chapters, update => setProgress(prev => ({ ...prev, [book.id]: update })));
+    } catch (err) {
+      console.error('❌ Error downloading book:', err);
+      setError(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setProgress(prev => {
+        const rest = { ...prev };
+        delete rest[book.id];
+        return rest;
+      });
+      await refresh();
+    }
+  }, [refresh]);
+
+  const remove = useCallback(async (bookId: string) => {
+    setError(null);
+    try {
+      await removeDownload(bookId);
+    } catch (err) {
+      console.error('❌ Error removing download:', err);
+      setError(err instanceof Error ? err.message : 'Could not remove download');
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  const isDownloaded = useCallback(
+    (bookId: string) => downloads.some(book => book.id === bookId),
+    [downloads]
+  );
+
+  return { supported, downloads, storage, progress, error, download, remove, isDownloaded, refresh };
+}
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+
+/**
+ * Continuity check across the chapters of a book. The model reads every
+ * chapter (or its summary, for books too long to send whole) and reports
+ * contradictions with short quotes; the editor finds each quote in the
+ * chapter text so a finding can jump straight to the passage.
+ */
+
+export type ContinuityIssueType = 'character' | 'timeline' | 'plot_thread' | 'repetition';
+
+// What the check was run on
+export type ContinuityBasis = 'text' | 'summaries';
+
+export interface ContinuityLocation {
+  chapterNumber: number;
+  // Verbatim excerpt of the chapter; may be empty for findings based on summaries
+  quote: string;
+}
+
+export interface ContinuityFinding {
+  type: ContinuityIssueType;
+  severity: 'error' | 'warning';
+  title: string;
+  explanation: string;
+  // Every place involved, e.g. both sides of a contradiction
+  locations: ContinuityLocation[];
+}
+
+// The last check of a book, kept while the editor is open
+export interface ContinuityReport {
+  findings: ContinuityFinding[];
+  basis: ContinuityBasis;
+  checkedAt: string;
+}
+
+export const CONTINUITY_ISSUE_TYPES: Record<ContinuityIssueType, { label: string; description: string }> = {
+  character: { label: 'Characters', description: 'Names, traits or relationships that change between chapters' },
+  timeline: { label: 'Timeline', description: 'Events, dates or ages that cannot all be true' },
+  plot_thread: { label: 'Plot threads', description: 'Set-ups, promises or questions that are never picked up' },
+  repetition: { label: 'Repetition', description: 'Scenes, explanations or passages that appear more than once' }
+};
+
+// Full chapter text is sent up to this many characters in total; longer books are checked from summaries
+export const CONTINUITY_FULL_TEXT_LIMIT = 120000;
+
+const continuityFindingSchema = z.object({
+  type: z.enum(['character', 'timeline', 'plot_thread', 'repetition']),
+  severity: z.enum(['error', 'warning']).catch('warning'),
+  title: z.string().trim().min(1),
+  explanation: z.string().trim().default(''),
+  locations: z
+    .array(z.object({
+      chapterNumber: z.coerce.number().int().positive(),
+      quote: z.string().trim().default('')
+    }))
+    .min(1)
+});
+
+/**
+ * Parse the model's JSON array of findings. Findings that don't match the
+ * schema or point at chapters that don't exist are dropped.
+ */
+export function parseContinuityFindings(text: string, chapterCount: number): ContinuityFinding[] {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('[');
+  const end = unfenced.lastIndexOf(']');
+  if (start === -1 || end <= start) {
+    // No array at all means nothing was found only if the model said so
+    if (/\bno (continuity )?(issues|problems|findings)\b/i.test(unfenced)) return [];
+    throw new Error('The response did not contain a JSON array');
+  }
+
+  const parsed: unknown = JSON.parse(unfenced.slice(start, end + 1).replace(/,\s*([\]}])/g, '$1'));
+  if (!Array.isArray(parsed)) {
+    throw new Error('The response was not a JSON array');
+  }
+
+  return parsed.flatMap(item => {
+    const result = continuityFindingSchema.safeParse(item);
+    if (!result.success) return [];
+    const locations = result.data.locations.filter(location => location.chapterNumber <= chapterCount);
+    return locations.length > 0 ? [{ ...result.data, locations }] : [];
+  });
+}
+
+// Openings of a quote tried when the whole quote isn't in the text
+const PREFIX_LENGTHS = [60, 40, 25];
+const MIN_PREFIX_LENGTH = 15;
+
+// Lower-case, straight quotes, single spaces; `map` gives the source index of each output character
+function normalizeForSearch(text: string): { normalized: string; map: number[] } {
+  let normalized = '';
+  const map: number[] = [];
+  let lastWasSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i];
+    if (/\s/.test(char)) {
+      if (lastWasSpace) continue;
+      char = ' ';
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+      char = char.replace(/[‘’]/, "'").replace(/[“”]/, '"').replace(/[–—]/, '-').toLowerCase();
+    }
+    normalized += char;
+    map.push(i);
+  }
+
+  return { normalized, map };
+}
+
+/**
+ * Where a quoted passage is in the chapter text, or null when it can't be
+ * found. Tolerates differences in whitespace, case and quote style, and
+ * falls back to the start of the quote when the model changed its ending.
+ */
+export function locatePassage(content: string, quote: string): { start: number; end: number } | null {
+  const trimmed = quote.trim().replace(/^["']|["']$/g, '').replace(/^\.\.\.|\.\.\.$/g, '').trim();
+  if (!trimmed) return null;
+
+  const exact = content.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const source = normalizeForSearch(content);
+  const target = normalizeForSearch(trimmed).normalized;
+
+  // Whole quote first, then shorter openings cut at a word boundary
+  const candidates = [target, ...PREFIX_LENGTHS.filter(length => length < target.length).map(length => target.slice(0, target.lastIndexOf(' ', length)))];
+
+  for (const candidate of candidates) {
+    if (candidate.length < MIN_PREFIX_LENGTH) continue;
+    const index = source.normalized.indexOf(candidate);
+    if (index !== -1) {
+      const start = source.map[index];
+      const end = source.map[index + candidate.length - 1] + 1;
+      return { start, end };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+
+/**
+ * Outline validation and repair. The outline model is asked for a JSON array
+ * with an exact number of chapters, but it sometimes wraps the JSON in prose,
+ * leaves trailing commas, misnumbers chapters or misses the length limits.
+ * Mechanical problems are repaired here; the rest are reported as issues the
+ * route feeds back to the model for another attempt.
+ */
+
+export const OUTLINE_TITLE_MAX_LENGTH = 50;
+export const OUTLINE_SUMMARY_WORDS = { min: 100, max: 150 };
+// Summaries a little outside the requested range are still usable
+const SUMMARY_WORD_TOLERANCE = 20;
+const DEFAULT_ESTIMATED_WORD_COUNT = 3000;
+
+export type OutlineErrorCode =
+  | 'invalid_request'
+  | 'not_configured'
+  | 'rate_limited'
+  | 'malformed_output'
+  | 'ai_unavailable';
+
+export const OUTLINE_ERROR_STATUS: Record<OutlineErrorCode, number> = {
+  invalid_request: 400,
+  not_configured: 500,
+  rate_limited: 429,
+  malformed_output: 502,
+  ai_unavailable: 502
+};
+
+// Thrown by the outline route and rethrown by the client from its response
+export class OutlineError extends Error {
+  constructor(
+    public readonly code: OutlineErrorCode,
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'OutlineError';
+  }
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+const outlineChapterSchema = z.object({
+  chapterNumber: z.number().int().positive(),
+  title: z.string().trim().min(1, 'title is empty').max(OUTLINE_TITLE_MAX_LENGTH, `title is longer than ${OUTLINE_TITLE_MAX_LENGTH} characters`),
+  summary: z.string().trim().superRefine((summary, ctx) => {
+    const words = countWords(summary);
+    if (words < OUTLINE_SUMMARY_WORDS.min - SUMMARY_WORD_TOLERANCE || words > OUTLINE_SUMMARY_WORDS.max + SUMMARY_WORD_TOLERANCE) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `summary is ${words} words, expected ${OUTLINE_SUMMARY_WORDS.min}-${OUTLINE_SUMMARY_WORDS.max}`
+      });
+    }
+  }),
+  keyPoints: z.array(z.string().trim().min(1)),
+  estimatedWordCount: z.number().int().positive()
+});
+
+export type OutlineChapter = z.infer<typeof outlineChapterSchema>;
+
+function outlineSchema(chapterCount: number) {
+  return z
+    .array(outlineChapterSchema)
+    .length(chapterCount, `expected exactly ${chapterCount} chapters`);
+}
+
+// Pull the JSON array out of the response, tolerating code fences, surrounding prose and trailing commas
+function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('[');
+  const end = unfenced.lastIndexOf(']');
+  if (start === -1 || end <= start) {
+    throw new OutlineError('malformed_output', 'The response did not contain a JSON array', ['response is not a JSON array']);
+  }
+
+  const json = unfenced.slice(start, end + 1).replace(/,\s*([\]}])/g, '$1');
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    throw new OutlineError('malformed_output', 'The response was not valid JSON', [`response is not valid JSON (${reason})`]);
+  }
+}
+
+function shortenTitle(title: string): string {
+  if (title.length <= OUTLINE_TITLE_MAX_LENGTH) return title;
+  const cut = title.slice(0, OUTLINE_TITLE_MAX_LENGTH + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > OUTLINE_TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut.slice(0, OUTLINE_TITLE_MAX_LENGTH)).replace(/[\s,;:–-]+$/, '');
+}
+
+// Fix what can be fixed without the model: numbering, types, missing optional fields, long titles
+function repairChapter(value: unknown, index: number): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const chapter = value as Record<string, unknown>;
+
+  const keyPoints = Array.isArray(chapter.keyPoints)
+    ? chapter.keyPoints.filter((point): point is string => typeof point === 'string')
+    : typeof chapter.keyPoints === 'string'
+    ? chapter.keyPoints.split(/\n|;/).map(point => point.replace(/^\s*[-•*]\s*/, '').trim()).filter(Boolean)
+    : [];
+  const estimatedWordCount = Math.round(Number(chapter.estimatedWordCount));
+
+  return {
+    ...chapter,
+    chapterNumber: index + 1,
+    title: typeof chapter.title === 'string' ? shortenTitle(chapter.title.trim()) : chapter.title,
+    keyPoints,
+    estimatedWordCount: estimatedWordCount > 0 ? estimatedWordCount : DEFAULT_ESTIMATED_WORD_COUNT
+  };
+}
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const [index, field] = issue.path;
+    if (typeof index === 'number') {
+      return `chapter ${index + 1}${field ? ` ${String(field)}` : ''}: ${issue.message}`;
+    }
+    return issue.message;
+  });
+}
+
+/**
+ * Parse, repair and validate an outline response. Throws an OutlineError
+ * with code 'malformed_output' listing every remaining problem.
+ */
+export function parseOutline(text: string, chapterCount: number): OutlineChapter[] {
+  const parsed = extractJson(text);
+  if (!Array.isArray(parsed)) {
+    throw new OutlineError('malformed_output', 'The response was not a JSON array', ['response is not a JSON array']);
+  }
+
+  const result = outlineSchema(chapterCount).safeParse(parsed.map(repairChapter));
+  if (!result.success) {
+    const issues = describeIssues(result.error);
+    throw new OutlineError('malformed_output', `The outline did not match the requested format: ${issues.slice(0, 3).join('; ')}`, issues);
+  }
+
+  return result.data;
+}
+
+// How an outline chapter is stored in chapters.outline_content
+export function formatOutlineContent(chapter: Pick<OutlineChapter, 'summary'> & { keyPoints?: string[] }): string {
+  return `${chapter.summary || ''}\n\nKey Points:\n${chapter.keyPoints ? chapter.keyPoints.map(point => `• ${point}`).join('\n') : ''}`;
+}
+
+// ---------------------------------------------------------------------------
+// Outline revision
+// ---------------------------------------------------------------------------
+
+export type OutlineRevisionOperation = 'regenerate' | 'insert' | 'split' | 'merge';
+
+export interface OutlineRevisionRequest {
+  operation: OutlineRevisionOperation;
+  // regenerate, split: the chapter to replace
+  // insert: the new chapter goes after this one (0 for before the first chapter)
+  // merge: this chapter is combined with the one after it
+  chapterNumber: number;
+  instructions?: string;
+}
+
+// Number of chapters each operation produces
+export const OUTLINE_REVISION_CHAPTERS: Record<OutlineRevisionOperation, number> = {
+  regenerate: 1,
+  insert: 1,
+  split: 2,
+  merge: 1
+};
+
+// Problem with the request against an outline of the given length, or null when it is valid
+export function validateRevisionRequest(request: OutlineRevisionRequest, chapterCount: number): string | null {
+  const { operation, chapterNumber } = request;
+
+  if (!Object.hasOwn(OUTLINE_REVISION_CHAPTERS, operation)) return `Unknown outline operation: ${operation}`;
+  if (!Number.isInteger(chapterNumber)) return 'Chapter number must be a whole number';
+  if (operation === 'insert') {
+    return chapterNumber >= 0 && chapterNumber <= chapterCount ? null : `Cannot insert after chapter ${chapterNumber}`;
+  }
+  if (chapterNumber < 1 || chapterNumber > chapterCount) return `Chapter ${chapterNumber} does not exist`;
+  if (operation === 'merge' && chapterNumber === chapterCount) return 'The last chapter has no following chapter to merge with';
+  return null;
+}
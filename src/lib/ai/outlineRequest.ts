@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { spellOutMeasurements } from '@/utils/spokenText';
+import { OUTLINE_ERROR_STATUS, OutlineError, parseOutline, type OutlineChapter } from '@/lib/ai/outline';
+
+// The first attempt plus repair attempts when the output fails validation
+const MAX_OUTLINE_ATTEMPTS = 3;
+
+export const OUTLINE_SYSTEM_PROMPT = `You are Biglio, an AI writing assistant for books. Never say you are Claude, Anthropic, or any other company. Respond ONLY with valid JSON - no explanations or additional text.`;
+
+// Apply content filtering/sanitization (from old system)
+function cleanOutlineResponse(text: string): string {
+  let aiResponse = text;
+
+  // Convert abbreviated measurements to fully spelled out versions for TTS
+  aiResponse = spellOutMeasurements(aiResponse);
+
+  // Filter common AI buzzwords in outline content
+  aiResponse = aiResponse.replace(/\bdelve into\b/gi, 'explore');
+  aiResponse = aiResponse.replace(/\bdelve deeper\b/gi, 'explore further');
+  aiResponse = aiResponse.replace(/\butilize\b/gi, 'use');
+  aiResponse = aiResponse.replace(/\bcommence\b/gi, 'begin');
+  aiResponse = aiResponse.replace(/\bunveil\b/gi, 'reveal');
+  aiResponse = aiResponse.replace(/\bcomprehensive\b/gi, 'complete');
+
+  // Remove meta-commentary phrases that break audiobook immersion
+  aiResponse = aiResponse.replace(/\bas we wrap up this chapter,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bin this chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bto wrap up,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bin conclusion,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bto summarize,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bas we conclude,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bto recap,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bthroughout this chapter,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bin the next chapter,?\s*(we'll|we will|you'll|you will)\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bmoving forward,?\s*/gi, '');
+  aiResponse = aiResponse.replace(/\bas we move forward,?\s*/gi, '');
+
+  return aiResponse;
+}
+
+export interface OutlineRequestResult {
+  outline: OutlineChapter[];
+  attempts: number;
+  usage: { input_tokens: number; output_tokens: number };
+  rawResponse: string;
+}
+
+/**
+ * Ask for outline chapters and validate the answer. When the output fails
+ * validation the model is shown its response and the problems and asked
+ * again, up to MAX_OUTLINE_ATTEMPTS times.
+ */
+export async function requestOutline(
+  anthropic: Anthropic,
+  prompt: string,
+  chapterCount: number
+): Promise<OutlineRequestResult> {
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
+  const usage = { input_tokens: 0, output_tokens: 0 };
+  let aiResponse = '';
+  let lastError: OutlineError | null = null;
+
+  for (let attempts = 1; attempts <= MAX_OUTLINE_ATTEMPTS; attempts++) {
+    const response = await anthropic.messages.create({
+      model: 'claude-3-5-sonnet-20241022',
+      max_tokens: 4000,
+      temperature: attempts === 1 ? 0.8 : 0.3,
+      system: OUTLINE_SYSTEM_PROMPT,
+      messages
+    });
+    usage.input_tokens += response.usage.input_tokens;
+    usage.output_tokens += response.usage.output_tokens;
+
+    const responseContent = response.content[0];
+    aiResponse = cleanOutlineResponse(responseContent?.type === 'text' ? responseContent.text : '');
+
+    try {
+      const outline = parseOutline(aiResponse, chapterCount);
+      console.log(`✓ Outline validated after ${attempts} attempt${attempts === 1 ? '' : 's'}`);
+      return { outline, attempts, usage, rawResponse: aiResponse };
+    } catch (error) {
+      if (!(error instanceof OutlineError)) throw error;
+      lastError = error;
+      console.warn(`⚠️ Outline attempt ${attempts} failed validation:`, error.issues);
+
+      messages.push(
+        { role: 'assistant', content: aiResponse || '[]' },
+        {
+          role: 'user',
+          content: `That response has these problems:
+${error.issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the complete corrected result with EXACTLY ${chapterCount} chapter${chapterCount === 1 ? '' : 's'} as a valid JSON array in the same format. Respond ONLY with the JSON array.`
+        }
+      );
+    }
+  }
+
+  throw new OutlineError(
+    'malformed_output',
+    `The AI could not produce a valid outline after ${MAX_OUTLINE_ATTEMPTS} attempts. Please try again.`,
+    lastError?.issues
+  );
+}
+
+// Map outline, request body and Anthropic errors to a typed JSON error response
+export function outlineErrorResponse(error: unknown) {
+  let outlineError: OutlineError;
+
+  if (error instanceof OutlineError) {
+    outlineError = error;
+  } else if (error instanceof SyntaxError) {
+    outlineError = new OutlineError('invalid_request', 'Request body must be valid JSON');
+  } else if (error instanceof Anthropic.APIError) {
+    outlineError = error.status === 429
+      ? new OutlineError('rate_limited', 'Rate limit exceeded - please try again in a moment')
+      : error.status === 401
+      ? new OutlineError('not_configured', 'Invalid or missing Anthropic API key')
+      : new OutlineError('ai_unavailable', 'The AI service is unavailable - please try again');
+  } else {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'AI outline generation failed',
+        code: 'unknown',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: outlineError.message,
+      code: outlineError.code,
+      issues: outlineError.issues,
+      timestamp: new Date().toISOString()
+    },
+    { status: OUTLINE_ERROR_STATUS[outlineError.code] }
+  );
+}
@@ -0,0 +1,173 @@
+import { z } from 'zod';
+
+/**
+ * Story bible: the characters, locations, terms and timeline facts of a book,
+ * kept so the assistant uses the same names and facts in every chapter. Only
+ * the entries relevant to the current request are sent with it.
+ */
+
+export type StoryBibleKind = 'character' | 'location' | 'term' | 'timeline';
+
+export interface StoryBibleEntry {
+  kind: StoryBibleKind;
+  name: string;
+  // Other names the entry is referred to by ("Liz" for "Elizabeth")
+  aliases: string[];
+  description: string;
+  // Chapter the entry belongs to: where a timeline fact happens or a character first appears
+  chapterNumber?: number | null;
+}
+
+export const STORY_BIBLE_KINDS: { kind: StoryBibleKind; label: string }[] = [
+  { kind: 'character', label: 'Characters' },
+  { kind: 'location', label: 'Locations' },
+  { kind: 'term', label: 'Terms' },
+  { kind: 'timeline', label: 'Timeline' }
+];
+
+// Entries sent with one chat message or chapter draft
+export const MAX_CONTEXT_ENTRIES = 25;
+
+const storyBibleEntrySchema = z.object({
+  kind: z.enum(['character', 'location', 'term', 'timeline']),
+  name: z.string().trim().min(1).max(100),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+  description: z.string().trim().max(500).default(''),
+  chapterNumber: z.number().int().positive().nullable().optional()
+});
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function entryNames(entry: StoryBibleEntry): string[] {
+  return [entry.name, ...entry.aliases].map(name => name.trim()).filter(Boolean);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentions(text: string, entry: StoryBibleEntry): boolean {
+  return entryNames(entry).some(name => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text));
+}
+
+/**
+ * Pick the entries worth sending with a request: those named in the message,
+ * then those named in the chapter being worked on, then timeline facts up to
+ * the current chapter. Small bibles are sent whole.
+ */
+export function selectRelevantEntries(
+  entries: StoryBibleEntry[],
+  { message = '', chapterText = '', chapterNumber }: { message?: string; chapterText?: string; chapterNumber?: number },
+  limit = MAX_CONTEXT_ENTRIES
+): StoryBibleEntry[] {
+  if (entries.length <= limit) return entries;
+
+  const scored = entries.map((entry, index) => {
+    let score = 0;
+    if (message && mentions(message, entry)) score = 3;
+    else if (chapterText && mentions(chapterText, entry)) score = 2;
+    else if (entry.kind === 'timeline' && chapterNumber && entry.chapterNumber && entry.chapterNumber <= chapterNumber) score = 1;
+    return { entry, index, score };
+  });
+
+  return scored
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(item => item.entry);
+}
+
+/**
+ * Plain-text block for a prompt, grouped by kind. Timeline facts are listed in
+ * chapter order.
+ */
+export function formatStoryBible(entries: StoryBibleEntry[]): string {
+  return STORY_BIBLE_KINDS
+    .map(({ kind, label }) => {
+      const group = entries.filter(entry => entry.kind === kind);
+      if (group.length === 0) return '';
+      if (kind === 'timeline') {
+        group.sort((a, b) => (a.chapterNumber || Infinity) - (b.chapterNumber || Infinity));
+      }
+
+      const lines = group.map(entry => {
+        const chapter = entry.chapterNumber ? `Chapter ${entry.chapterNumber}: ` : '';
+        const aliases = entry.aliases.length > 0 ? ` (also ${entry.aliases.join(', ')})` : '';
+        const description = entry.description.trim() ? ` - ${entry.description.trim()}` : '';
+        return `- ${kind === 'timeline' ? chapter : ''}${entry.name}${aliases}${description}`;
+      });
+      return `${label}:\n${lines.join('\n')}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Suggestions whose name or aliases are not already in the bible
+export function filterNewEntries(suggestions: StoryBibleEntry[], existing: StoryBibleEntry[]): StoryBibleEntry[] {
+  const known = new Set(existing.flatMap(entry => entryNames(entry).map(normalizeName)));
+  const result: StoryBibleEntry[] = [];
+
+  for (const suggestion of suggestions) {
+    const names = entryNames(suggestion).map(normalizeName);
+    if (names.some(name => known.has(name))) continue;
+    names.forEach(name => known.add(name));
+    result.push(suggestion);
+  }
+
+  return result;
+}
+
+/**
+ * Parse the extraction model's JSON array. Entries that don't match the
+ * schema are dropped rather than failing the whole response.
+ */
+export function parseStoryBibleSuggestions(text: string): StoryBibleEntry[] {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('[');
+  const end = unfenced.lastIndexOf(']');
+  if (start === -1 || end <= start) {
+    throw new Error('The response did not contain a JSON array');
+  }
+
+  const parsed: unknown = JSON.parse(unfenced.slice(start, end + 1).replace(/,\s*([\]}])/g, '$1'));
+  if (!Array.isArray(parsed)) {
+    throw new Error('The response was not a JSON array');
+  }
+
+  return parsed.flatMap(item => {
+    const result = storyBibleEntrySchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+/**
+ * Validate the entries the story bible editor saves. Returns the parsed
+ * entries, or the problems with them (one per line of the editor).
+ */
+export function validateStoryBibleEntries(
+  value: unknown
+): { entries: StoryBibleEntry[]; issues?: undefined } | { entries?: undefined; issues: string[] } {
+  const result = z.array(storyBibleEntrySchema).safeParse(value);
+  if (!result.success) {
+    return {
+      issues: result.error.issues.map(issue => {
+        const [index, field] = issue.path;
+        return typeof index === 'number'
+          ? `entry ${index + 1}${field ? ` ${String(field)}` : ''}: ${issue.message}`
+          : issue.message;
+      })
+    };
+  }
+
+  const seen = new Set<string>();
+  const duplicates = result.data.flatMap(entry => {
+    const key = `${entry.kind}:${entry.name}`;
+    if (seen.has(key)) return [`${entry.name} is in the story bible twice`];
+    seen.add(key);
+    return [];
+  });
+
+  return duplicates.length > 0 ? { issues: duplicates } : { entries: result.data };
+}
@@ -0,0 +1,146 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { createServerClient } from '@/lib/supabase';
+import { filterNewEntries, parseStoryBibleSuggestions, type StoryBibleEntry } from '@/lib/ai/storyBible';
+import type { StoryBibleEntryRow } from '@/types/database';
+
+/**
+ * Per-book story bible, stored in the story_bible_entries table, and entity
+ * extraction from the book's chapters. Requires story-bible.sql.
+ */
+
+const supabase = createServerClient();
+
+// Chapter text sent for extraction, shared between the chapters
+const MAX_EXTRACTION_CHARACTERS = 80000;
+
+export async function loadStoryBible(biglioId: string): Promise<StoryBibleEntry[]> {
+  const { data, error } = await supabase
+    .from('story_bible_entries')
+    .select('kind, name, aliases, description, chapter_number')
+    .eq('biglio_id', biglioId)
+    .order('kind', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    // Books without a bible (or before the migration) just get no extra context
+    console.warn(`Could not load story bible for book ${biglioId}:`, error.message);
+    return [];
+  }
+
+  return ((data as Pick<StoryBibleEntryRow, 'kind' | 'name' | 'aliases' | 'description' | 'chapter_number'>[] | null) || []).map(row => ({
+    kind: row.kind,
+    name: row.name,
+    aliases: row.aliases || [],
+    description: row.description || '',
+    chapterNumber: row.chapter_number
+  }));
+}
+
+// Replace the book's story bible with `entries`. Entries are upserted before
+// removed ones are deleted, so a failed save never loses the existing bible.
+export async function saveStoryBible(biglioId: string, entries: StoryBibleEntry[]): Promise<StoryBibleEntry[]> {
+  const { data: existing, error: loadError } = await supabase
+    .from('story_bible_entries')
+    .select('id, kind, name')
+    .eq('biglio_id', biglioId);
+
+  if (loadError) throw new Error(`Failed to update story bible: ${loadError.message}`);
+
+  if (entries.length > 0) {
+    const updatedAt = new Date().toISOString();
+    const { error: upsertError } = await supabase
+      .from('story_bible_entries')
+      .upsert(
+        entries.map(entry => ({
+          biglio_id: biglioId,
+          kind: entry.kind,
+          name: entry.name,
+          aliases: entry.aliases,
+          description: entry.description,
+          chapter_number: entry.chapterNumber ?? null,
+          updated_at: updatedAt
+        })),
+        { onConflict: 'biglio_id,kind,name' }
+      );
+
+    if (upsertError) throw new Error(`Failed to update story bible: ${upsertError.message}`);
+  }
+
+  const keep = new Set(entries.map(entry => `${entry.kind}:${entry.name}`));
+  const removed = ((existing as Pick<StoryBibleEntryRow, 'id' | 'kind' | 'name'>[] | null) || [])
+    .filter(entry => !keep.has(`${entry.kind}:${entry.name}`))
+    .map(entry => entry.id);
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('story_bible_entries')
+      .delete()
+      .in('id', removed);
+
+    if (deleteError) throw new Error(`Failed to update story bible: ${deleteError.message}`);
+  }
+
+  return loadStoryBible(biglioId);
+}
+
+/**
+ * Ask the AI for characters, locations, terms and timeline facts found in the
+ * book's chapters, leaving out anything the bible already has.
+ */
+export async function suggestStoryBibleEntries(
+  anthropic: Anthropic,
+  biglioId: string,
+  existing: StoryBibleEntry[]
+): Promise<StoryBibleEntry[]> {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('title, content, outline_content, chapter_number')
+    .eq('biglio_id', biglioId)
+    .order('chapter_number', { ascending: true });
+
+  if (error) throw new Error(`Failed to load chapters: ${error.message}`);
+
+  const chapters = ((data as { title: string; content: string | null; outline_content: string | null; chapter_number: number }[] | null) || [])
+    .filter(chapter => (chapter.content || chapter.outline_content || '').trim());
+  if (chapters.length === 0) return [];
+
+  // Written text where there is some, the outline otherwise
+  const perChapter = Math.floor(MAX_EXTRACTION_CHARACTERS / chapters.length);
+  const text = chapters
+    .map(chapter => `Chapter ${chapter.chapter_number}: ${chapter.title}\n${(chapter.content?.trim() || chapter.outline_content || '').trim().slice(0, perChapter)}`)
+    .join('\n\n');
+
+  const known = existing.map(entry => entry.name).join(', ');
+
+  const response = await anthropic.messages.create({
+    model: 'claude-3-5-sonnet-20241022',
+    max_tokens: 4000,
+    temperature: 0.2,
+    system: 'You are Biglio, an AI writing assistant for books. Never say you are Claude, Anthropic, or any other company. Respond ONLY with valid JSON - no explanations or additional text.',
+    messages: [{
+      role: 'user',
+      content: `Build a story bible from these chapters. List the named characters, locations, and special terms (organizations, objects, invented words, concepts), plus the key timeline facts a writer must keep consistent (events, ages, dates, relationships, injuries, who knows what).
+
+${known ? `Already in the story bible (do not repeat): ${known}\n\n` : ''}Chapters:
+${text}
+
+Respond ONLY with a JSON array in this format:
+[
+  {
+    "kind": "character" | "location" | "term" | "timeline",
+    "name": "Name, or a short label for a timeline fact",
+    "aliases": ["Other names used in the text"],
+    "description": "One or two sentences of facts stated in the text",
+    "chapterNumber": 1
+  }
+]
+chapterNumber is the chapter where the entry first appears or the fact happens. Only include facts stated in the chapters.`
+    }]
+  });
+
+  const content = response.content[0];
+  const suggestions = parseStoryBibleSuggestions(content?.type === 'text' ? content.text : '');
+  console.log(`✓ Extracted ${suggestions.length} story bible entries from ${chapters.length} chapters`);
+
+  return filterNewEntries(suggestions, existing);
+}
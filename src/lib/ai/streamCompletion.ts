@@ -0,0 +1,59 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { encodeServerSentEvent, SSE_HEADERS } from '@/lib/sse';
+
+/**
+ * Stream an Anthropic completion to the browser as server-sent events:
+ * `token` events carrying raw text deltas, then one `done` event built by
+ * onDone from the full text. Failures after the stream has started arrive as
+ * an `error` event. If the client disconnects the Anthropic request is
+ * aborted so no further tokens are billed.
+ */
+export function streamCompletion(
+  anthropic: Anthropic,
+  params: Anthropic.Messages.MessageCreateParamsNonStreaming,
+  signal: AbortSignal,
+  onDone: (text: string, message: Anthropic.Messages.Message) => Record<string, unknown>
+): Response {
+  const messageStream = anthropic.messages.stream(params);
+  const abort = () => messageStream.abort();
+  signal.addEventListener('abort', abort);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of messageStream) {
+          if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            controller.enqueue(encodeServerSentEvent('token', { text: event.delta.text }));
+          }
+        }
+
+        const finalMessage = await messageStream.finalMessage();
+        const text = finalMessage.content
+          .map(block => (block.type === 'text' ? block.text : ''))
+          .join('');
+
+        controller.enqueue(encodeServerSentEvent('done', onDone(text, finalMessage)));
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('AI stream error:', error);
+          controller.enqueue(encodeServerSentEvent('error', {
+            error: 'AI request failed',
+            details: error instanceof Error ? error.message : 'Unknown error'
+          }));
+        }
+      } finally {
+        signal.removeEventListener('abort', abort);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a client disconnect
+        }
+      }
+    },
+    cancel() {
+      abort();
+    }
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
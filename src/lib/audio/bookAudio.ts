@@ -0,0 +1,181 @@
+import { createServerClient } from '@/lib/supabase';
+import { getTtsProvider } from '@/lib/audio/providers';
+import { planSynthesis, type PlannedChunk } from '@/lib/audio/tts';
+import { enqueueAudioJob } from '@/lib/audio/jobQueue';
+import { loadBookCast } from '@/lib/audio/cast';
+import { getLoudnessTarget } from '@/lib/audio/mastering';
+import { chapterIntroText, channelOutroText, resolveNarrationSettings } from '@/lib/audio/narrationSettings';
+import type { AudioAlignment } from '@/types/database';
+
+/**
+ * Whole-book audio generation: works out which chapters need (re)generating
+ * and what that will cost, then queues them on the audio job queue.
+ */
+
+export type ChapterAudioState = 'ready' | 'missing' | 'stale' | 'failed' | 'generating' | 'empty';
+
+export interface ChapterAudioPlan {
+  id: string;
+  title: string;
+  chapterNumber: number;
+  state: ChapterAudioState;
+  characters: number;
+  // Characters that will actually be sent to the provider; paragraphs that
+  // are unchanged since the last generation are reused for free
+  billableCharacters: number;
+}
+
+export interface BookAudioPlan {
+  bookId: string;
+  voice: string;
+  provider: string;
+  audioReady: boolean;
+  chapters: ChapterAudioPlan[];
+  chaptersToGenerate: number;
+  totalCharacters: number;
+  billableCharacters: number;
+  estimatedCostUsd: number;
+}
+
+interface ChapterRow {
+  id: string;
+  title: string;
+  chapter_number: number;
+  content: string | null;
+  audio_url: string | null;
+  audio_status: string | null;
+  audio_alignment: AudioAlignment | null;
+}
+
+const supabase = createServerClient();
+
+// Silence in the existing audio differs from the planned pauses (frames are
+// ~26ms, so allow a little slack)
+function pausesChanged(planned: PlannedChunk[], alignment: AudioAlignment): boolean {
+  const plannedPauses = new Map(planned.map(chunk => [chunk.hash, chunk.pauseBeforeSeconds]));
+
+  return alignment.chunks.some((chunk, i) => {
+    if (i === 0 || !chunk.hash || !plannedPauses.has(chunk.hash)) return false;
+    const gap = chunk.startTime - alignment.chunks[i - 1].endTime;
+    return Math.abs(gap - plannedPauses.get(chunk.hash)!) > 0.05;
+  });
+}
+
+export function needsAudio(state: ChapterAudioState): boolean {
+  return state === 'missing' || state === 'stale' || state === 'failed';
+}
+
+export async function planBookAudio(bookId: string): Promise<BookAudioPlan> {
+  const { data: book, error: bookError } = await supabase
+    .from('biglios')
+    .select('id, title, voice_preference, narration_settings, audio_ready, channel:channels(display_name)')
+    .eq('id', bookId)
+    .single();
+
+  if (bookError || !book) {
+    throw new Error(`Book not found: ${bookId}`);
+  }
+
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('id, title, chapter_number, content, audio_url, audio_status, audio_alignment')
+    .eq('biglio_id', bookId)
+    .order('chapter_number', { ascending: true });
+
+  if (error) throw new Error(`Failed to load chapters: ${error.message}`);
+
+  const provider = getTtsProvider();
+  const voice = (book.voice_preference as string | null) || 'female';
+  const cast = await loadBookCast(bookId);
+  const narration = resolveNarrationSettings(book.narration_settings);
+  const loudnessTarget = await getLoudnessTarget();
+  const channel = book.channel as unknown as { display_name: string } | null;
+  const outro = narration.channelOutro ? channelOutroText(narration, book.title, channel?.display_name || 'Biglio') : undefined;
+
+  const chapters = ((data as unknown as ChapterRow[]) || []).map((chapter): ChapterAudioPlan => {
+    const content = chapter.content || '';
+    const base = {
+      id: chapter.id,
+      title: chapter.title,
+      chapterNumber: chapter.chapter_number,
+      characters: content.length
+    };
+
+    if (!content.trim()) {
+      return { ...base, state: 'empty', billableCharacters: 0 };
+    }
+
+    const planned = planSynthesis(content, voice, {
+      provider,
+      cast,
+      narration,
+      intro: narration.chapterIntro ? chapterIntroText(chapter.chapter_number, chapter.title || '') : undefined,
+      outro,
+      loudnessTarget
+    });
+    const existingHashes = new Set((chapter.audio_alignment?.chunks || []).map(chunk => chunk.hash));
+    const billableCharacters = planned
+      .filter(chunk => !existingHashes.has(chunk.hash))
+      .reduce((sum, chunk) => sum + chunk.text.length, 0);
+
+    let state: ChapterAudioState;
+    if (chapter.audio_status === 'generating') {
+      state = 'generating';
+    } else if (chapter.audio_status === 'failed') {
+      state = 'failed';
+    } else if (!chapter.audio_url) {
+      state = 'missing';
+    } else if (chapter.audio_alignment?.chunks.some(chunk => chunk.hash)) {
+      // Content, voice, cast or narration settings changed since the audio was generated
+      const changed = billableCharacters > 0 ||
+        planned.length !== chapter.audio_alignment.chunks.length ||
+        pausesChanged(planned, chapter.audio_alignment);
+      state = changed ? 'stale' : 'ready';
+    } else {
+      // Audio from before chunk hashes were recorded - assume it's current
+      state = 'ready';
+    }
+
+    return { ...base, state, billableCharacters: needsAudio(state) ? billableCharacters : 0 };
+  });
+
+  const toGenerate = chapters.filter(chapter => needsAudio(chapter.state));
+  const billableCharacters = toGenerate.reduce((sum, chapter) => sum + chapter.billableCharacters, 0);
+
+  return {
+    bookId,
+    voice,
+    provider: provider.name,
+    audioReady: !!book.audio_ready,
+    chapters,
+    chaptersToGenerate: toGenerate.length,
+    totalCharacters: toGenerate.reduce((sum, chapter) => sum + chapter.characters, 0),
+    billableCharacters,
+    estimatedCostUsd: (billableCharacters / 1_000_000) * provider.pricePerMillionCharacters
+  };
+}
+
+/**
+ * Queue every chapter that lacks audio or is stale (or just `chapterIds`,
+ * when given). Returns the queued job ids by chapter id.
+ */
+export async function queueBookAudio(bookId: string, chapterIds?: string[]): Promise<Record<string, string>> {
+  const plan = await planBookAudio(bookId);
+  const chapters = plan.chapters.filter(chapter =>
+    needsAudio(chapter.state) && (!chapterIds || chapterIds.includes(chapter.id))
+  );
+  const jobs: Record<string, string> = {};
+
+  if (chapters.length === 0) return jobs;
+
+  const { data } = await supabase
+    .from('chapters')
+    .select('id, content')
+    .in('id', chapters.map(chapter => chapter.id));
+
+  for (const row of (data as { id: string; content: string }[] | null) || []) {
+    jobs[row.id] = await enqueueAudioJob({ chapterId: row.id, text: row.content, voice: plan.voice });
+  }
+
+  return jobs;
+}
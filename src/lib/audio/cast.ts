@@ -0,0 +1,91 @@
+import { createServerClient } from '@/lib/supabase';
+import { detectSpeakerNames, type CastMember } from '@/lib/audio/dialogue';
+
+/**
+ * Per-book cast for multi-voice narration, stored in the book_cast table.
+ * Requires multi-voice-narration.sql.
+ */
+
+const supabase = createServerClient();
+
+export async function loadBookCast(biglioId: string): Promise<CastMember[]> {
+  const { data, error } = await supabase
+    .from('book_cast')
+    .select('name, aliases, voice')
+    .eq('biglio_id', biglioId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    // Books without a cast (or before the migration) narrate in a single voice
+    console.warn(`Could not load cast for book ${biglioId}:`, error.message);
+    return [];
+  }
+
+  return ((data as CastMember[] | null) || []).map(member => ({
+    name: member.name,
+    aliases: member.aliases || [],
+    voice: member.voice
+  }));
+}
+
+// Replace the book's cast with `cast`. Members are upserted before removed
+// names are deleted, so a failed save never loses the existing cast.
+export async function saveBookCast(biglioId: string, cast: CastMember[]): Promise<CastMember[]> {
+  const { data: existing, error: loadError } = await supabase
+    .from('book_cast')
+    .select('name')
+    .eq('biglio_id', biglioId);
+
+  if (loadError) throw new Error(`Failed to update cast: ${loadError.message}`);
+
+  if (cast.length > 0) {
+    const updatedAt = new Date().toISOString();
+    const { error: upsertError } = await supabase
+      .from('book_cast')
+      .upsert(
+        cast.map(member => ({
+          biglio_id: biglioId,
+          name: member.name,
+          aliases: member.aliases,
+          voice: member.voice,
+          updated_at: updatedAt
+        })),
+        { onConflict: 'biglio_id,name' }
+      );
+
+    if (upsertError) throw new Error(`Failed to update cast: ${upsertError.message}`);
+  }
+
+  const keep = new Set(cast.map(member => member.name));
+  const removed = ((existing as { name: string }[] | null) || [])
+    .map(member => member.name)
+    .filter(name => !keep.has(name));
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('book_cast')
+      .delete()
+      .eq('biglio_id', biglioId)
+      .in('name', removed);
+
+    if (deleteError) throw new Error(`Failed to update cast: ${deleteError.message}`);
+  }
+
+  return loadBookCast(biglioId);
+}
+
+// Speaker names found in the book's chapters that are not in the cast yet
+export async function suggestCastNames(biglioId: string, cast: CastMember[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('content')
+    .eq('biglio_id', biglioId)
+    .order('chapter_number', { ascending: true });
+
+  if (error) throw new Error(`Failed to load chapters: ${error.message}`);
+
+  const known = new Set(cast.flatMap(member => [member.name, member.name.split(/\s+/)[0], ...member.aliases]));
+  const text = ((data as { content: string | null }[] | null) || []).map(chapter => chapter.content || '').join('\n\n');
+
+  return detectSpeakerNames(text).filter(name => !known.has(name));
+}
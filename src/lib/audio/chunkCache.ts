@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import type { AudioAlignment } from '@/types/database';
+
+/**
+ * Per-chunk audio cache for incremental regeneration. Every synthesized chunk
+ * is keyed by a hash of exactly what was sent to the provider, and the chunk
+ * list (with byte ranges) is stored in the chapter's alignment map. When the
+ * chapter is regenerated, chunks whose key is unchanged are cut out of the
+ * existing chapter MP3 instead of being synthesized again.
+ */
+
+export interface ChunkCacheKeyInput {
+  provider: string;
+  voice: string;
+  // The normalized chunk text (SSML or plain) sent to the provider
+  text: string;
+  ssml: boolean;
+  languageCode: string;
+  speakingRate: number;
+  pitch: number;
+  // Loudness the chunk was normalized to, null when left as synthesized
+  loudnessTarget: number | null;
+}
+
+export interface ChunkCache {
+  get(hash: string): Buffer | undefined;
+  readonly size: number;
+}
+
+export interface PreviousChapterAudio {
+  audio: Buffer;
+  alignment: AudioAlignment;
+}
+
+export function chunkCacheKey({
+  provider,
+  voice,
+  text,
+  ssml,
+  languageCode,
+  speakingRate,
+  pitch,
+  loudnessTarget
+}: ChunkCacheKeyInput): string {
+  // Defaults are left out so chunks hashed before these settings existed still match
+  const settings = [
+    speakingRate,
+    pitch,
+    ...(languageCode === 'en-US' ? [] : [languageCode]),
+    ...(loudnessTarget === null ? [] : [`${loudnessTarget} LUFS`])
+  ];
+  return createHash('sha256')
+    .update(JSON.stringify([provider, voice, ssml, ...settings, text]))
+    .digest('hex');
+}
+
+// Chunks (and the silence between them) must fit the file and each chunk
+// must start on an MP3 frame or tag
+function matchesAudio(audio: Buffer, alignment: AudioAlignment): boolean {
+  let end = 0;
+  for (const chunk of alignment.chunks) {
+    if (chunk.byteOffset < end || chunk.byteOffset + chunk.byteLength > audio.length) return false;
+    const isFrame = audio[chunk.byteOffset] === 0xff && (audio[chunk.byteOffset + 1] & 0xe0) === 0xe0;
+    const isTag = audio.toString('latin1', chunk.byteOffset, chunk.byteOffset + 3) === 'ID3';
+    if (!isFrame && !isTag) return false;
+    end = chunk.byteOffset + chunk.byteLength;
+  }
+  return true;
+}
+
+/**
+ * Index the chunks of a previously generated chapter by hash. Returns an
+ * empty cache when the audio and alignment don't line up (older chapters
+ * without chunk hashes, or an MP3 replaced outside the job queue).
+ */
+export function createChunkCache(previous?: PreviousChapterAudio | null): ChunkCache {
+  const chunks = new Map<string, Buffer>();
+  const alignedChunks = previous?.alignment.chunks || [];
+
+  if (previous && matchesAudio(previous.audio, previous.alignment)) {
+    for (const chunk of alignedChunks) {
+      if (!chunk.hash) continue;
+      chunks.set(chunk.hash, previous.audio.subarray(chunk.byteOffset, chunk.byteOffset + chunk.byteLength));
+    }
+  }
+
+  return {
+    get: (hash: string) => chunks.get(hash),
+    get size() {
+      return chunks.size;
+    }
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Dialogue detection for multi-voice narration. Finds quoted speech in
+ * chapter text and attributes it to a cast member using speech tags
+ * ("...," Anna said), the characters named around the quote, and the
+ * back-and-forth of two-person conversations.
+ */
+
+export interface CastMember {
+  name: string;
+  aliases: string[];
+  // 'male' / 'female' or a provider voice id
+  voice: string;
+}
+
+export interface DialogueSpan {
+  // Character range of the quote in the source text, quote marks included
+  start: number;
+  end: number;
+  // Cast member name, or null when the speaker could not be worked out
+  speaker: string | null;
+}
+
+interface NamePattern {
+  pattern: RegExp;
+  name: string;
+}
+
+const SPEECH_VERBS = [
+  'said', 'says', 'asked', 'asks', 'replied', 'replies', 'answered', 'whispered', 'shouted', 'yelled',
+  'cried', 'called', 'muttered', 'murmured', 'added', 'continued', 'snapped', 'laughed', 'sighed',
+  'exclaimed', 'demanded', 'insisted', 'told', 'began', 'explained', 'admitted', 'agreed', 'protested',
+  'warned', 'growled', 'hissed', 'breathed', 'pleaded', 'offered', 'repeated', 'interrupted', 'stammered'
+].join('|');
+
+// Capitalized words that show up next to speech verbs but are not names
+const NOT_NAMES = new Set([
+  'He', 'She', 'They', 'I', 'It', 'We', 'You', 'The', 'Then', 'But', 'And', 'So', 'Someone', 'Everyone',
+  'Nobody', 'Somebody', 'His', 'Her', 'Their', 'My', 'Our', 'Your', 'A', 'An', 'This', 'That', 'When', 'As'
+]);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildNamePatterns(cast: CastMember[]): NamePattern[] {
+  const firstNames = new Map<string, string[]>();
+  for (const member of cast) {
+    const first = member.name.split(/\s+/)[0];
+    firstNames.set(first, [...(firstNames.get(first) || []), member.name]);
+  }
+
+  return cast.flatMap(member => {
+    const names = new Set([member.name, ...member.aliases.filter(Boolean)]);
+    // "Anna" also means "Anna Smith", unless two cast members share it
+    const first = member.name.split(/\s+/)[0];
+    if (first !== member.name && firstNames.get(first)!.length === 1) names.add(first);
+
+    return Array.from(names)
+      // Longest first so "Anna Smith" wins over "Anna"
+      .sort((a, b) => b.length - a.length)
+      .map(name => ({ pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`), name: member.name }));
+  });
+}
+
+function namesIn(text: string, patterns: NamePattern[]): string[] {
+  return Array.from(new Set(patterns.filter(({ pattern }) => pattern.test(text)).map(({ name }) => name)));
+}
+
+function nameGroup(patterns: NamePattern[]): string {
+  return patterns.map(({ pattern }) => pattern.source.slice(2, -2)).join('|');
+}
+
+// Quotes in one paragraph; an unclosed quote runs to the end of the paragraph
+function findQuotes(line: string): { start: number; end: number }[] {
+  const quotes: { start: number; end: number }[] = [];
+  let openAt: number | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (openAt === null && (char === '"' || char === '“')) {
+      openAt = i;
+    } else if (openAt !== null && (char === '"' || char === '”')) {
+      quotes.push({ start: openAt, end: i + 1 });
+      openAt = null;
+    }
+  }
+  if (openAt !== null) quotes.push({ start: openAt, end: line.length });
+
+  return quotes;
+}
+
+// Speaker named in a speech tag right after or right before a quote
+function speakerFromTag(before: string, after: string, patterns: NamePattern[]): string | null {
+  if (patterns.length === 0) return null;
+  const names = nameGroup(patterns);
+
+  const afterMatch =
+    after.match(new RegExp(`^[\\s,.!?—–-]*(?:${SPEECH_VERBS})\\s+(${names})\\b`)) ||
+    after.match(new RegExp(`^[\\s,.!?—–-]*(${names})\\s+(?:\\w+ly\\s+)?(?:${SPEECH_VERBS})\\b`));
+  const beforeMatch =
+    before.match(new RegExp(`\\b(${names})\\s+(?:\\w+ly\\s+)?(?:${SPEECH_VERBS})\\b[^"“]{0,30}$`)) ||
+    before.match(new RegExp(`\\b(${names})\\b[^.!?"“]{0,40}[:,]\\s*$`));
+  const match = afterMatch || beforeMatch;
+
+  return match ? namesIn(match[1], patterns)[0] || null : null;
+}
+
+/**
+ * Find every quote in the text and who says it. Each line is treated as a
+ * paragraph; one paragraph is assumed to hold one speaker.
+ */
+export function findDialogue(text: string, cast: CastMember[]): DialogueSpan[] {
+  const patterns = buildNamePatterns(cast);
+  const spans: DialogueSpan[] = [];
+  // Speakers of recent dialogue paragraphs, most recent last
+  const history: string[] = [];
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    const quotes = findQuotes(line);
+    if (quotes.length === 0) continue;
+
+    let speaker: string | null = null;
+    for (let i = 0; i < quotes.length && !speaker; i++) {
+      const before = line.slice(i > 0 ? quotes[i - 1].end : 0, quotes[i].start);
+      const after = line.slice(quotes[i].end, i < quotes.length - 1 ? quotes[i + 1].start : line.length);
+      speaker = speakerFromTag(before, after, patterns);
+    }
+
+    const narration = quotes
+      .reduceRight((rest, quote) => rest.slice(0, quote.start) + ' ' + rest.slice(quote.end), line)
+      .trim();
+
+    if (!speaker) {
+      // "Anna frowned. "What now?"" - the only character in the paragraph
+      const mentioned = namesIn(narration, patterns);
+      if (mentioned.length === 1) speaker = mentioned[0];
+    }
+
+    if (!speaker && !narration && history.length >= 2) {
+      // Untagged reply in a two-person exchange: the other person speaks
+      const [previous, last] = history.slice(-2);
+      if (previous !== last) speaker = previous;
+    }
+
+    if (speaker && history[history.length - 1] !== speaker) history.push(speaker);
+
+    for (const quote of quotes) {
+      spans.push({ start: lineStart + quote.start, end: lineStart + quote.end, speaker });
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Names that appear in speech tags, most frequent first. Used to suggest
+ * cast members for a book.
+ */
+export function detectSpeakerNames(text: string): string[] {
+  const counts = new Map<string, number>();
+  const name = "([A-Z][a-z'’]+(?:\\s[A-Z][a-z'’]+)?)";
+  const patterns = [
+    new RegExp(`["”][\\s,.!?—–-]*(?:${SPEECH_VERBS})\\s+${name}`, 'g'),
+    new RegExp(`["”][\\s,.!?—–-]*${name}\\s+(?:\\w+ly\\s+)?(?:${SPEECH_VERBS})\\b`, 'g'),
+    new RegExp(`${name}\\s+(?:\\w+ly\\s+)?(?:${SPEECH_VERBS})[^"“]{0,20}[,:]\\s*["“]`, 'g')
+  ];
+
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const candidate = match[1].trim();
+      if (NOT_NAMES.has(candidate.split(/\s+/)[0])) continue;
+      counts.set(candidate, (counts.get(candidate) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([candidate]) => candidate);
+}
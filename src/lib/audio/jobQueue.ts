@@ -0,0 +1,444 @@
+import { randomUUID } from 'crypto';
+import { createServerClient } from '@/lib/supabase';
+import { performTextToSpeech } from '@/lib/audio/tts';
+import { parseMp3 } from '@/lib/audio/mp3';
+import { loadBookCast } from '@/lib/audio/cast';
+import {
+  DEFAULT_NARRATION_SETTINGS,
+  chapterIntroText,
+  channelOutroText,
+  resolveNarrationSettings
+} from '@/lib/audio/narrationSettings';
+import type { PreviousChapterAudio } from '@/lib/audio/chunkCache';
+import type { AudioAlignment, NarrationSettings } from '@/types/database';
+
+/**
+ * Durable audio job queue on top of the audio_jobs table.
+ * Requires audio-job-queue.sql (claim_audio_job function + queue columns).
+ *
+ * Job lifecycle: pending -> processing -> completed | failed
+ * A failed attempt goes back to pending with an exponential backoff until
+ * max_attempts is reached.
+ */
+
+// How long a worker may hold a job without reporting progress
+const LEASE_SECONDS = 120;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 15 * 60;
+
+export interface QueuedAudioJob {
+  id: string;
+  chapter_id: string;
+  biglio_id?: string | null;
+  chapter_text: string;
+  voice_type?: string | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface EnqueueAudioJobOptions {
+  chapterId: string;
+  text: string;
+  voice?: string;
+}
+
+interface ProcessAudioJobsOptions {
+  maxJobs?: number;
+  // Stop claiming new jobs once this much time has passed
+  timeBudgetMs?: number;
+}
+
+// Thrown when the worker no longer holds a job's lease, because it expired
+// and the job was reclaimed or given up on
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lease on audio job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+const supabase = createServerClient();
+
+// Storage path of a file in the audio-files bucket from its public URL
+function audioStoragePath(url: string): string | null {
+  const marker = '/audio-files/';
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+}
+
+// Remove an audio file nothing points at any more
+async function removeAudioFile(path: string) {
+  const { error } = await supabase.storage.from('audio-files').remove([path]);
+  if (error) console.warn(`⚠️ Could not remove audio file ${path}:`, error.message);
+}
+
+function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Add a chapter to the queue. If the chapter already has a job waiting to run,
+ * that job is updated with the latest text instead of queueing a duplicate.
+ * Returns the job id.
+ */
+export async function enqueueAudioJob({ chapterId, text, voice = 'female' }: EnqueueAudioJobOptions): Promise<string> {
+  const { data: chapter, error: chapterError } = await supabase
+    .from('chapters')
+    .select('id, biglio_id')
+    .eq('id', chapterId)
+    .single();
+
+  if (chapterError || !chapter) {
+    throw new Error(`Chapter not found: ${chapterId}`);
+  }
+
+  const { data: pendingJob } = await supabase
+    .from('audio_jobs')
+    .select('id')
+    .eq('chapter_id', chapterId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let jobId: string;
+
+  if (pendingJob) {
+    const { error } = await supabase
+      .from('audio_jobs')
+      .update({
+        chapter_text: text,
+        voice_type: voice,
+        attempts: 0,
+        progress: 0,
+        run_after: new Date().toISOString(),
+        error_message: null
+      })
+      .eq('id', pendingJob.id);
+
+    if (error) throw new Error(`Failed to update queued job: ${error.message}`);
+    jobId = pendingJob.id as string;
+  } else {
+    const { data: job, error } = await supabase
+      .from('audio_jobs')
+      .insert({
+        chapter_id: chapterId,
+        biglio_id: chapter.biglio_id,
+        chapter_text: text,
+        voice_type: voice,
+        status: 'pending',
+        progress: 0
+      })
+      .select('id')
+      .single();
+
+    if (error || !job) throw new Error(`Failed to queue audio job: ${error?.message}`);
+    jobId = job.id as string;
+  }
+
+  await supabase
+    .from('chapters')
+    .update({ audio_status: 'generating' })
+    .eq('id', chapterId);
+
+  return jobId;
+}
+
+async function claimNextJob(workerId: string): Promise<QueuedAudioJob | null> {
+  const { data, error } = await supabase.rpc('claim_audio_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: LEASE_SECONDS
+  });
+
+  if (error) throw new Error(`Failed to claim audio job: ${error.message}`);
+
+  const jobs = (data as QueuedAudioJob[] | null) || [];
+  return jobs[0] || null;
+}
+
+// Report progress and extend the lease in one write.
+// Throws LeaseLostError when the job is no longer ours, which stops the run.
+async function heartbeat(jobId: string, workerId: string, progress: number) {
+  const { data, error } = await supabase
+    .from('audio_jobs')
+    .update({
+      progress,
+      lease_expires_at: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString()
+    })
+    .eq('id', jobId)
+    .eq('locked_by', workerId)
+    .select('id');
+
+  if (error) throw new Error(`Failed to extend lease on audio job ${jobId}: ${error.message}`);
+  if (!data || data.length === 0) throw new LeaseLostError(jobId);
+}
+
+async function completeJob(
+  job: QueuedAudioJob,
+  workerId: string,
+  audioUrl: string,
+  durationSeconds: number,
+  alignment: AudioAlignment
+) {
+  const completedAt = new Date().toISOString();
+
+  // Complete the job first, so a worker that lost its lease never
+  // overwrites the chapter another worker is now generating
+  const { data, error } = await supabase
+    .from('audio_jobs')
+    .update({
+      status: 'completed',
+      progress: 100,
+      audio_url: audioUrl,
+      duration_seconds: durationSeconds,
+      error_message: null,
+      locked_by: null,
+      lease_expires_at: null,
+      completed_at: completedAt
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+    .select('id');
+
+  if (error) throw new Error(`Failed to complete audio job ${job.id}: ${error.message}`);
+  if (!data || data.length === 0) throw new LeaseLostError(job.id);
+
+  const { data: chapter } = await supabase
+    .from('chapters')
+    .select('audio_url')
+    .eq('id', job.chapter_id)
+    .single();
+  const oldPath = chapter?.audio_url ? audioStoragePath(chapter.audio_url as string) : null;
+
+  // Swap in the new audio URL, duration and read-along alignment
+  const { error: chapterError } = await supabase
+    .from('chapters')
+    .update({
+      audio_url: audioUrl,
+      duration_seconds: durationSeconds,
+      audio_alignment: alignment,
+      audio_status: 'ready',
+      audio_generated_at: completedAt
+    })
+    .eq('id', job.chapter_id);
+
+  if (chapterError) {
+    console.error(`❌ Audio job ${job.id} completed but chapter ${job.chapter_id} was not updated:`, chapterError);
+    return;
+  }
+
+  // The previous version is no longer referenced
+  const newPath = audioStoragePath(audioUrl);
+  if (oldPath && oldPath !== newPath) await removeAudioFile(oldPath);
+}
+
+// Mark the book as audio-ready once its last chapter has audio
+async function updateBookAudioReady(biglioId: string) {
+  const { data: audioReady, error } = await supabase.rpc('check_book_audio_ready', { book_id: biglioId });
+
+  if (error) {
+    console.error(`Failed to check audio readiness for book ${biglioId}:`, error);
+    return;
+  }
+
+  await supabase
+    .from('biglios')
+    .update({ audio_ready: !!audioReady })
+    .eq('id', biglioId);
+}
+
+async function failJob(job: QueuedAudioJob, workerId: string, error: unknown) {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const isFinalAttempt = job.attempts >= job.max_attempts;
+
+  if (isFinalAttempt) {
+    const { data } = await supabase
+      .from('audio_jobs')
+      .update({
+        status: 'failed',
+        error_message: errorMessage,
+        locked_by: null,
+        lease_expires_at: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('locked_by', workerId)
+      .select('id');
+
+    // The job was reclaimed; its chapter is no longer ours to update
+    if (!data || data.length === 0) return;
+
+    await supabase
+      .from('chapters')
+      .update({ audio_status: 'failed' })
+      .eq('id', job.chapter_id);
+    return;
+  }
+
+  const retryAt = new Date(Date.now() + getRetryDelaySeconds(job.attempts) * 1000);
+
+  await supabase
+    .from('audio_jobs')
+    .update({
+      status: 'pending',
+      error_message: errorMessage,
+      progress: 0,
+      run_after: retryAt.toISOString(),
+      locked_by: null,
+      lease_expires_at: null
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+}
+
+// Existing audio for the chapter, so unchanged chunks can be reused
+async function loadPreviousAudio(chapterId: string): Promise<PreviousChapterAudio | null> {
+  const { data: chapter } = await supabase
+    .from('chapters')
+    .select('audio_url, audio_alignment')
+    .eq('id', chapterId)
+    .single();
+
+  const alignment = chapter?.audio_alignment as AudioAlignment | null | undefined;
+  const audioPath = chapter?.audio_url ? audioStoragePath(chapter.audio_url as string) : null;
+  if (!audioPath || !alignment?.chunks?.some(chunk => chunk.hash)) return null;
+
+  const { data: file, error } = await supabase.storage
+    .from('audio-files')
+    .download(audioPath);
+
+  if (error || !file) {
+    console.warn(`Could not load existing audio for chapter ${chapterId}, regenerating fully`);
+    return null;
+  }
+
+  return { audio: Buffer.from(await file.arrayBuffer()), alignment };
+}
+
+// The book's narration settings and the chapter's intro/outro lines
+async function loadNarration(job: QueuedAudioJob): Promise<{ narration: NarrationSettings; intro?: string; outro?: string }> {
+  if (!job.biglio_id) return { narration: DEFAULT_NARRATION_SETTINGS };
+
+  const { data: book, error } = await supabase
+    .from('biglios')
+    .select('title, narration_settings, channel:channels(display_name)')
+    .eq('id', job.biglio_id)
+    .single();
+
+  if (error || !book) {
+    console.warn(`Could not load narration settings for book ${job.biglio_id}:`, error?.message);
+    return { narration: DEFAULT_NARRATION_SETTINGS };
+  }
+
+  const narration = resolveNarrationSettings(book.narration_settings);
+  let intro: string | undefined;
+  let outro: string | undefined;
+
+  if (narration.chapterIntro) {
+    const { data: chapter } = await supabase
+      .from('chapters')
+      .select('title, chapter_number')
+      .eq('id', job.chapter_id)
+      .single();
+    if (chapter) intro = chapterIntroText(chapter.chapter_number, chapter.title || '');
+  }
+
+  if (narration.channelOutro) {
+    const channel = book.channel as unknown as { display_name: string } | null;
+    outro = channelOutroText(narration, book.title, channel?.display_name || 'Biglio');
+  }
+
+  return { narration, intro, outro };
+}
+
+async function runJob(job: QueuedAudioJob, workerId: string) {
+  // Every claim writes its own file, so a worker that lost its lease never
+  // overwrites the audio of the new owner, and the URL changes with the audio
+  const audioFileName = `audio/${job.chapter_id}/${job.id}-${job.attempts}.mp3`;
+  let uploaded = false;
+  let swapped = false;
+
+  try {
+    const previous = await loadPreviousAudio(job.chapter_id);
+    const cast = job.biglio_id ? await loadBookCast(job.biglio_id) : [];
+    const { narration, intro, outro } = await loadNarration(job);
+
+    // Generate audio with the configured TTS provider (0-90% of progress)
+    const { audio: audioBuffer, alignment, synthesizedChunks, reusedChunks } = await performTextToSpeech(
+      job.chapter_text,
+      job.voice_type || 'female',
+      {
+        previous,
+        cast,
+        narration,
+        intro,
+        outro,
+        onProgress: (completedChunks, totalChunks) =>
+          heartbeat(job.id, workerId, Math.round((completedChunks / totalChunks) * 90))
+      }
+    );
+
+    if (reusedChunks > 0) {
+      console.log(`♻️ Reused ${reusedChunks} unchanged chunks, synthesized ${synthesizedChunks}`);
+    }
+
+    // Measure the real duration; corrupt output throws and the job is retried
+    const { durationSeconds } = parseMp3(audioBuffer);
+
+    // Upload to Supabase Storage
+    const { error: uploadError } = await supabase.storage
+      .from('audio-files')
+      .upload(audioFileName, audioBuffer, {
+        contentType: 'audio/mpeg',
+        upsert: false
+      });
+
+    if (uploadError) {
+      throw new Error(`Upload failed: ${uploadError.message}`);
+    }
+    uploaded = true;
+
+    await heartbeat(job.id, workerId, 95);
+
+    // Get public URL
+    const { data: urlData } = supabase.storage
+      .from('audio-files')
+      .getPublicUrl(audioFileName);
+
+    await completeJob(job, workerId, urlData.publicUrl, Math.round(durationSeconds), alignment);
+    swapped = true;
+    if (job.biglio_id) await updateBookAudioReady(job.biglio_id);
+    console.log(`✓ Audio job ${job.id} completed for chapter ${job.chapter_id}`);
+  } catch (error) {
+    if (uploaded && !swapped) await removeAudioFile(audioFileName);
+
+    if (error instanceof LeaseLostError) {
+      // Another worker or claim_audio_job owns the job now; leave it to them
+      console.warn(`⚠️ ${error.message}, stopping`);
+      return;
+    }
+    console.error(`Audio job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, error);
+    await failJob(job, workerId, error);
+  }
+}
+
+/**
+ * Claim and run queued jobs until the queue is empty, maxJobs have run or the
+ * time budget is used up. Returns the number of jobs processed.
+ */
+export async function processAudioJobs({ maxJobs = 5, timeBudgetMs = 240_000 }: ProcessAudioJobsOptions = {}): Promise<number> {
+  const workerId = `worker-${randomUUID()}`;
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (processed < maxJobs && Date.now() - startedAt < timeBudgetMs) {
+    const job = await claimNextJob(workerId);
+    if (!job) break;
+
+    await runJob(job, workerId);
+    processed++;
+  }
+
+  return processed;
+}
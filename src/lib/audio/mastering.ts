@@ -0,0 +1,64 @@
+import { runProcess } from '@/lib/audio/process';
+
+/**
+ * Audio mastering for generated chapters. Each synthesized chunk is
+ * loudness-normalized on its own with ffmpeg's EBU R128 `loudnorm` filter and
+ * re-encoded to one format (44.1 kHz mono MP3), so chunks stay individually
+ * cacheable and every chapter of every book plays back at the same level.
+ *
+ * Set AUDIO_TARGET_LUFS to change the target (default -18) or to `off` to
+ * skip normalization. Without ffmpeg (FFMPEG_PATH or on PATH) chunks are
+ * used as the provider returns them.
+ */
+
+const DEFAULT_TARGET_LUFS = -18;
+const TRUE_PEAK_DB = -1.5;
+const LOUDNESS_RANGE_LU = 11;
+
+// Room tone at the start and end of every chapter
+export const LEAD_IN_SECONDS = 0.5;
+export const TAIL_SECONDS = 1;
+
+const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+let ffmpegAvailable: Promise<boolean> | null = null;
+
+function hasFfmpeg(): Promise<boolean> {
+  if (!ffmpegAvailable) {
+    ffmpegAvailable = runProcess(ffmpegPath, ['-hide_banner', '-version'])
+      .then(() => true)
+      .catch(() => {
+        console.warn('⚠️ ffmpeg not found - chapter audio will not be loudness-normalized');
+        return false;
+      });
+  }
+  return ffmpegAvailable;
+}
+
+/**
+ * The integrated loudness chunks are normalized to, or null when
+ * normalization is turned off or ffmpeg is unavailable.
+ */
+export async function getLoudnessTarget(): Promise<number | null> {
+  const configured = process.env.AUDIO_TARGET_LUFS;
+  if (configured === 'off') return null;
+
+  const target = configured ? Number(configured) : DEFAULT_TARGET_LUFS;
+  if (!Number.isFinite(target) || target > -5 || target < -70) {
+    throw new Error(`Invalid AUDIO_TARGET_LUFS: ${configured}`);
+  }
+
+  return (await hasFfmpeg()) ? target : null;
+}
+
+// Normalize one chunk to the target loudness and re-encode it
+export async function normalizeLoudness(audio: Buffer, targetLufs: number): Promise<Buffer> {
+  return runProcess(ffmpegPath, [
+    '-hide_banner', '-loglevel', 'error',
+    '-i', 'pipe:0',
+    '-af', `loudnorm=I=${targetLufs}:TP=${TRUE_PEAK_DB}:LRA=${LOUDNESS_RANGE_LU}`,
+    '-ac', '1', '-ar', '44100', '-b:a', '64k',
+    // No Xing or ID3 header per chunk; chunks are joined into one stream
+    '-write_xing', '0', '-id3v2_version', '0',
+    '-f', 'mp3', 'pipe:1'
+  ], audio);
+}
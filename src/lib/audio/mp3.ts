@@ -0,0 +1,212 @@
+/**
+ * Minimal MPEG audio frame parser. Walks every frame header in a buffer of
+ * (possibly concatenated) MP3 chunks and adds up the samples, so durations are
+ * exact instead of estimated from the file size.
+ */
+
+export interface Mp3Info {
+  durationSeconds: number;
+  frameCount: number;
+  sampleRate: number;
+  // Average bitrate over all audio frames
+  bitrateKbps: number;
+}
+
+interface FrameHeader {
+  frameLength: number;
+  samples: number;
+  sampleRate: number;
+  isMono: boolean;
+  isMpeg1: boolean;
+}
+
+// Bytes between frames we tolerate before calling the stream corrupt
+const MAX_JUNK_RATIO = 0.01;
+
+// Bitrates in kbps, indexed by [MPEG1 ? 0 : 1][layer 1..3][bitrate index]
+const BITRATES: number[][][] = [
+  [
+    [],
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+  ],
+  [
+    [],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+  ]
+];
+
+const SAMPLE_RATES = [44100, 48000, 32000];
+
+function readFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+  if (offset + 4 > buffer.length) return null;
+
+  const b1 = buffer[offset + 1];
+  const b2 = buffer[offset + 2];
+  const b3 = buffer[offset + 3];
+
+  if (buffer[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (b1 >> 3) & 0x03; // 0 = MPEG2.5, 1 = reserved, 2 = MPEG2, 3 = MPEG1
+  const layerBits = (b1 >> 1) & 0x03; // 1 = Layer III, 2 = Layer II, 3 = Layer I
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+
+  // Reserved values and free-format bitrates can't be measured
+  if (versionBits === 1 || layerBits === 0) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isMpeg1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const bitrate = BITRATES[isMpeg1 ? 0 : 1][layer][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[sampleRateIndex] / (isMpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  const padding = (b2 >> 1) & 0x01;
+
+  let samples: number;
+  let frameLength: number;
+
+  if (layer === 1) {
+    samples = 384;
+    frameLength = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else {
+    samples = layer === 3 && !isMpeg1 ? 576 : 1152;
+    frameLength = Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+  }
+
+  return {
+    frameLength,
+    samples,
+    sampleRate,
+    isMono: b3 >> 6 === 3,
+    isMpeg1
+  };
+}
+
+// Encoders put a Xing/Info/VBRI tag in an otherwise silent first frame; players skip it
+function isInfoFrame(buffer: Buffer, offset: number, header: FrameHeader): boolean {
+  const sideInfoLength = header.isMpeg1 ? (header.isMono ? 17 : 32) : (header.isMono ? 9 : 17);
+  const xingTag = buffer.toString('latin1', offset + 4 + sideInfoLength, offset + 8 + sideInfoLength);
+  const vbriTag = buffer.toString('latin1', offset + 36, offset + 40);
+
+  return xingTag === 'Xing' || xingTag === 'Info' || vbriTag === 'VBRI';
+}
+
+// Size of an ID3v2 tag starting at offset (0 if there isn't one)
+function id3v2Length(buffer: Buffer, offset: number): number {
+  if (offset + 10 > buffer.length || buffer.toString('latin1', offset, offset + 3) !== 'ID3') return 0;
+
+  // Tag size is a 28-bit "syncsafe" integer
+  const size =
+    ((buffer[offset + 6] & 0x7f) << 21) |
+    ((buffer[offset + 7] & 0x7f) << 14) |
+    ((buffer[offset + 8] & 0x7f) << 7) |
+    (buffer[offset + 9] & 0x7f);
+  const hasFooter = (buffer[offset + 5] & 0x10) !== 0;
+
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Parse an MP3 buffer and measure its exact duration. Throws if the buffer has
+ * no audio frames, ends in a truncated frame or contains more than a sliver of
+ * unrecognised data - i.e. output that would not play back properly.
+ */
+export function parseMp3(buffer: Buffer): Mp3Info {
+  let offset = 0;
+  let frameCount = 0;
+  let totalSeconds = 0;
+  let audioBytes = 0;
+  let junkBytes = 0;
+  let sampleRate = 0;
+
+  while (offset < buffer.length) {
+    // Concatenated chunks can each carry their own ID3 tags
+    const tagLength = id3v2Length(buffer, offset);
+    if (tagLength > 0) {
+      offset += tagLength;
+      continue;
+    }
+
+    if (buffer.length - offset === 128 && buffer.toString('latin1', offset, offset + 3) === 'TAG') {
+      break; // ID3v1 trailer
+    }
+
+    const header = readFrameHeader(buffer, offset);
+    if (!header) {
+      junkBytes++;
+      offset++;
+      continue;
+    }
+
+    if (offset + header.frameLength > buffer.length) {
+      throw new Error(`Corrupt MP3: truncated frame at byte ${offset}`);
+    }
+
+    if (!isInfoFrame(buffer, offset, header)) {
+      frameCount++;
+      totalSeconds += header.samples / header.sampleRate;
+      audioBytes += header.frameLength;
+      sampleRate = sampleRate || header.sampleRate;
+    }
+
+    offset += header.frameLength;
+  }
+
+  if (frameCount === 0) {
+    throw new Error('Corrupt MP3: no audio frames found');
+  }
+
+  if (junkBytes > buffer.length * MAX_JUNK_RATIO) {
+    throw new Error(`Corrupt MP3: ${junkBytes} of ${buffer.length} bytes are not valid audio frames`);
+  }
+
+  return {
+    durationSeconds: totalSeconds,
+    frameCount,
+    sampleRate,
+    bitrateKbps: Math.round((audioBytes * 8) / totalSeconds / 1000)
+  };
+}
+
+/**
+ * Silent frames in the same format as the first audio frame of `like`, so
+ * the silence can be joined to it without a change in sample rate or
+ * channels. A frame with zeroed side info and main data decodes to silence.
+ */
+export function createSilence(like: Buffer, seconds: number): Buffer {
+  let offset = 0;
+  while (offset < like.length) {
+    const tagLength = id3v2Length(like, offset);
+    if (tagLength > 0) {
+      offset += tagLength;
+      continue;
+    }
+
+    const header = readFrameHeader(like, offset);
+    if (!header) {
+      offset++;
+      continue;
+    }
+    if (isInfoFrame(like, offset, header)) {
+      offset += header.frameLength;
+      continue;
+    }
+
+    // Same header without padding or CRC, so every frame has the base length
+    const frameHeader = Buffer.from(like.subarray(offset, offset + 4));
+    frameHeader[1] |= 0x01;
+    frameHeader[2] &= ~0x02;
+    const frameLength = readFrameHeader(frameHeader, 0)!.frameLength;
+
+    const frame = Buffer.alloc(frameLength);
+    frameHeader.copy(frame, 0);
+    const frameCount = Math.ceil((seconds * header.sampleRate) / header.samples);
+
+    return Buffer.concat(Array.from({ length: frameCount }, () => frame));
+  }
+
+  throw new Error('Corrupt MP3: no audio frames found');
+}
@@ -0,0 +1,149 @@
+import type { NarrationSettings, PronunciationEntry } from '@/types/database';
+
+/**
+ * Per-book narration settings: speaking rate, pitch, language, a
+ * pronunciation lexicon, pauses and the chapter intro/outro. Stored as JSON in
+ * biglios.narration_settings (narration-settings.sql); missing fields fall
+ * back to the defaults.
+ */
+
+export const DEFAULT_NARRATION_SETTINGS: NarrationSettings = {
+  speakingRate: 1.0,
+  pitch: 0.0,
+  languageCode: 'en-US',
+  pronunciations: [],
+  paragraphPauseMs: 750,
+  scenePauseMs: 1500,
+  chunkPauseMs: 200,
+  chapterIntro: false,
+  channelOutro: false
+};
+
+// Ranges accepted by Google TTS audioConfig
+export const SPEAKING_RATE_RANGE = { min: 0.25, max: 4.0 };
+export const PITCH_RANGE = { min: -20, max: 20 };
+export const PAUSE_RANGE_MS = { min: 0, max: 5000 };
+
+// Longest chapter accepted for audio. The job queue splits text into
+// provider-sized chunks, so this only caps the cost of a single chapter;
+// it is above the longest AI draft (4,000 words).
+export const MAX_CHAPTER_AUDIO_CHARACTERS = 30000;
+
+const DEFAULT_OUTRO = 'You have been listening to {book}, from {channel}.';
+
+export const NARRATION_LANGUAGES = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'en-AU', name: 'English (Australia)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'es-US', name: 'Spanish (US)' },
+  { code: 'fr-FR', name: 'French' },
+  { code: 'de-DE', name: 'German' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' }
+];
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+function cleanPronunciation(entry: Partial<PronunciationEntry>): PronunciationEntry | null {
+  const term = typeof entry.term === 'string' ? entry.term.trim() : '';
+  const spoken = typeof entry.spoken === 'string' ? entry.spoken.trim() : '';
+  const ipa = typeof entry.ipa === 'string' ? entry.ipa.trim() : '';
+  if (!term || (!spoken && !ipa)) return null;
+
+  return { term, ...(spoken && { spoken }), ...(ipa && { ipa }) };
+}
+
+/**
+ * Settings as stored on the book, with defaults filled in. Out-of-range
+ * values are clamped rather than rejected so a bad row never blocks a job.
+ */
+export function resolveNarrationSettings(stored: unknown): NarrationSettings {
+  const settings = (stored && typeof stored === 'object' ? stored : {}) as Partial<NarrationSettings>;
+  const clamp = (value: unknown, range: { min: number; max: number }, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(range.max, Math.max(range.min, value)) : fallback;
+
+  const outroText = typeof settings.outroText === 'string' ? settings.outroText.trim() : '';
+
+  return {
+    speakingRate: clamp(settings.speakingRate, SPEAKING_RATE_RANGE, DEFAULT_NARRATION_SETTINGS.speakingRate),
+    pitch: clamp(settings.pitch, PITCH_RANGE, DEFAULT_NARRATION_SETTINGS.pitch),
+    languageCode: typeof settings.languageCode === 'string' && LANGUAGE_CODE.test(settings.languageCode)
+      ? settings.languageCode
+      : DEFAULT_NARRATION_SETTINGS.languageCode,
+    pronunciations: Array.isArray(settings.pronunciations)
+      ? settings.pronunciations.map(cleanPronunciation).filter((entry): entry is PronunciationEntry => entry !== null)
+      : [],
+    paragraphPauseMs: clamp(settings.paragraphPauseMs, PAUSE_RANGE_MS, DEFAULT_NARRATION_SETTINGS.paragraphPauseMs),
+    scenePauseMs: clamp(settings.scenePauseMs, PAUSE_RANGE_MS, DEFAULT_NARRATION_SETTINGS.scenePauseMs),
+    chunkPauseMs: clamp(settings.chunkPauseMs, PAUSE_RANGE_MS, DEFAULT_NARRATION_SETTINGS.chunkPauseMs),
+    chapterIntro: settings.chapterIntro === true,
+    channelOutro: settings.channelOutro === true,
+    ...(outroText && { outroText })
+  };
+}
+
+// Check settings sent by the editor. Returns an error message, or null when valid.
+export function validateNarrationSettings(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'narrationSettings must be an object';
+  const settings = input as Record<string, unknown>;
+
+  if (settings.speakingRate !== undefined) {
+    const rate = settings.speakingRate;
+    if (typeof rate !== 'number' || rate < SPEAKING_RATE_RANGE.min || rate > SPEAKING_RATE_RANGE.max) {
+      return `speakingRate must be between ${SPEAKING_RATE_RANGE.min} and ${SPEAKING_RATE_RANGE.max}`;
+    }
+  }
+  if (settings.pitch !== undefined) {
+    const pitch = settings.pitch;
+    if (typeof pitch !== 'number' || pitch < PITCH_RANGE.min || pitch > PITCH_RANGE.max) {
+      return `pitch must be between ${PITCH_RANGE.min} and ${PITCH_RANGE.max} semitones`;
+    }
+  }
+  if (settings.languageCode !== undefined) {
+    if (typeof settings.languageCode !== 'string' || !LANGUAGE_CODE.test(settings.languageCode)) {
+      return 'languageCode must be a locale like en-US';
+    }
+  }
+  for (const field of ['paragraphPauseMs', 'scenePauseMs', 'chunkPauseMs']) {
+    const pause = settings[field];
+    if (pause !== undefined && (typeof pause !== 'number' || pause < PAUSE_RANGE_MS.min || pause > PAUSE_RANGE_MS.max)) {
+      return `${field} must be between ${PAUSE_RANGE_MS.min} and ${PAUSE_RANGE_MS.max} ms`;
+    }
+  }
+  for (const field of ['chapterIntro', 'channelOutro']) {
+    if (settings[field] !== undefined && typeof settings[field] !== 'boolean') {
+      return `${field} must be true or false`;
+    }
+  }
+  if (settings.outroText !== undefined && typeof settings.outroText !== 'string') {
+    return 'outroText must be a string';
+  }
+  if (settings.pronunciations !== undefined) {
+    if (!Array.isArray(settings.pronunciations)) return 'pronunciations must be an array';
+    for (const entry of settings.pronunciations) {
+      if (!entry || typeof entry !== 'object' || typeof entry.term !== 'string' || !entry.term.trim()) {
+        return 'Every pronunciation needs a term';
+      }
+      if (!cleanPronunciation(entry)) {
+        return `Add a spelling or IPA for "${entry.term.trim()}"`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// "Chapter 3: The Storm" - titles that already say "Chapter ..." are used as-is
+export function chapterIntroText(chapterNumber: number, title: string): string {
+  const cleanTitle = title.trim();
+  if (/^chapter\b/i.test(cleanTitle)) return cleanTitle;
+  return cleanTitle ? `Chapter ${chapterNumber}: ${cleanTitle}` : `Chapter ${chapterNumber}`;
+}
+
+export function channelOutroText(settings: NarrationSettings, bookTitle: string, channelName: string): string {
+  return (settings.outroText || DEFAULT_OUTRO)
+    .replace(/\{book\}/g, bookTitle)
+    .replace(/\{channel\}/g, channelName);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeText } from '@/lib/audio/normalize';
+
+describe('normalizeText', () => {
+  it('spells out money, percentages and times', () => {
+    expect(normalizeText('It cost $1,250.99.')).toBe('It cost one thousand two hundred fifty dollars and ninety-nine cents.');
+    expect(normalizeText('Up 40% since then.')).toBe('Up forty percent since then.');
+    expect(normalizeText('We met at 7:05 p.m. sharp.')).toBe('We met at seven oh five P M sharp.');
+  });
+
+  it('keeps the prefix of prefixed dollars', () => {
+    expect(normalizeText('It cost US$5.')).toBe('It cost five US dollars.');
+    expect(normalizeText('Tickets were A$12.50 each.')).toBe('Tickets were twelve Australian dollars and fifty cents each.');
+  });
+
+  it('reads version numbers point by point', () => {
+    expect(normalizeText('Version 2.0.1 shipped.')).toBe('Version two point zero point one shipped.');
+  });
+
+  it('reads ordinals and years after words that introduce them', () => {
+    expect(normalizeText('Her 21st birthday was in 1984.')).toBe('Her twenty-first birthday was in nineteen eighty-four.');
+  });
+
+  it('reads ranges with "to"', () => {
+    expect(normalizeText('Ages 10-20 only.')).toBe('Ages ten to twenty only.');
+    expect(normalizeText('From 1990–2000 it grew.')).toBe('From nineteen ninety to two thousand it grew.');
+    expect(normalizeText('Between 200-1000 soldiers died.')).toBe('Between two hundred to one thousand soldiers died.');
+    expect(normalizeText('Pages 300-4000')).toBe('Pages three hundred to four thousand');
+  });
+
+  it('reads phone numbers digit by digit instead of as ranges', () => {
+    expect(normalizeText('Call 555-1234 now.')).toBe('Call five five five, one two three four now.');
+    expect(normalizeText('Call (555) 123-4567.')).toBe('Call five five five, one two three, four five six seven.');
+    expect(normalizeText('Dial 1-800-555-1234.')).toBe('Dial one, eight zero zero, five five five, one two three four.');
+    expect(normalizeText('Phone me at 555-1234.')).toBe('Phone me at five five five, one two three four.');
+  });
+});
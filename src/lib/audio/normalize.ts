@@ -0,0 +1,499 @@
+import type { DialogueSpan } from '@/lib/audio/dialogue';
+import type { PronunciationEntry } from '@/types/database';
+import {
+  MONTH_NAMES,
+  currencyToWords,
+  dateToWords,
+  decimalToWords,
+  numberToWords,
+  ordinalToWords,
+  percentToWords,
+  phoneNumberToWords,
+  pluralizeNumberWords,
+  rangeToWords,
+  timeToWords,
+  yearToWords
+} from '@/utils/spokenText';
+
+/**
+ * Text normalization for narration. Chapter text is written for readers -
+ * markdown, digits, symbols and abbreviations - and TTS engines read those
+ * inconsistently. This turns it into plain spoken words, keeps each sentence's
+ * position in the source text for the read-along alignment, and marks
+ * paragraph and scene boundaries so they can become SSML <break>s.
+ */
+
+export type SpeechPause = 'paragraph' | 'scene';
+
+export interface SpeechSegment {
+  // Sentence as displayed (markdown removed)
+  text: string;
+  // Sentence as it should be spoken
+  spoken: string;
+  // Character range of the sentence in the source text
+  start: number;
+  end: number;
+  // Pause to insert before this sentence
+  pause?: SpeechPause;
+  // Cast member speaking this part, when it is attributed dialogue
+  speaker?: string;
+  // Rest of the sentence before it, split off at dialogue or for length
+  continuesSentence?: boolean;
+}
+
+// Pause lengths for <break> tags between paragraphs and scenes
+const PAUSE_MS: Record<SpeechPause, number> = {
+  paragraph: 750,
+  scene: 1500
+};
+
+// ---------------------------------------------------------------------------
+// Abbreviations
+// ---------------------------------------------------------------------------
+
+// Titles that are always followed by a name and never end a sentence
+const TITLES: { [key: string]: string } = {
+  Dr: 'Doctor',
+  Mr: 'Mister',
+  Mrs: 'Missus',
+  Ms: 'Miz',
+  Prof: 'Professor',
+  Sgt: 'Sergeant',
+  Capt: 'Captain',
+  Lt: 'Lieutenant',
+  Col: 'Colonel',
+  Gen: 'General',
+  Gov: 'Governor',
+  Sen: 'Senator',
+  Rep: 'Representative',
+  Rev: 'Reverend',
+  Fr: 'Father',
+  Mt: 'Mount',
+  Ft: 'Fort'
+};
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\be\.g\.(?=\s|,|$)/gi, 'for example'],
+  [/\bi\.e\.(?=\s|,|$)/gi, 'that is'],
+  [/\betc\./gi, 'et cetera'],
+  [/\bvs\.?(?=\s)/gi, 'versus'],
+  [/\bapprox\./gi, 'approximately'],
+  [/\bJr\./g, 'Junior'],
+  [/\bSr\./g, 'Senior'],
+  [/\bNo\.\s?(?=\d)/g, 'number '],
+  [/\bFig\.\s?(?=\d)/g, 'figure '],
+  [/\bVol\.\s?(?=\d)/g, 'volume '],
+  [/\bCh\.\s?(?=\d)/g, 'chapter '],
+  // "St. Louis" is a saint, "Main St." is a street
+  [/\bSt\.(?=\s+[A-Z])/g, 'Saint'],
+  [/\bSt\./g, 'Street'],
+  [/#(?=\d)/g, 'number ']
+];
+
+// Words before a period that do not end a sentence
+const NON_TERMINAL = new Set([
+  ...Object.keys(TITLES),
+  'St', 'No', 'Fig', 'Vol', 'Ch', 'vs', 'approx', 'e.g', 'i.e'
+]);
+
+// Abbreviations that end a sentence only when a capitalized word follows
+const SOFT_TERMINAL = new Set(['Jr', 'Sr', 'etc', 'a.m', 'p.m', 'U.S', 'U.K']);
+
+// ---------------------------------------------------------------------------
+// Spoken-form expansion
+// ---------------------------------------------------------------------------
+
+const MONTH_PATTERN = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+
+function monthName(value: string): string {
+  return MONTH_NAMES.find(month => month.toLowerCase().startsWith(value.slice(0, 3).toLowerCase())) || value;
+}
+
+/**
+ * Expand one sentence (or any short text) into words a TTS engine reads
+ * predictably: abbreviations, dates, times, money, percentages, ordinals,
+ * years, ranges and plain numbers.
+ */
+export function normalizeText(text: string): string {
+  let result = text;
+
+  for (const [title, expansion] of Object.entries(TITLES)) {
+    result = result.replace(new RegExp(`\\b${title}\\.(?=\\s)`, 'g'), expansion);
+  }
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    result = result.replace(pattern, replacement);
+  }
+
+  // Dates: 2024-03-15, 3/15/2024, March 15(th)(, 2024), 15(th) (of) March
+  result = result.replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, year, month, day) =>
+    Number(month) >= 1 && Number(month) <= 12 && Number(day) >= 1 && Number(day) <= 31
+      ? dateToWords(Number(month), Number(day), Number(year))
+      : match
+  );
+  result = result.replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g, (match, month, day, year) =>
+    Number(month) >= 1 && Number(month) <= 12 && Number(day) >= 1 && Number(day) <= 31
+      ? dateToWords(Number(month), Number(day), Number(year))
+      : match
+  );
+  result = result.replace(
+    new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+    (match, month, day, year) => {
+      const dayNumber = Number(day);
+      if (dayNumber < 1 || dayNumber > 31) return match;
+      const words = `${monthName(month)} ${ordinalToWords(dayNumber)}`;
+      return year ? `${words}, ${yearToWords(Number(year))}` : words;
+    }
+  );
+  result = result.replace(
+    new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?=[\\s,.!?;:]|$)`, 'g'),
+    (match, day, month) => {
+      const dayNumber = Number(day);
+      if (dayNumber < 1 || dayNumber > 31) return match;
+      return `the ${ordinalToWords(dayNumber)} of ${monthName(month)}`;
+    }
+  );
+
+  // Phone numbers: 555-123-4567, (555) 123-4567, 1-800-555-1234, and 555-1234
+  // after "call", "phone" and the like (otherwise "200-1000" is a range).
+  // Read digit by digit, before ranges would turn the hyphen into "to"
+  result = result.replace(
+    /(?:\b1-)?(?:\(\d{3}\)\s?|\b\d{3}-)\d{3}-\d{4}\b/g,
+    (match) => phoneNumberToWords(match)
+  );
+  result = result.replace(
+    /\b((?:call|dial|phone|tel|telephone|fax|number)(?:ed|ing|s)?\.?:?\s+(?:(?:me|us|him|her|them)\s+)?(?:(?:at|on|is)\s+)?)([2-9]\d{2}-\d{4})\b/gi,
+    (match, context, number) => `${context}${phoneNumberToWords(number)}`
+  );
+
+  // Version numbers and other dotted groups: 2.0.1 -> "two point zero point one"
+  result = result.replace(/\b\d+(?:\.\d+){2,}\b/g, (match) =>
+    match.split('.').map(part => decimalToWords(part)).join(' point ')
+  );
+
+  // Times: 3:30, 7:05 p.m., 10am
+  result = result.replace(/\b(\d{1,2}):(\d{2})(?:\s?([ap]\.?m\.?)(?=[\s,!?;:]|$|\.))?/gi, (match, hours, minutes, period) =>
+    Number(hours) <= 24 && Number(minutes) < 60 ? timeToWords(Number(hours), Number(minutes), period) : match
+  );
+  result = result.replace(/\b(\d{1,2})\s?([ap]\.?m\.?)(?=[\s,!?;:]|$|\.)/gi, (match, hours, period) =>
+    Number(hours) <= 12 ? timeToWords(Number(hours), 0, period) : match
+  );
+
+  // Money: $5, $1,250.99, £3.50, €2.5 million, $10k, US$5
+  result = result.replace(
+    /((?:\b(?:US|A|C|NZ|HK))?\$|[£€])\s?(\d[\d,]*(?:\.\d+)?)(?:\s?(thousand|million|billion|trillion|bn|k|m|b)\b)?/gi,
+    (match, symbol, amount, scale) => currencyToWords(symbol.toUpperCase(), amount, scale)
+  );
+
+  // Percentages: 40%, 2.5 %
+  result = result.replace(/(\d[\d,]*(?:\.\d+)?)\s?%/g, (match, value) => percentToWords(value));
+
+  // Ordinals: 1st, 22nd, 103rd
+  result = result.replace(/\b(\d+)(?:st|nd|rd|th)\b/gi, (match, value) => ordinalToWords(Number(value)));
+
+  // Decades: 1990s, '80s
+  result = result.replace(/\b(1[1-9]|20)(\d)0s\b/g, (match, century, decade) =>
+    pluralizeNumberWords(yearToWords(Number(`${century}${decade}0`)))
+  );
+  result = result.replace(/'(\d)0s\b/g, (match, decade) => pluralizeNumberWords(numberToWords(Number(decade) * 10)));
+
+  // Years after words that introduce them: "in 1984", "since 2008" (ranges
+  // such as "from 1990-2000" are read below)
+  result = result.replace(
+    /\b(in|since|by|until|from|of|before|after|around|circa|year|during|early|late|mid)(\s+)(1[1-9]\d{2}|20\d{2})\b(?![,.]\d|\s?[–-]\s?\d)/gi,
+    (match, word, space, year) => `${word}${space}${yearToWords(Number(year))}`
+  );
+
+  // Ranges: 10-20, 1990–2000
+  result = result.replace(/\b(\d[\d,]*)\s?[–-]\s?(\d[\d,]*)\b/g, (match, from, to) => rangeToWords(from, to));
+
+  // Negative numbers, then everything else that is still a number
+  result = result.replace(/(^|[\s(])-(?=\d)/g, '$1minus ');
+  result = result.replace(/\d+(?:,\d{3})*(?:\.\d+)?|\d+/g, (match) => decimalToWords(match));
+
+  result = result.replace(/\s&\s/g, ' and ');
+
+  return result.replace(/\s+/g, ' ').trim();
+}
+
+// The expansions above are English; other languages are left to the engine
+export function speakableText(text: string, languageCode: string = 'en-US'): string {
+  return languageCode.toLowerCase().startsWith('en') ? normalizeText(text) : text;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown and sentence segmentation
+// ---------------------------------------------------------------------------
+
+interface TextBlock {
+  start: number;
+  end: number;
+  pause?: SpeechPause;
+  // Headings and list items often have no closing punctuation
+  isStandalone: boolean;
+}
+
+const SCENE_BREAK = /^\s*(?:([*\-_~=#])\s*){3,}$|^\s*#\s*$/;
+const HEADING = /^\s*#{1,6}\s+/;
+const LIST_ITEM = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+const BLOCKQUOTE = /^\s*>\s?/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+// Split the source into paragraphs, headings and list items
+function splitBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let current: TextBlock | null = null;
+  let pendingPause: SpeechPause | undefined;
+  let inCodeBlock = false;
+  let offset = 0;
+
+  const closeBlock = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+
+    if (CODE_FENCE.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      closeBlock();
+      continue;
+    }
+    if (inCodeBlock) continue;
+
+    if (line.trim() === '') {
+      closeBlock();
+      if (blocks.length > 0 && pendingPause !== 'scene') pendingPause = 'paragraph';
+      continue;
+    }
+
+    if (SCENE_BREAK.test(line)) {
+      closeBlock();
+      if (blocks.length > 0) pendingPause = 'scene';
+      continue;
+    }
+
+    const prefix = line.match(HEADING) || line.match(LIST_ITEM) || line.match(BLOCKQUOTE);
+    const isHeading = HEADING.test(line);
+    const isStandalone = isHeading || LIST_ITEM.test(line);
+    const contentStart = lineStart + (prefix ? prefix[0].length : 0);
+
+    if (current && !isStandalone && !prefix) {
+      // Hard-wrapped prose continues the current paragraph
+      (current as TextBlock).end = lineEnd;
+      continue;
+    }
+
+    closeBlock();
+    current = {
+      start: contentStart,
+      end: lineEnd,
+      pause: pendingPause || (isHeading && blocks.length > 0 ? 'paragraph' : undefined),
+      isStandalone
+    };
+    pendingPause = undefined;
+
+    if (isStandalone) closeBlock();
+  }
+
+  closeBlock();
+  return blocks;
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__|~~|`)/g, '')
+    .replace(/(^|[\s(])[*_]+(?=\S)/g, '$1')
+    .replace(/(\S)[*_]+(?=[\s).,!?;:]|$)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Does the period at `index` end a sentence?
+function isSentenceEnd(text: string, index: number): boolean {
+  const before = text.slice(0, index).match(/([A-Za-z.]+)$/);
+  const word = before ? before[1] : '';
+
+  // '"Really?" she asked.' is one sentence
+  if (/^[.!?…]*["'”’)\]*_]*\s+[a-z]/.test(text.slice(index))) return false;
+  if (text[index] !== '.') return true;
+  if (NON_TERMINAL.has(word)) return false;
+  if (SOFT_TERMINAL.has(word)) return /^[.]*["'”’)\]]*\s+["'“‘(]*[A-Z]/.test(text.slice(index + 1));
+  // Initials: "J. K. Rowling"
+  if (/^[A-Z]$/.test(word)) return false;
+  return true;
+}
+
+// Split a block into sentences, returning source ranges
+function splitSentenceRanges(text: string, blockStart: number, blockEnd: number): [number, number][] {
+  const ranges: [number, number][] = [];
+  const block = text.slice(blockStart, blockEnd);
+  const boundary = /[.!?…]+["'”’)\]*_]*(?=\s|$)/g;
+  let sentenceStart = 0;
+
+  for (const match of block.matchAll(boundary)) {
+    const end = match.index! + match[0].length;
+    if (!isSentenceEnd(block, match.index!)) continue;
+
+    ranges.push([sentenceStart, end]);
+    sentenceStart = end;
+  }
+  if (sentenceStart < block.length) ranges.push([sentenceStart, block.length]);
+
+  return ranges
+    .map(([start, end]): [number, number] => {
+      const raw = block.slice(start, end);
+      const leading = raw.length - raw.trimStart().length;
+      const trailing = raw.length - raw.trimEnd().length;
+      return [blockStart + start + leading, blockStart + end - trailing];
+    })
+    .filter(([start, end]) => end > start);
+}
+
+// Cut a sentence where attributed dialogue starts or ends, so quoted speech
+// and the narration around it can be voiced separately
+function splitAtDialogue(
+  text: string,
+  start: number,
+  end: number,
+  dialogue: DialogueSpan[]
+): { start: number; end: number; speaker?: string }[] {
+  const spans = dialogue.filter(span => span.speaker && span.start < end && span.end > start);
+  if (spans.length === 0) return [{ start, end }];
+
+  const cuts = Array.from(new Set([
+    start,
+    ...spans.flatMap(span => [span.start, span.end]).filter(cut => cut > start && cut < end),
+    end
+  ])).sort((a, b) => a - b);
+
+  return cuts.slice(0, -1).flatMap((cut, i) => {
+    const raw = text.slice(cut, cuts[i + 1]);
+    const pieceStart = cut + (raw.length - raw.trimStart().length);
+    const pieceEnd = cuts[i + 1] - (raw.length - raw.trimEnd().length);
+    if (pieceEnd <= pieceStart) return [];
+
+    const span = spans.find(candidate => candidate.start <= pieceStart && pieceEnd <= candidate.end);
+    return [{ start: pieceStart, end: pieceEnd, speaker: span?.speaker || undefined }];
+  });
+}
+
+export interface SegmentOptions {
+  // Attributed quotes, split out into their own segments tagged with the speaker
+  dialogue?: DialogueSpan[];
+  languageCode?: string;
+}
+
+/**
+ * Break chapter text into sentences ready for synthesis. Each segment keeps
+ * its source range, its display text and its spoken form.
+ */
+export function segmentForSpeech(
+  text: string,
+  { dialogue = [], languageCode = 'en-US' }: SegmentOptions = {}
+): SpeechSegment[] {
+  const segments: SpeechSegment[] = [];
+
+  for (const block of splitBlocks(text)) {
+    const ranges = splitSentenceRanges(text, block.start, block.end)
+      .flatMap(([start, end], sentence) =>
+        splitAtDialogue(text, start, end, dialogue).map(piece => ({ ...piece, sentence }))
+      );
+    let lastSentence = -1;
+
+    ranges.forEach(({ start, end, speaker, sentence }, i) => {
+      const display = stripInlineMarkdown(text.slice(start, end));
+      let spoken = speakableText(display, languageCode);
+      if (!/[a-z0-9]/i.test(spoken)) return;
+
+      // Keep the closing punctuation when an expansion swallowed it ("5 p.m."),
+      // and give headings and list items a full stop so they are not run together
+      const isLastInBlock = i === ranges.length - 1;
+      const endsSentence = /[.!?…]["'”’)]*$/.test(display) || (block.isStandalone && isLastInBlock);
+      if (endsSentence && !/[.!?…:;]["'”’)]*$/.test(spoken)) {
+        spoken += '.';
+      }
+
+      segments.push({
+        text: display,
+        spoken,
+        start,
+        end,
+        pause: i === 0 ? block.pause : undefined,
+        ...(speaker && { speaker }),
+        ...(sentence === lastSentence && { continuesSentence: true })
+      });
+      lastSentence = sentence;
+    });
+  }
+
+  // A pause before the first sentence is meaningless
+  if (segments[0]) segments[0].pause = undefined;
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function escapeSsml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Apply the pronunciation lexicon to spoken text. With SSML, IPA entries
+// become <phoneme> tags and the rest of the text is escaped; in plain text
+// only respellings can be used.
+function applyPronunciations(text: string, lexicon: PronunciationEntry[], ssml: boolean): string {
+  const escape = ssml ? escapeSsml : (value: string) => value;
+  const entries = lexicon
+    .filter(entry => entry.term && (entry.spoken || (ssml && entry.ipa)))
+    // Longest first so "New York City" wins over "New York"
+    .sort((a, b) => b.term.length - a.term.length);
+  if (entries.length === 0) return escape(text);
+
+  const terms = entries.map(entry => entry.term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<!\\w)(?:${terms.join('|')})(?!\\w)`, 'gi');
+  let result = '';
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const entry = entries.find(candidate => candidate.term.toLowerCase() === match[0].toLowerCase())!;
+    const said = ssml && entry.ipa
+      ? `<phoneme alphabet="ipa" ph="${escapeSsml(entry.ipa)}">${escapeSsml(match[0])}</phoneme>`
+      : escape(entry.spoken!);
+
+    result += escape(text.slice(last, match.index)) + said;
+    last = match.index! + match[0].length;
+  }
+
+  return result + escape(text.slice(last));
+}
+
+// SSML for a single segment, including the break before it
+export function segmentToSsml(segment: SpeechSegment, lexicon: PronunciationEntry[] = []): string {
+  const pause = segment.pause ? `<break time="${PAUSE_MS[segment.pause]}ms"/>` : '';
+  return pause + applyPronunciations(segment.spoken, lexicon, true);
+}
+
+export function segmentsToSsml(segments: SpeechSegment[], lexicon: PronunciationEntry[] = []): string {
+  return `<speak>${segments.map(segment => segmentToSsml(segment, lexicon)).join(' ')}</speak>`;
+}
+
+// Plain-text fallback for engines without SSML: pauses become blank lines
+export function segmentsToText(segments: SpeechSegment[], lexicon: PronunciationEntry[] = []): string {
+  return segments
+    .map(segment => applyPronunciations(segment.spoken, lexicon, false))
+    .map((spoken, i) => (i > 0 && segments[i].pause ? `\n\n${spoken}` : spoken))
+    .join(' ')
+    .replace(/ \n\n/g, '\n\n');
+}
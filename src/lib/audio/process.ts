@@ -0,0 +1,27 @@
+import { spawn } from 'child_process';
+
+// Run a command, feed it stdin and collect stdout
+export function runProcess(command: string, args: string[], input?: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    const output: Buffer[] = [];
+    const errors: Buffer[] = [];
+
+    child.stdout.on('data', (data: Buffer) => output.push(data));
+    child.stderr.on('data', (data: Buffer) => errors.push(data));
+    child.on('error', (error) => reject(new Error(`Failed to start ${command}: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${Buffer.concat(errors).toString().trim()}`));
+      }
+    });
+
+    if (input) {
+      child.stdin.end(input);
+    } else {
+      child.stdin.end();
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import { runProcess } from '@/lib/audio/process';
+import type { SynthesisRequest, TtsProvider, TtsVoice } from './types';
+
+// espeak-ng voice variants standing in for the book voice preferences
+const voiceMap: { [key: string]: string } = {
+  'male': 'en-us+m3',
+  'female': 'en-us+f3'
+};
+
+const voices: TtsVoice[] = [
+  { id: 'en-us+m3', name: 'espeak-ng US English (male)', gender: 'male', languageCode: 'en-US' },
+  { id: 'en-us+f3', name: 'espeak-ng US English (female)', gender: 'female', languageCode: 'en-US' },
+  { id: 'en-gb+m3', name: 'espeak-ng British English (male)', gender: 'male', languageCode: 'en-GB' },
+  { id: 'en-gb+f3', name: 'espeak-ng British English (female)', gender: 'female', languageCode: 'en-GB' }
+];
+
+const DEFAULT_WORDS_PER_MINUTE = 175;
+
+/**
+ * Offline TTS through the espeak-ng CLI, encoded to MP3 with ffmpeg.
+ * Both binaries must be on PATH (or set ESPEAK_PATH / FFMPEG_PATH).
+ */
+export class EspeakTtsProvider implements TtsProvider {
+  readonly name = 'espeak' as const;
+  readonly limits = { maxInputBytes: 4000, maxSentenceBytes: 800 };
+  readonly pricePerMillionCharacters = 0;
+
+  private espeakPath = process.env.ESPEAK_PATH || 'espeak-ng';
+  private ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+
+  async listVoices(languageCode?: string): Promise<TtsVoice[]> {
+    return languageCode ? voices.filter(voice => voice.languageCode === languageCode) : voices;
+  }
+
+  resolveVoice(voice: string, languageCode: string = 'en-US'): string {
+    const preset = voiceMap[voice] || (voices.some(v => v.id === voice) ? null : voiceMap['female']);
+    if (!preset) return voice;
+
+    // espeak-ng names voices by language ('de', 'en-gb') plus a variant
+    const [language, region] = languageCode.toLowerCase().split('-');
+    const espeakLanguage = language === 'en' ? `en-${region === 'gb' ? 'gb' : 'us'}` : language;
+    return preset.replace('en-us', espeakLanguage);
+  }
+
+  supportsSsml(): boolean {
+    return true;
+  }
+
+  async synthesize({ text, ssml = false, voice, languageCode, speakingRate = 1.0, pitch = 0.0 }: SynthesisRequest): Promise<Buffer> {
+    const wav = await runProcess(this.espeakPath, [
+      ...(ssml ? ['-m'] : []),
+      '-v', this.resolveVoice(voice, languageCode),
+      '-s', String(Math.round(DEFAULT_WORDS_PER_MINUTE * speakingRate)),
+      // espeak pitch is 0-99 (default 50); requests use semitones like Google
+      '-p', String(Math.min(99, Math.max(0, Math.round(50 + pitch * 2)))),
+      '--stdin',
+      '--stdout'
+    ], Buffer.from(text, 'utf8'));
+
+    return runProcess(this.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', 'pipe:0',
+      '-ac', '1', '-ar', '44100', '-b:a', '64k',
+      '-f', 'mp3', 'pipe:1'
+    ], wav);
+  }
+}
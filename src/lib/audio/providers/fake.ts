@@ -0,0 +1,59 @@
+import type { SynthesisRequest, TtsProvider, TtsVoice } from './types';
+
+const voices: TtsVoice[] = [
+  { id: 'fake-male', name: 'Silent test voice (male)', gender: 'male', languageCode: 'en-US' },
+  { id: 'fake-female', name: 'Silent test voice (female)', gender: 'female', languageCode: 'en-US' }
+];
+
+// Narration pace used to size the fake audio (~150 words per minute)
+const WORDS_PER_SECOND = 2.5;
+
+// MPEG-1 Layer III, 32 kbps, 44.1 kHz, mono, no CRC
+const FRAME_HEADER = Buffer.from([0xff, 0xfb, 0x10, 0xc0]);
+const FRAME_BYTES = 104; // floor(144 * 32000 / 44100)
+const SAMPLES_PER_FRAME = 1152;
+const SAMPLE_RATE = 44100;
+
+// A frame with zeroed side info and main data decodes to silence
+function silentFrame(): Buffer {
+  const frame = Buffer.alloc(FRAME_BYTES);
+  FRAME_HEADER.copy(frame, 0);
+  return frame;
+}
+
+/**
+ * Deterministic provider for development and tests: no credentials, no
+ * binaries, no network. Produces valid silent MP3 whose length follows the
+ * word count and speaking rate, so the same text always yields the same bytes.
+ */
+export class FakeTtsProvider implements TtsProvider {
+  readonly name = 'fake' as const;
+  readonly limits = { maxInputBytes: 4000, maxSentenceBytes: 800 };
+  readonly pricePerMillionCharacters = 0;
+
+  async listVoices(languageCode?: string): Promise<TtsVoice[]> {
+    return languageCode ? voices.filter(voice => voice.languageCode === languageCode) : voices;
+  }
+
+  resolveVoice(voice: string): string {
+    return voice === 'male' ? 'fake-male' : voice === 'female' ? 'fake-female' : voice;
+  }
+
+  supportsSsml(): boolean {
+    return true;
+  }
+
+  async synthesize({ text, ssml = false, speakingRate = 1.0 }: SynthesisRequest): Promise<Buffer> {
+    // SSML <break>s add their own silence on top of the spoken words
+    const breakSeconds = ssml
+      ? Array.from(text.matchAll(/<break time="(\d+)ms"\/>/g)).reduce((sum, match) => sum + Number(match[1]) / 1000, 0)
+      : 0;
+    const spokenText = ssml ? text.replace(/<[^>]+>/g, ' ') : text;
+    const words = spokenText.trim().split(/\s+/).filter(Boolean).length;
+    const seconds = Math.max(words, 1) / (WORDS_PER_SECOND * speakingRate) + breakSeconds;
+    const frameCount = Math.ceil((seconds * SAMPLE_RATE) / SAMPLES_PER_FRAME);
+    const frame = silentFrame();
+
+    return Buffer.concat(Array.from({ length: frameCount }, () => frame));
+  }
+}
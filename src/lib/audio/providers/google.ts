@@ -0,0 +1,65 @@
+import { TextToSpeechClient } from '@google-cloud/text-to-speech';
+import type { SynthesisRequest, TtsProvider, TtsVoice } from './types';
+
+// Voice mapping to match old AWS Lambda configuration
+const voiceMap: { [key: string]: string } = {
+  'male': 'en-US-Chirp3-HD-Umbriel',
+  'female': 'en-US-Chirp3-HD-Aoede'
+};
+
+export class GoogleTtsProvider implements TtsProvider {
+  readonly name = 'google' as const;
+  // Google allows 5000 bytes per request; Chirp HD voices reject long sentences
+  readonly limits = { maxInputBytes: 4000, maxSentenceBytes: 800 };
+  // Chirp 3 HD pricing
+  readonly pricePerMillionCharacters = 30;
+
+  private client: TextToSpeechClient;
+
+  constructor() {
+    this.client = new TextToSpeechClient({
+      projectId: process.env.GOOGLE_CLOUD_PROJECT,
+      credentials: JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS || '{}')
+    });
+  }
+
+  async listVoices(languageCode: string = 'en-US'): Promise<TtsVoice[]> {
+    const [response] = await this.client.listVoices({ languageCode });
+
+    return (response.voices || []).map(voice => ({
+      id: voice.name || '',
+      name: voice.name || '',
+      gender: voice.ssmlGender === 'MALE' ? 'male' : voice.ssmlGender === 'FEMALE' ? 'female' : 'neutral',
+      languageCode: voice.languageCodes?.[0] || languageCode
+    }));
+  }
+
+  resolveVoice(voice: string, languageCode: string = 'en-US'): string {
+    const preset = voiceMap[voice] || (voice.includes('-') ? null : voiceMap['female']);
+    // Chirp 3 HD voices share their names across locales
+    return preset ? preset.replace('en-US', languageCode) : voice;
+  }
+
+  // Chirp 3 HD voices reject SSML input
+  supportsSsml(voice: string): boolean {
+    return !this.resolveVoice(voice).includes('Chirp3-HD');
+  }
+
+  async synthesize({ text, ssml = false, voice, languageCode = 'en-US', speakingRate = 1.0, pitch = 0.0 }: SynthesisRequest): Promise<Buffer> {
+    const [response] = await this.client.synthesizeSpeech({
+      input: ssml ? { ssml: text } : { text },
+      voice: {
+        // Voice names start with their locale; Google rejects a mismatch
+        languageCode: this.resolveVoice(voice, languageCode).split('-').slice(0, 2).join('-'),
+        name: this.resolveVoice(voice, languageCode)
+      },
+      audioConfig: {
+        audioEncoding: 'MP3',
+        speakingRate,
+        pitch
+      }
+    });
+
+    return response.audioContent ? Buffer.from(response.audioContent) : Buffer.alloc(0);
+  }
+}
@@ -0,0 +1,49 @@
+import { EspeakTtsProvider } from './espeak';
+import { FakeTtsProvider } from './fake';
+import { GoogleTtsProvider } from './google';
+import type { TtsProvider, TtsProviderName } from './types';
+
+export type { SynthesisRequest, TtsLimits, TtsProvider, TtsProviderName, TtsVoice, VoicePreference } from './types';
+
+const providers: Partial<Record<TtsProviderName, TtsProvider>> = {};
+
+function createProvider(name: TtsProviderName): TtsProvider {
+  switch (name) {
+    case 'google':
+      return new GoogleTtsProvider();
+    case 'espeak':
+      return new EspeakTtsProvider();
+    case 'fake':
+      return new FakeTtsProvider();
+    default:
+      throw new Error(`Unknown TTS provider: ${name}`);
+  }
+}
+
+// Provider used when TTS_PROVIDER is not set
+function defaultProviderName(): TtsProviderName {
+  if (process.env.GOOGLE_APPLICATION_CREDENTIALS) return 'google';
+  if (process.env.NODE_ENV === 'development') return 'fake';
+
+  // Falling back to the fake provider here would publish silent audio
+  throw new Error(
+    'No TTS provider configured: set TTS_PROVIDER or GOOGLE_APPLICATION_CREDENTIALS'
+  );
+}
+
+/**
+ * Pick the TTS engine from TTS_PROVIDER (google | espeak | fake).
+ * Without a setting, Google is used when credentials are configured. The
+ * silent fake provider is only used by default in development, so local
+ * setups work with no cloud access; anywhere else a missing setting throws.
+ */
+export function getTtsProvider(name?: TtsProviderName): TtsProvider {
+  const providerName = name
+    || (process.env.TTS_PROVIDER as TtsProviderName | undefined)
+    || defaultProviderName();
+
+  if (!providers[providerName]) {
+    providers[providerName] = createProvider(providerName);
+  }
+  return providers[providerName]!;
+}
@@ -0,0 +1,50 @@
+/**
+ * Text-to-speech provider abstraction.
+ * Every provider returns MP3 audio so chunks can be joined and uploaded the
+ * same way regardless of the engine behind them.
+ */
+
+export type TtsProviderName = 'google' | 'espeak' | 'fake';
+
+// Book-level voice choices stored in biglios.voice_preference
+export type VoicePreference = 'male' | 'female';
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  gender: 'male' | 'female' | 'neutral';
+  languageCode: string;
+}
+
+export interface TtsLimits {
+  // Max size of a single synthesis request
+  maxInputBytes: number;
+  // Max size of one sentence before it has to be split on word boundaries
+  maxSentenceBytes: number;
+}
+
+export interface SynthesisRequest {
+  // Plain text, or an SSML document when ssml is set
+  text: string;
+  ssml?: boolean;
+  // Either a VoicePreference or a provider-specific voice id
+  voice: string;
+  languageCode?: string;
+  speakingRate?: number;
+  pitch?: number;
+}
+
+export interface TtsProvider {
+  readonly name: TtsProviderName;
+  readonly limits: TtsLimits;
+  // List price in USD, used for cost estimates before generating a book
+  readonly pricePerMillionCharacters: number;
+  listVoices(languageCode?: string): Promise<TtsVoice[]>;
+  // Map a VoicePreference to this provider's voice id for the language
+  // (ids pass through)
+  resolveVoice(voice: string, languageCode?: string): string;
+  // Whether requests for this voice may be sent as SSML
+  supportsSsml(voice: string): boolean;
+  // Returns MP3 audio
+  synthesize(request: SynthesisRequest): Promise<Buffer>;
+}
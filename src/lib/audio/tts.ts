@@ -0,0 +1,392 @@
+import { getTtsProvider, type TtsLimits, type TtsProvider } from '@/lib/audio/providers';
+import { createSilence, parseMp3 } from '@/lib/audio/mp3';
+import { chunkCacheKey, createChunkCache, type PreviousChapterAudio } from '@/lib/audio/chunkCache';
+import { findDialogue, type CastMember } from '@/lib/audio/dialogue';
+import { DEFAULT_NARRATION_SETTINGS } from '@/lib/audio/narrationSettings';
+import { LEAD_IN_SECONDS, TAIL_SECONDS, getLoudnessTarget, normalizeLoudness } from '@/lib/audio/mastering';
+import {
+  segmentForSpeech,
+  segmentToSsml,
+  segmentsToSsml,
+  segmentsToText,
+  speakableText,
+  type SpeechPause,
+  type SpeechSegment
+} from '@/lib/audio/normalize';
+import type { AlignedChunk, AlignedSentence, AudioAlignment, NarrationSettings, PronunciationEntry } from '@/types/database';
+
+export interface TextChunk {
+  // Character range of the chunk in the source text
+  start: number;
+  end: number;
+  sentences: SpeechSegment[];
+  // Cast voice the chunk is read in; narration has none
+  voice?: string;
+  // Paragraph or scene break before the chunk
+  pause?: SpeechPause;
+  // Starts part way through a sentence, so no pause goes before it
+  continuesSentence?: boolean;
+}
+
+export interface PlannedChunk {
+  chunk: TextChunk;
+  // Book voice for narration, the cast member's voice for their dialogue
+  voice: string;
+  // Request body sent to the provider (SSML or plain text)
+  text: string;
+  ssml: boolean;
+  hash: string;
+  // Silence inserted before the chunk when the chapter is assembled
+  pauseBeforeSeconds: number;
+}
+
+export interface SpeechResult {
+  audio: Buffer;
+  alignment: AudioAlignment;
+  synthesizedChunks: number;
+  reusedChunks: number;
+}
+
+export interface SynthesisPlanOptions {
+  provider?: TtsProvider;
+  // Characters whose attributed dialogue is read in their own voice
+  cast?: CastMember[];
+  // The book's rate, pitch, language, pronunciations and pauses
+  narration?: NarrationSettings;
+  // Spoken before and after the chapter text ("Chapter 3: The Storm")
+  intro?: string;
+  outro?: string;
+  // Integrated loudness chunks are normalized to; null leaves them as synthesized
+  loudnessTarget?: number | null;
+}
+
+export interface TextToSpeechOptions extends SynthesisPlanOptions {
+  // Called after each chunk so long chapters can report progress (and keep
+  // their job lease alive)
+  onProgress?: (completedChunks: number, totalChunks: number) => Promise<void> | void;
+  // Existing chapter audio; unchanged chunks are spliced from it
+  previous?: PreviousChapterAudio | null;
+}
+
+interface ChunkOptions {
+  cast?: CastMember[];
+  // Book voice; cast members sharing it are read with the narration
+  voice?: string;
+  languageCode?: string;
+  pronunciations?: PronunciationEntry[];
+}
+
+// Request wrapper added around every chunk when sending SSML
+const SSML_OVERHEAD_BYTES = Buffer.byteLength('<speak></speak>', 'utf8');
+
+// Helper function to split long sentences that exceed the provider byte limit.
+// Splits on words of the display text; the source range of each part is
+// interpolated since markdown and expansions change the lengths.
+function splitLongSentence(
+  sentence: SpeechSegment,
+  maxBytes: number = 800,
+  { languageCode, pronunciations }: ChunkOptions = {}
+): SpeechSegment[] {
+  // If sentence is under the limit, return as-is
+  if (Buffer.byteLength(segmentToSsml(sentence, pronunciations), 'utf8') <= maxBytes) {
+    return [sentence];
+  }
+
+  const words = sentence.text.split(' ');
+  const sourceLength = sentence.end - sentence.start;
+  const parts: SpeechSegment[] = [];
+  let currentWords: string[] = [];
+  let partOffset = 0;
+  let offset = 0;
+
+  const toSource = (displayOffset: number) =>
+    sentence.start + Math.round((displayOffset / sentence.text.length) * sourceLength);
+
+  const pushPart = (partWords: string[], displayStart: number, displayEnd: number) => {
+    const text = partWords.join(' ');
+    parts.push({
+      text,
+      spoken: speakableText(text, languageCode),
+      start: toSource(displayStart),
+      end: toSource(displayEnd),
+      pause: parts.length === 0 ? sentence.pause : undefined,
+      ...(sentence.speaker && { speaker: sentence.speaker }),
+      ...((parts.length > 0 || sentence.continuesSentence) && { continuesSentence: true })
+    });
+  };
+
+  for (const word of words) {
+    const testWords = [...currentWords, word];
+    const testPart = { ...sentence, spoken: speakableText(testWords.join(' '), languageCode), pause: parts.length === 0 ? sentence.pause : undefined };
+
+    // Check if adding this word would exceed the byte limit
+    if (currentWords.length > 0 && Buffer.byteLength(segmentToSsml(testPart, pronunciations), 'utf8') > maxBytes) {
+      pushPart(currentWords, partOffset, offset - 1);
+      currentWords = [word];
+      partOffset = offset;
+    } else {
+      // A single word that is too long still goes out on its own
+      currentWords = testWords;
+    }
+    offset += word.length + 1;
+  }
+
+  if (currentWords.length > 0) {
+    pushPart(currentWords, partOffset, sentence.text.length);
+  }
+
+  return parts;
+}
+
+// Normalize the text and group its sentences into chunks within the
+// provider's request limits
+export function chunkSegments(
+  text: string,
+  limits: TtsLimits = { maxInputBytes: 4000, maxSentenceBytes: 800 },
+  options: ChunkOptions = {}
+): TextChunk[] {
+  const { cast = [], voice, languageCode, pronunciations } = options;
+  const castVoices = new Map(cast.map(member => [member.name, member.voice]));
+  const chunks: TextChunk[] = [];
+  let current: SpeechSegment[] = [];
+  let currentVoice: string | undefined;
+  let currentBytes = SSML_OVERHEAD_BYTES;
+
+  // Cast voice of a segment, or undefined when it is read in the book voice
+  const voiceOf = (segment: SpeechSegment): string | undefined => {
+    const castVoice = segment.speaker ? castVoices.get(segment.speaker) : undefined;
+    return castVoice && castVoice !== voice ? castVoice : undefined;
+  };
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      sentences: current,
+      ...(currentVoice && { voice: currentVoice }),
+      ...(current[0].pause && { pause: current[0].pause }),
+      ...(current[0].continuesSentence && { continuesSentence: true })
+    });
+    current = [];
+    currentBytes = SSML_OVERHEAD_BYTES;
+  };
+
+  const dialogue = cast.length > 0 ? findDialogue(text, cast) : [];
+
+  for (const sentence of segmentForSpeech(text, { dialogue, languageCode })) {
+    // Paragraphs start a new chunk so an edit only invalidates its own paragraph
+    if (sentence.pause) flush();
+    // Each chunk is read in a single voice
+    const sentenceVoice = voiceOf(sentence);
+    if (current.length > 0 && currentVoice !== sentenceVoice) flush();
+    currentVoice = sentenceVoice;
+
+    // Split long sentences to stay under the provider's sentence limit
+    for (const part of splitLongSentence(sentence, limits.maxSentenceBytes, options)) {
+      const partBytes = Buffer.byteLength(segmentToSsml(part, pronunciations), 'utf8') + 1;
+
+      if (currentBytes + partBytes > limits.maxInputBytes) flush();
+      current.push(part);
+      currentBytes += partBytes;
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+// Helper function to chunk text for TTS within the provider's request limits
+export function chunkText(text: string, limits?: TtsLimits): string[] {
+  return chunkSegments(text, limits).map(chunk => segmentsToText(chunk.sentences));
+}
+
+// Spread a chunk's measured duration over its sentences by spoken length - the
+// provider only tells us where chunks start and end
+function alignSentences(chunk: TextChunk, chunkIndex: number, startTime: number, duration: number): AlignedSentence[] {
+  const totalLength = chunk.sentences.reduce((sum, sentence) => sum + sentence.spoken.length, 0);
+  let time = startTime;
+
+  return chunk.sentences.map((sentence, i) => {
+    const isLast = i === chunk.sentences.length - 1;
+    const endTime = isLast ? startTime + duration : time + (duration * sentence.spoken.length) / totalLength;
+    const aligned = {
+      text: sentence.text,
+      textStart: sentence.start,
+      textEnd: sentence.end,
+      startTime: time,
+      endTime,
+      chunkIndex
+    };
+    time = endTime;
+    return aligned;
+  });
+}
+
+// Chunks for a spoken intro or outro, pinned to one position in the text so
+// they carry no read-along range of their own
+function announcementChunks(announcement: string, position: number, limits: TtsLimits, options: ChunkOptions): TextChunk[] {
+  return chunkSegments(announcement, limits, options).map(chunk => ({
+    start: position,
+    end: position,
+    sentences: chunk.sentences.map(sentence => ({ ...sentence, start: position, end: position, pause: undefined }))
+  }));
+}
+
+/**
+ * Work out exactly which requests a chapter needs: the request body and voice
+ * for each chunk, its cache key and the pause before it. Used for synthesis
+ * and for cost estimates.
+ */
+export function planSynthesis(
+  text: string,
+  voice: string,
+  {
+    provider = getTtsProvider(),
+    cast = [],
+    narration = DEFAULT_NARRATION_SETTINGS,
+    intro,
+    outro,
+    loudnessTarget = null
+  }: SynthesisPlanOptions = {}
+): PlannedChunk[] {
+  const { languageCode, pronunciations, speakingRate, pitch } = narration;
+  const introChunks = intro ? announcementChunks(intro, 0, provider.limits, { languageCode, pronunciations }) : [];
+  const textChunks = chunkSegments(text, provider.limits, { cast, voice, languageCode, pronunciations });
+  const outroChunks = outro ? announcementChunks(outro, text.length, provider.limits, { languageCode, pronunciations }) : [];
+
+  const pauseBefore = (chunk: TextChunk, index: number): number => {
+    if (index === 0) return 0;
+    // Announcements are set apart from the chapter like a scene break
+    if (index === introChunks.length || index === introChunks.length + textChunks.length) {
+      return narration.scenePauseMs / 1000;
+    }
+    if (chunk.pause === 'scene') return narration.scenePauseMs / 1000;
+    if (chunk.pause === 'paragraph') return narration.paragraphPauseMs / 1000;
+    if (chunk.continuesSentence) return 0;
+    return narration.chunkPauseMs / 1000;
+  };
+
+  return [...introChunks, ...textChunks, ...outroChunks].map((chunk, index) => {
+    const chunkVoice = chunk.voice || voice;
+    const useSsml = provider.supportsSsml(chunkVoice);
+    // The pause before the chunk is inserted as silence, not an SSML <break>
+    const sentences = chunk.sentences.map((sentence, i) => (i === 0 ? { ...sentence, pause: undefined } : sentence));
+    const requestText = useSsml
+      ? segmentsToSsml(sentences, pronunciations)
+      : segmentsToText(sentences, pronunciations);
+    return {
+      chunk,
+      voice: chunkVoice,
+      text: requestText,
+      ssml: useSsml,
+      hash: chunkCacheKey({
+        provider: provider.name,
+        voice: provider.resolveVoice(chunkVoice, languageCode),
+        text: requestText,
+        ssml: useSsml,
+        languageCode,
+        speakingRate,
+        pitch,
+        loudnessTarget
+      }),
+      pauseBeforeSeconds: pauseBefore(chunk, index)
+    };
+  });
+}
+
+// Main TTS function: synthesizes (or reuses) every chunk, normalizes its
+// loudness and assembles the chapter with pauses and room tone
+export async function performTextToSpeech(
+  text: string,
+  voice: string,
+  {
+    onProgress,
+    provider = getTtsProvider(),
+    previous,
+    cast = [],
+    narration = DEFAULT_NARRATION_SETTINGS,
+    intro,
+    outro,
+    loudnessTarget
+  }: TextToSpeechOptions = {}
+): Promise<SpeechResult> {
+  const target = loudnessTarget === undefined ? await getLoudnessTarget() : loudnessTarget;
+  const planned = planSynthesis(text, voice, { provider, cast, narration, intro, outro, loudnessTarget: target });
+  const cache = createChunkCache(previous);
+  const audioParts: Buffer[] = [];
+  const alignedChunks: AlignedChunk[] = [];
+  const alignedSentences: AlignedSentence[] = [];
+  let synthesizedChunks = 0;
+  let byteOffset = 0;
+  let time = 0;
+
+  // Silence sits between chunks, outside their byte ranges, so cached chunks
+  // stay reusable when the pauses change
+  const addSilence = (like: Buffer, seconds: number) => {
+    if (seconds <= 0) return;
+    const silence = createSilence(like, seconds);
+    audioParts.push(silence);
+    byteOffset += silence.length;
+    time += parseMp3(silence).durationSeconds;
+  };
+
+  for (let i = 0; i < planned.length; i++) {
+    const { chunk, voice: chunkVoice, text: requestText, ssml, hash, pauseBeforeSeconds } = planned[i];
+
+    let audioContent = cache.get(hash);
+    if (!audioContent) {
+      audioContent = await provider.synthesize({
+        text: requestText,
+        ssml,
+        voice: chunkVoice,
+        languageCode: narration.languageCode,
+        speakingRate: narration.speakingRate,
+        pitch: narration.pitch
+      });
+      if (audioContent.length > 0 && target !== null) {
+        audioContent = await normalizeLoudness(audioContent, target);
+      }
+      synthesizedChunks++;
+    }
+
+    if (audioContent.length > 0) {
+      // Each chunk is measured on its own so timestamps stay exact across joins
+      const { durationSeconds } = parseMp3(audioContent);
+
+      addSilence(audioContent, audioParts.length === 0 ? LEAD_IN_SECONDS : pauseBeforeSeconds);
+
+      audioParts.push(audioContent);
+      alignedChunks.push({
+        index: i,
+        textStart: chunk.start,
+        textEnd: chunk.end,
+        byteOffset,
+        byteLength: audioContent.length,
+        startTime: time,
+        endTime: time + durationSeconds,
+        hash
+      });
+      alignedSentences.push(...alignSentences(chunk, i, time, durationSeconds));
+
+      byteOffset += audioContent.length;
+      time += durationSeconds;
+    }
+
+    await onProgress?.(i + 1, planned.length);
+  }
+
+  if (audioParts.length > 0) addSilence(audioParts[audioParts.length - 1], TAIL_SECONDS);
+
+  return {
+    audio: Buffer.concat(audioParts),
+    alignment: {
+      version: 1,
+      durationSeconds: time,
+      chunks: alignedChunks,
+      sentences: alignedSentences
+    },
+    synthesizedChunks,
+    reusedChunks: planned.length - synthesizedChunks
+  };
+}
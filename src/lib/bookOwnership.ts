@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { User } from '@supabase/supabase-js';
+
+type BookOwnerCheck =
+  | { user: User; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+/**
+ * Authenticate the caller of a book route and check they own the book's
+ * channel. Routes that work on a book with the service role call this first
+ * and return `response` when it is set.
+ */
+export async function requireBookOwner(bookId: string): Promise<BookOwnerCheck> {
+  const supabase = createRouteHandlerClient({
+    cookies: async () => await cookies()
+  });
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: book, error } = await supabase
+    .from('biglios')
+    .select('id, channel:channels(user_id)')
+    .eq('id', bookId)
+    .maybeSingle();
+
+  if (error || !book) {
+    return { response: NextResponse.json({ error: 'Book not found' }, { status: 404 }) };
+  }
+
+  const channel = book.channel as unknown as { user_id: string } | null;
+  if (channel?.user_id !== user.id) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { user };
+}
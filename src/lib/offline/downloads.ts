@@ -0,0 +1,275 @@
+import type { AudioAlignment } from '@/types/database';
+
+/**
+ * Offline audiobook downloads. Chapter MP3s and cover art are kept in Cache
+ * Storage under their original URLs, and each downloaded book's metadata in
+ * IndexedDB, so a book can be listed and played with no connection. Browser
+ * only - every function here expects `window`.
+ */
+
+const DB_NAME = 'biglio-offline';
+const DB_VERSION = 1;
+const BOOKS_STORE = 'books';
+const CACHE_NAME = 'biglio-downloads';
+// Books per availability request (the route's limit)
+const AVAILABILITY_BATCH_SIZE = 200;
+
+export interface DownloadedChapter {
+  id: string;
+  title: string;
+  chapter_number: number;
+  audio_url: string;
+  duration_seconds: number;
+  audio_alignment?: AudioAlignment | null;
+}
+
+export interface DownloadedBook {
+  id: string;
+  title: string;
+  description: string;
+  cover_url?: string;
+  channel_handle?: string;
+  chapters: DownloadedChapter[];
+  // Bytes of audio and cover art stored for the book
+  size_bytes: number;
+  downloaded_at: string;
+}
+
+export interface DownloadProgress {
+  completed: number;
+  total: number;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+interface DownloadableBook {
+  id: string;
+  title: string;
+  description?: string;
+  cover_url?: string;
+  channel?: { handle: string };
+}
+
+interface DownloadableChapter {
+  id: string;
+  title: string;
+  chapter_number: number;
+  audio_url?: string;
+  duration_seconds: number;
+  audio_alignment?: AudioAlignment | null;
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window && 'indexedDB' in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(BOOKS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withBooksStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(BOOKS_STORE, mode);
+      const request = run(transaction.objectStore(BOOKS_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function bookUrls(book: Pick<DownloadedBook, 'chapters' | 'cover_url'>): string[] {
+  const urls = book.chapters.map(chapter => chapter.audio_url);
+  return book.cover_url ? [...urls, book.cover_url] : urls;
+}
+
+/** Downloaded books, most recent first. */
+export async function listDownloads(): Promise<DownloadedBook[]> {
+  if (!isOfflineSupported()) return [];
+
+  const books = await withBooksStore<DownloadedBook[]>('readonly', store => store.getAll());
+  return books.sort((a, b) => b.downloaded_at.localeCompare(a.downloaded_at));
+}
+
+export async function getDownload(bookId: string): Promise<DownloadedBook | null> {
+  if (!isOfflineSupported()) return null;
+
+  const book = await withBooksStore<DownloadedBook | undefined>('readonly', store => store.get(bookId));
+  return book || null;
+}
+
+/**
+ * Saves a book's chapter audio and cover art on the device. A failed download
+ * removes whatever it had stored, so a book is either fully downloaded or not
+ * at all.
+ */
+export async function downloadBook(
+  book: DownloadableBook,
+  chapters: DownloadableChapter[],
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<DownloadedBook> {
+  const downloadable = chapters
+    .filter((chapter): chapter is DownloadableChapter & { audio_url: string } => !!chapter.audio_url)
+    .map(chapter => ({
+      id: chapter.id,
+      title: chapter.title,
+      chapter_number: chapter.chapter_number,
+      audio_url: chapter.audio_url,
+      duration_seconds: chapter.duration_seconds || 0,
+      audio_alignment: chapter.audio_alignment || null
+    }));
+
+  if (downloadable.length === 0) {
+    throw new Error('This book has no audio to download yet');
+  }
+
+  // Ask the browser not to clear downloads when the device runs low on space
+  await navigator.storage?.persist?.().catch(() => false);
+
+  const cache = await caches.open(CACHE_NAME);
+  const stored: string[] = [];
+  let sizeBytes = 0;
+
+  const store = async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+
+    const blob = await response.blob();
+    await cache.put(url, new Response(blob, {
+      headers: {
+        'Content-Type': blob.type || response.headers.get('Content-Type') || 'application/octet-stream',
+        'Content-Length': String(blob.size)
+      }
+    }));
+    stored.push(url);
+    sizeBytes += blob.size;
+  };
+
+  try {
+    const total = downloadable.length;
+    onProgress?.({ completed: 0, total });
+
+    for (const [index, chapter] of downloadable.entries()) {
+      await store(chapter.audio_url);
+      onProgress?.({ completed: index + 1, total });
+    }
+
+    if (book.cover_url) {
+      // The book still plays without its cover
+      await store(book.cover_url).catch(error => console.warn('⚠️ Could not download cover:', error));
+    }
+
+    const downloaded: DownloadedBook = {
+      id: book.id,
+      title: book.title,
+      description: book.description || '',
+      cover_url: book.cover_url && stored.includes(book.cover_url) ? book.cover_url : undefined,
+      channel_handle: book.channel?.handle,
+      chapters: downloadable,
+      size_bytes: sizeBytes,
+      downloaded_at: new Date().toISOString()
+    };
+    await withBooksStore('readwrite', objectStore => objectStore.put(downloaded));
+
+    console.log(`✓ Downloaded "${book.title}": ${downloadable.length} chapters, ${formatBytes(sizeBytes)}`);
+    return downloaded;
+  } catch (error) {
+    await Promise.all(stored.map(url => cache.delete(url)));
+
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error('Not enough storage space on this device to download this book');
+    }
+    throw error;
+  }
+}
+
+/** Deletes a downloaded book's audio, cover and metadata from the device. */
+export async function removeDownload(bookId: string): Promise<void> {
+  const book = await getDownload(bookId);
+  if (!book) return;
+
+  const cache = await caches.open(CACHE_NAME);
+  await Promise.all(bookUrls(book).map(url => cache.delete(url)));
+  await withBooksStore('readwrite', store => store.delete(bookId));
+}
+
+/**
+ * An object URL for downloaded audio or cover art, or null when it is not on
+ * the device. Revoke it with URL.revokeObjectURL once it is no longer shown.
+ */
+export async function getCachedFileUrl(url: string): Promise<string | null> {
+  if (!isOfflineSupported()) return null;
+
+  const response = await caches.match(url, { cacheName: CACHE_NAME });
+  if (!response) return null;
+  return URL.createObjectURL(await response.blob());
+}
+
+/** How much storage this site uses and may use, where the browser reports it. */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage === undefined || quota === undefined) return null;
+  return { usage, quota };
+}
+
+/**
+ * Removes downloads of books that have since been unpublished or deleted by
+ * their author. Downloads are kept when availability cannot be checked, e.g.
+ * while offline. Returns the books removed.
+ */
+export async function removeRevokedDownloads(): Promise<DownloadedBook[]> {
+  const downloads = await listDownloads();
+  if (downloads.length === 0 || !navigator.onLine) return [];
+
+  try {
+    const revoked: DownloadedBook[] = [];
+
+    for (let i = 0; i < downloads.length; i += AVAILABILITY_BATCH_SIZE) {
+      const batch = downloads.slice(i, i + AVAILABILITY_BATCH_SIZE);
+      const response = await fetch('/api/books/availability', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookIds: batch.map(book => book.id) })
+      });
+      if (!response.ok) continue;
+
+      // Only books the server looked at can be revoked
+      const { available, checked } = await response.json() as { available: string[]; checked: string[] };
+      revoked.push(...batch.filter(book => checked.includes(book.id) && !available.includes(book.id)));
+    }
+
+    for (const book of revoked) {
+      await removeDownload(book.id);
+      console.log(`🗑️ Removed download of "${book.title}" - no longer available`);
+    }
+    return revoked;
+  } catch (error) {
+    console.warn('⚠️ Could not check downloaded books:', error);
+    return [];
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -0,0 +1,78 @@
+/**
+ * Minimal server-sent events helpers shared by streaming API routes and the
+ * client code that reads them. Every event carries a JSON payload:
+ *
+ *   event: token
+ *   data: {"text":"Once upon"}
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive'
+};
+
+const encoder = new TextEncoder();
+
+export function encodeServerSentEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+  }
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return { event, data: dataLines.join('\n') };
+  }
+}
+
+/**
+ * Read a text/event-stream response body, calling onEvent for each event in
+ * order. Resolves when the stream ends; rejects with an AbortError if the
+ * request's signal is aborted mid-stream.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) onEvent(parsed);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const trailing = parseEvent(buffer.trim());
+    if (trailing) onEvent(trailing);
+  } finally {
+    reader.releaseLock();
+  }
+}
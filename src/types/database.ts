@@ -58,11 +58,98 @@ export interface Chapter {
   order_index: number;
   audio_url?: string;
   duration_seconds: number;
+  audio_alignment?: AudioAlignment | null;
   is_published: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Read-along map stored in chapters.audio_alignment. Text offsets point into
+// the text the audio was generated from; times are in seconds.
+export interface AlignedSentence {
+  text: string;
+  textStart: number;
+  textEnd: number;
+  startTime: number;
+  endTime: number;
+  chunkIndex: number;
+}
+
+export interface AlignedChunk {
+  index: number;
+  textStart: number;
+  textEnd: number;
+  byteOffset: number;
+  byteLength: number;
+  startTime: number;
+  endTime: number;
+  // Cache key of the synthesized chunk, used to reuse it on regeneration
+  hash?: string;
+}
+
+export interface AudioAlignment {
+  version: 1;
+  durationSeconds: number;
+  chunks: AlignedChunk[];
+  sentences: AlignedSentence[];
+}
+
+// Per-book narration settings stored in biglios.narration_settings and
+// applied to every chapter the book generates
+export interface NarrationSettings {
+  // 1.0 is the voice's normal pace
+  speakingRate: number;
+  // Semitones up or down from the voice's normal pitch
+  pitch: number;
+  // BCP-47 locale, e.g. 'en-US'
+  languageCode: string;
+  pronunciations: PronunciationEntry[];
+  // Silence between paragraphs, at scene breaks and between other chunks
+  paragraphPauseMs: number;
+  scenePauseMs: number;
+  chunkPauseMs: number;
+  // Announce "Chapter N: Title" before each chapter
+  chapterIntro: boolean;
+  // Close each chapter with a line naming the book and channel
+  channelOutro: boolean;
+  // Custom outro; {book} and {channel} are filled in
+  outroText?: string;
+}
+
+// How to say a name or term. `spoken` is a respelling read as plain text
+// ("Hermione" -> "her-MY-oh-nee"); `ipa` is used in an SSML <phoneme> for
+// voices that accept SSML and takes precedence there.
+export interface PronunciationEntry {
+  term: string;
+  spoken?: string;
+  ipa?: string;
+}
+
+// A character whose attributed dialogue is narrated in their own voice
+export interface BookCastMember {
+  id: string;
+  biglio_id: string;
+  name: string;
+  aliases: string[];
+  // 'male' / 'female' or a provider voice id
+  voice: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A character, location, term or timeline fact the AI keeps consistent
+export interface StoryBibleEntryRow {
+  id: string;
+  biglio_id: string;
+  kind: 'character' | 'location' | 'term' | 'timeline';
+  name: string;
+  aliases: string[];
+  description: string;
+  chapter_number?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Like {
   id: string;
   user_id: string;
@@ -126,7 +213,14 @@ export interface BiglioTag {
 export interface AudioJob {
   id: string;
   chapter_id: string;
+  biglio_id?: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by?: string;
+  lease_expires_at?: string;
   audio_url?: string;
   duration_seconds?: number;
   error_message?: string;
@@ -137,6 +231,26 @@ export interface AudioJob {
   updated_at: string;
 }
 
+// A saved writing-assistant thread for one book (and optionally one chapter)
+export interface AIConversation {
+  id: string;
+  user_id: string;
+  biglio_id?: string;
+  chapter_id?: string;
+  title?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AIMessage {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  metadata: { interrupted?: boolean };
+  created_at: string;
+}
+
 // Helper types for API responses
 export interface BookWithChannel extends Biglio {
   channel: Channel;
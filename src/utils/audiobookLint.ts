@@ -0,0 +1,244 @@
+/**
+ * Audiobook compliance linter
+ * Checks chapter text against the formatting rules the writing assistant is
+ * told to follow, so text written by hand or pasted in gets the same checks.
+ */
+
+import { normalizeText } from '@/lib/audio/normalize';
+import { ordinalToWords, yearToWords } from '@/utils/spokenText';
+
+export type AudiobookLintRule =
+  | 'bullet-list'
+  | 'numbered-list'
+  | 'step-label'
+  | 'markdown'
+  | 'digits'
+  | 'percent-symbol'
+  | 'long-sentence';
+
+// Errors block publishing; warnings are read correctly by the narrator but should still be spelled out
+export type AudiobookLintSeverity = 'error' | 'warning';
+
+export interface AudiobookLintFix {
+  label: string;
+  replacement: string;
+}
+
+export interface AudiobookLintIssue {
+  rule: AudiobookLintRule;
+  severity: AudiobookLintSeverity;
+  message: string;
+  // Range in the chapter text
+  start: number;
+  end: number;
+  fix?: AudiobookLintFix;
+}
+
+export const MAX_SENTENCE_LENGTH = 800;
+
+export const AUDIOBOOK_LINT_RULES: Record<AudiobookLintRule, { label: string; severity: AudiobookLintSeverity }> = {
+  'bullet-list': { label: 'Bullet points', severity: 'error' },
+  'numbered-list': { label: 'Numbered lists', severity: 'error' },
+  'step-label': { label: '"Step 1:" labels', severity: 'error' },
+  markdown: { label: 'Markdown symbols', severity: 'error' },
+  'long-sentence': { label: `Sentences over ${MAX_SENTENCE_LENGTH} characters`, severity: 'error' },
+  digits: { label: 'Numbers written as digits', severity: 'warning' },
+  'percent-symbol': { label: 'Percent symbols', severity: 'warning' }
+};
+
+// Lines like "***" or "* * *" are scene breaks, not lists or emphasis
+const SCENE_BREAK = /^\s*(?:([*\-_~=#])\s*){3,}$|^\s*#\s*$/;
+const BULLET = /^[ \t]*[-*+•][ \t]+/;
+const NUMBERED = /^[ \t]*\d+[.)][ \t]+/;
+const HEADING = /^[ \t]*#{1,6}[ \t]+/;
+const STEP_LABEL = /\bstep\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s*[:.)–-]/gi;
+const EMPHASIS = /(\*\*|__|\*)(?=\S)([^*\n]+?)(?<=\S)\1/g;
+const STRAY_SYMBOL = /[*#]/g;
+// A number with the currency, percent, ordinal, decade, time or range parts that belong to it
+const NUMBER = /[$£€]?\d[\d,]*(?:[.:/]\d+)*(?:\s?%|st\b|nd\b|rd\b|th\b|s\b)?(?:\s?[–-]\s?\d[\d,]*(?:\.\d+)?%?)?/gi;
+const YEAR = /^(1[1-9]|20)\d{2}$/;
+
+const STEP_NUMBERS: { [word: string]: number } = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function issue(
+  rule: AudiobookLintRule,
+  message: string,
+  start: number,
+  end: number,
+  fix?: AudiobookLintFix
+): AudiobookLintIssue {
+  return { rule, severity: AUDIOBOOK_LINT_RULES[rule].severity, message, start, end, ...(fix && { fix }) };
+}
+
+// Spell out a number the way the narrator would read it
+function spokenNumber(value: string): string {
+  return YEAR.test(value) ? yearToWords(Number(value)) : normalizeText(value);
+}
+
+function lintLine(line: string, offset: number, issues: AudiobookLintIssue[]) {
+  if (SCENE_BREAK.test(line)) return;
+
+  const listMarker = line.match(BULLET) || line.match(NUMBERED);
+  if (listMarker) {
+    const isBullet = BULLET.test(line);
+    issues.push(issue(
+      isBullet ? 'bullet-list' : 'numbered-list',
+      isBullet
+        ? 'Bullet points are not read aloud. Turn the list into flowing sentences.'
+        : 'Numbered lists do not work in audio. Use spoken transitions such as "first" and "next".',
+      offset,
+      offset + listMarker[0].length,
+      { label: 'Remove list marker', replacement: '' }
+    ));
+  }
+
+  const heading = line.match(HEADING);
+  if (heading) {
+    issues.push(issue('markdown', 'Heading markers are read as symbols.', offset, offset + heading[0].length, {
+      label: 'Remove heading marker',
+      replacement: ''
+    }));
+  }
+
+  for (const match of line.matchAll(STEP_LABEL)) {
+    const value = match[1].toLowerCase();
+    const stepNumber = STEP_NUMBERS[value] ?? Number(value);
+    const transition = stepNumber >= 1 && stepNumber <= 10 ? capitalize(ordinalToWords(stepNumber)) : 'Next';
+    issues.push(issue(
+      'step-label',
+      '"Step" labels sound mechanical when narrated. Use a spoken transition instead.',
+      offset + match.index!,
+      offset + match.index! + match[0].length,
+      { label: `Replace with "${transition},"`, replacement: `${transition},` }
+    ));
+  }
+
+  // Emphasis first, so its asterisks are not also reported as stray symbols
+  const covered: [number, number][] = [];
+  for (const match of line.matchAll(EMPHASIS)) {
+    const start = offset + match.index!;
+    covered.push([start, start + match[0].length]);
+    issues.push(issue('markdown', 'Emphasis markers are read as symbols.', start, start + match[0].length, {
+      label: 'Remove emphasis markers',
+      replacement: match[2]
+    }));
+  }
+  const headingEnd = heading ? offset + heading[0].length : offset;
+  const listEnd = listMarker ? offset + listMarker[0].length : offset;
+  for (const match of line.matchAll(STRAY_SYMBOL)) {
+    const start = offset + match.index!;
+    if (start < headingEnd || start < listEnd || covered.some(([from, to]) => start >= from && start < to)) continue;
+    issues.push(issue('markdown', `The "${match[0]}" symbol is read aloud or skipped unpredictably.`, start, start + 1, {
+      label: 'Remove symbol',
+      replacement: ''
+    }));
+  }
+}
+
+function lintNumbers(text: string, issues: AudiobookLintIssue[]) {
+  // Digits inside list markers and step labels are fixed with them
+  const claimed = issues
+    .filter(existing => existing.rule !== 'markdown')
+    .map(existing => [existing.start, existing.end] as const);
+
+  for (const match of text.matchAll(NUMBER)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (claimed.some(([from, to]) => start < to && end > from)) continue;
+
+    const value = match[0];
+    const isPercent = value.includes('%');
+    issues.push(issue(
+      isPercent ? 'percent-symbol' : 'digits',
+      isPercent
+        ? 'Write "percent" instead of the % symbol, with the number spelled out.'
+        : 'Spell out numbers so the narration matches the text.',
+      start,
+      end,
+      { label: 'Spell out', replacement: spokenNumber(value) }
+    ));
+  }
+
+  // A % without a number in front of it
+  for (const match of text.matchAll(/%/g)) {
+    const start = match.index!;
+    if (issues.some(existing => existing.rule === 'percent-symbol' && start >= existing.start && start < existing.end)) continue;
+    issues.push(issue('percent-symbol', 'Write "percent" instead of the % symbol.', start, start + 1, {
+      label: 'Replace with "percent"',
+      replacement: /\s/.test(text[start - 1] || ' ') ? 'percent' : ' percent'
+    }));
+  }
+}
+
+// Sentences end at . ! ? or … (with any closing quotes) followed by whitespace, or at a line break
+function lintSentences(text: string, issues: AudiobookLintIssue[]) {
+  const boundary = /[.!?…]+["'”’)]*(?=\s|$)|\n/g;
+  let sentenceStart = 0;
+
+  const check = (end: number) => {
+    const sentence = text.slice(sentenceStart, end);
+    const leading = sentence.length - sentence.trimStart().length;
+    const trimmed = sentence.trim();
+    if (trimmed.length > MAX_SENTENCE_LENGTH) {
+      const start = sentenceStart + leading;
+      issues.push(issue(
+        'long-sentence',
+        `This sentence is ${trimmed.length.toLocaleString()} characters long. Keep sentences under ${MAX_SENTENCE_LENGTH} characters so they can be narrated in one breath.`,
+        start,
+        start + trimmed.length
+      ));
+    }
+  };
+
+  for (const match of text.matchAll(boundary)) {
+    const end = match.index! + match[0].length;
+    check(end);
+    sentenceStart = end;
+  }
+  check(text.length);
+}
+
+/**
+ * Check chapter text for formatting that does not work in an audiobook:
+ * lists, "Step 1:" labels, markdown, digits, % symbols and overlong sentences.
+ * Issues are sorted by position; most carry a quick fix.
+ */
+export function lintChapterText(text: string): AudiobookLintIssue[] {
+  const issues: AudiobookLintIssue[] = [];
+
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    lintLine(line, offset, issues);
+    offset += line.length + 1;
+  }
+  lintNumbers(text, issues);
+  lintSentences(text, issues);
+
+  return issues.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// Apply the quick fixes of the given issues, skipping any that overlap a fix already applied
+export function applyLintFixes(text: string, issues: AudiobookLintIssue[]): string {
+  const fixable = issues.filter(item => item.fix).sort((a, b) => b.start - a.start);
+  let result = text;
+  let lowestStart = Infinity;
+
+  for (const item of fixable) {
+    if (item.end > lowestStart) continue;
+    result = result.slice(0, item.start) + item.fix!.replacement + result.slice(item.end);
+    lowestStart = item.start;
+  }
+
+  return result;
+}
+
+export function countLintIssues(issues: AudiobookLintIssue[]): { errors: number; warnings: number } {
+  const errors = issues.filter(item => item.severity === 'error').length;
+  return { errors, warnings: issues.length - errors };
+}
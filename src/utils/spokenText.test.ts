@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  currencyToWords,
+  decimalToWords,
+  numberToWords,
+  ordinalToWords,
+  percentToWords,
+  phoneNumberToWords,
+  rangeToWords,
+  timeToWords,
+  yearToWords
+} from '@/utils/spokenText';
+
+describe('numberToWords', () => {
+  it('reads cardinals', () => {
+    expect(numberToWords(0)).toBe('zero');
+    expect(numberToWords(7)).toBe('seven');
+    expect(numberToWords(15)).toBe('fifteen');
+    expect(numberToWords(42)).toBe('forty-two');
+    expect(numberToWords(100)).toBe('one hundred');
+    expect(numberToWords(1250)).toBe('one thousand two hundred fifty');
+    expect(numberToWords(2000000)).toBe('two million');
+    expect(numberToWords(-42)).toBe('minus forty-two');
+  });
+
+  it('reads numbers past trillions with their scale', () => {
+    expect(numberToWords(1e15)).toBe('one quadrillion');
+    expect(numberToWords(2_500_000_000_000_000)).toBe('two quadrillion five hundred trillion');
+    expect(numberToWords(1e18)).toBe('one quintillion');
+  });
+
+  it('never reads exponent notation digit by digit', () => {
+    expect(numberToWords(1e21)).toBe('one sextillion');
+    expect(numberToWords(1e-7)).toBe('zero point zero zero zero zero zero zero one');
+  });
+
+  it('reads fractions as decimals', () => {
+    expect(numberToWords(1.5)).toBe('one point five');
+  });
+});
+
+describe('ordinalToWords', () => {
+  it('changes only the last word', () => {
+    expect(ordinalToWords(1)).toBe('first');
+    expect(ordinalToWords(2)).toBe('second');
+    expect(ordinalToWords(3)).toBe('third');
+    expect(ordinalToWords(12)).toBe('twelfth');
+    expect(ordinalToWords(20)).toBe('twentieth');
+    expect(ordinalToWords(21)).toBe('twenty-first');
+    expect(ordinalToWords(103)).toBe('one hundred third');
+  });
+});
+
+describe('yearToWords', () => {
+  it('reads years in pairs', () => {
+    expect(yearToWords(1984)).toBe('nineteen eighty-four');
+    expect(yearToWords(2024)).toBe('twenty twenty-four');
+    expect(yearToWords(1900)).toBe('nineteen hundred');
+    expect(yearToWords(1905)).toBe('nineteen oh five');
+  });
+
+  it('reads the 2000s and years outside 1100-2099 as numbers', () => {
+    expect(yearToWords(2005)).toBe('two thousand five');
+    expect(yearToWords(800)).toBe('eight hundred');
+  });
+});
+
+describe('decimalToWords', () => {
+  it('reads digits after the point one by one', () => {
+    expect(decimalToWords('3.14')).toBe('three point one four');
+    expect(decimalToWords('1,234.56')).toBe('one thousand two hundred thirty-four point five six');
+  });
+
+  it('keeps leading zeros', () => {
+    expect(decimalToWords('007')).toBe('zero zero seven');
+  });
+});
+
+describe('currencyToWords', () => {
+  it('reads major and minor units', () => {
+    expect(currencyToWords('$', '1,250.99')).toBe('one thousand two hundred fifty dollars and ninety-nine cents');
+    expect(currencyToWords('$', '1')).toBe('one dollar');
+    expect(currencyToWords('£', '3.50')).toBe('three pounds and fifty pence');
+    expect(currencyToWords('€', '0.01')).toBe('one cent');
+    expect(currencyToWords('US$', '5')).toBe('five US dollars');
+  });
+
+  it('reads amounts with a scale', () => {
+    expect(currencyToWords('€', '2.5', 'million')).toBe('two point five million euros');
+    expect(currencyToWords('$', '10', 'k')).toBe('ten thousand dollars');
+  });
+});
+
+describe('percentToWords', () => {
+  it('reads whole and decimal percentages', () => {
+    expect(percentToWords('40')).toBe('forty percent');
+    expect(percentToWords('2.5')).toBe('two point five percent');
+  });
+});
+
+describe('timeToWords', () => {
+  it("reads o'clock, minutes and periods", () => {
+    expect(timeToWords(3, 0)).toBe("three o'clock");
+    expect(timeToWords(3, 30)).toBe('three thirty');
+    expect(timeToWords(7, 5, 'p.m.')).toBe('seven oh five P M');
+    expect(timeToWords(10, 0, 'am')).toBe('ten A M');
+  });
+});
+
+describe('rangeToWords', () => {
+  it('reads ranges of numbers and of years', () => {
+    expect(rangeToWords('10', '20')).toBe('ten to twenty');
+    expect(rangeToWords('1,000', '2,000')).toBe('one thousand to two thousand');
+    expect(rangeToWords('1990', '2000')).toBe('nineteen ninety to two thousand');
+  });
+});
+
+describe('phoneNumberToWords', () => {
+  it('reads each group digit by digit', () => {
+    expect(phoneNumberToWords('555-1234')).toBe('five five five, one two three four');
+    expect(phoneNumberToWords('(555) 123-4567')).toBe('five five five, one two three, four five six seven');
+  });
+});
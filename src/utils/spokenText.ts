@@ -0,0 +1,220 @@
+/**
+ * Spoken forms of numbers
+ * Cardinals, ordinals, years, decimals, money, percentages, times, dates and
+ * ranges as a narrator would say them. Shared by TTS normalization and the
+ * clean-up applied to AI responses.
+ */
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = [
+  '', 'thousand', 'million', 'billion', 'trillion', 'quadrillion',
+  'quintillion', 'sextillion', 'septillion', 'octillion', 'nonillion', 'decillion'
+];
+
+const ORDINAL_EXCEPTIONS: { [key: string]: string } = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth'
+};
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const CURRENCIES: { [symbol: string]: [string, string, string, string] } = {
+  '$': ['dollar', 'dollars', 'cent', 'cents'],
+  'US$': ['US dollar', 'US dollars', 'cent', 'cents'],
+  'A$': ['Australian dollar', 'Australian dollars', 'cent', 'cents'],
+  'C$': ['Canadian dollar', 'Canadian dollars', 'cent', 'cents'],
+  'NZ$': ['New Zealand dollar', 'New Zealand dollars', 'cent', 'cents'],
+  'HK$': ['Hong Kong dollar', 'Hong Kong dollars', 'cent', 'cents'],
+  '£': ['pound', 'pounds', 'penny', 'pence'],
+  '€': ['euro', 'euros', 'cent', 'cents']
+};
+
+const SCALE_WORDS: { [key: string]: string } = {
+  k: 'thousand',
+  thousand: 'thousand',
+  m: 'million',
+  million: 'million',
+  b: 'billion',
+  bn: 'billion',
+  billion: 'billion',
+  trillion: 'trillion'
+};
+
+const YEAR = /^(1[1-9]|20)\d{2}$/;
+
+function belowThousand(num: number): string {
+  const parts: string[] = [];
+
+  if (num >= 100) {
+    parts.push(`${ONES[Math.floor(num / 100)]} hundred`);
+    num %= 100;
+  }
+  if (num >= 20) {
+    parts.push(TENS[Math.floor(num / 10)] + (num % 10 ? `-${ONES[num % 10]}` : ''));
+  } else if (num > 0) {
+    parts.push(ONES[num]);
+  }
+
+  return parts.join(' ');
+}
+
+// "007" -> "zero zero seven"
+export function spellDigits(digits: string): string {
+  return digits.split('').map(digit => ONES[Number(digit)]).join(' ');
+}
+
+// "1250" -> "one thousand two hundred fifty". Works on the digits so large
+// numbers keep their exact value; past decillions the digits are spelled out.
+function integerToWords(digits: string): string {
+  const trimmed = digits.replace(/^0+(?=\d)/, '');
+  if (trimmed === '0') return 'zero';
+
+  const groupCount = Math.ceil(trimmed.length / 3);
+  if (groupCount > SCALES.length) return spellDigits(trimmed);
+
+  const groups: string[] = [];
+  for (let scale = 0; scale < groupCount; scale++) {
+    const end = trimmed.length - scale * 3;
+    const group = Number(trimmed.slice(Math.max(0, end - 3), end));
+    if (group) {
+      groups.unshift(belowThousand(group) + (SCALES[scale] ? ` ${SCALES[scale]}` : ''));
+    }
+  }
+
+  return groups.join(' ');
+}
+
+export function numberToWords(num: number): string {
+  if (num < 0) return `minus ${numberToWords(-num)}`;
+  if (!Number.isInteger(num)) {
+    // Plain notation, never "1.5e-7"
+    return decimalToWords(num.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 }));
+  }
+  // BigInt gives every digit, where String(1e21) is "1e+21"
+  return integerToWords(BigInt(num).toString());
+}
+
+export function ordinalToWords(num: number): string {
+  const words = numberToWords(num);
+  // Only the last word changes: "twenty-one" -> "twenty-first"
+  return words.replace(/[a-z]+$/, (last) => {
+    if (ORDINAL_EXCEPTIONS[last]) return ORDINAL_EXCEPTIONS[last];
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+// 1984 -> "nineteen eighty-four", 2024 -> "twenty twenty-four", 2005 -> "two thousand five"
+export function yearToWords(year: number): string {
+  if (year >= 2000 && year < 2010) return numberToWords(year);
+  if (year < 1100 || year > 2099) return numberToWords(year);
+
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+
+  if (rest === 0) return `${numberToWords(century)} hundred`;
+  if (rest < 10) return `${numberToWords(century)} oh ${numberToWords(rest)}`;
+  return `${numberToWords(century)} ${numberToWords(rest)}`;
+}
+
+// "1,234.56" -> "one thousand two hundred thirty-four point five six"
+export function decimalToWords(value: string): string {
+  const [whole, fraction] = value.replace(/,/g, '').split('.');
+  const wholeWords = /^0\d/.test(whole) ? spellDigits(whole) : integerToWords(whole || '0');
+  return fraction ? `${wholeWords} point ${spellDigits(fraction)}` : wholeWords;
+}
+
+// "twenty" -> "twenties", for decades
+export function pluralizeNumberWords(words: string): string {
+  return words.replace(/y$/, 'ie') + 's';
+}
+
+// ("$", "1,250.99") -> "one thousand two hundred fifty dollars and ninety-nine cents"
+export function currencyToWords(symbol: string, amount: string, scale?: string): string {
+  const [singular, plural, minorSingular, minorPlural] = CURRENCIES[symbol] || CURRENCIES['$'];
+
+  if (scale) {
+    return `${decimalToWords(amount)} ${SCALE_WORDS[scale.toLowerCase()] || scale} ${plural}`;
+  }
+
+  const [whole, fraction] = amount.replace(/,/g, '').split('.');
+  const major = Number(whole);
+  const minor = fraction ? Number(fraction.padEnd(2, '0').slice(0, 2)) : 0;
+  const parts: string[] = [];
+
+  if (major > 0 || minor === 0) parts.push(`${numberToWords(major)} ${major === 1 ? singular : plural}`);
+  if (minor > 0) parts.push(`${numberToWords(minor)} ${minor === 1 ? minorSingular : minorPlural}`);
+
+  return parts.join(' and ');
+}
+
+export function percentToWords(value: string): string {
+  return `${decimalToWords(value)} percent`;
+}
+
+// (7, 5, "p.m.") -> "seven oh five P M"
+export function timeToWords(hours: number, minutes: number, period?: string): string {
+  let words = numberToWords(hours);
+
+  if (minutes === 0) {
+    words += period ? '' : " o'clock";
+  } else if (minutes < 10) {
+    words += ` oh ${numberToWords(minutes)}`;
+  } else {
+    words += ` ${numberToWords(minutes)}`;
+  }
+
+  if (period) {
+    words += ` ${period.replace(/\./g, '').toUpperCase().split('').join(' ')}`;
+  }
+  return words;
+}
+
+// (3, 15, 2024) -> "March fifteenth, twenty twenty-four"
+export function dateToWords(month: number, day: number, year?: number): string {
+  const date = `${MONTH_NAMES[month - 1]} ${ordinalToWords(day)}`;
+  return year ? `${date}, ${yearToWords(year)}` : date;
+}
+
+// "(555) 123-4567" -> "five five five, one two three, four five six seven"
+export function phoneNumberToWords(phone: string): string {
+  return (phone.match(/\d+/g) || []).map(spellDigits).join(', ');
+}
+
+// ("10", "20") -> "ten to twenty"; two years read as years
+export function rangeToWords(from: string, to: string): string {
+  return YEAR.test(from) && YEAR.test(to)
+    ? `${yearToWords(Number(from))} to ${yearToWords(Number(to))}`
+    : `${decimalToWords(from)} to ${decimalToWords(to)}`;
+}
+
+const MEASUREMENTS: [RegExp, (value: number) => string][] = [
+  [/(\d+)°?f\b/gi, (value) => `${numberToWords(value)} degrees Fahrenheit`],
+  [/(\d+)°?c\b/gi, (value) => `${numberToWords(value)} degrees Celsius`],
+  [/(\d+)\s*oz\b/gi, (value) => `${numberToWords(value)} ounce${value !== 1 ? 's' : ''}`],
+  [/(\d+)\s*g\b/gi, (value) => `${numberToWords(value)} gram${value !== 1 ? 's' : ''}`],
+  [/(\d+)\s*lbs?\b/gi, (value) => `${numberToWords(value)} pound${value !== 1 ? 's' : ''}`]
+];
+
+/**
+ * Spell out abbreviated temperatures and weights ("350F", "8 oz", "2 lbs")
+ * so TTS does not read the unit as a letter.
+ */
+export function spellOutMeasurements(text: string): string {
+  return MEASUREMENTS.reduce(
+    (result, [pattern, toWords]) => result.replace(pattern, (match, value) => toWords(parseInt(value))),
+    text
+  );
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { applyDiff, diffWords } from '@/utils/textDiff';
+
+describe('diffWords', () => {
+  it('splits an edit into independent changes', () => {
+    const segments = diffWords('The cat sat on the mat.', 'The dog sat on the red mat.');
+    const changes = segments.filter(segment => segment.type === 'change');
+
+    expect(changes).toHaveLength(2);
+    expect(applyDiff(segments, new Set())).toBe('The cat sat on the mat.');
+    expect(applyDiff(segments, new Set([changes[0].id]))).toBe('The dog sat on the mat.');
+    expect(applyDiff(segments, new Set(changes.map(change => change.id)))).toBe('The dog sat on the red mat.');
+  });
+
+  it('merges edits separated only by whitespace', () => {
+    const segments = diffWords('She walked very slowly home.', 'She ran quickly home.');
+
+    expect(segments.filter(segment => segment.type === 'change')).toHaveLength(1);
+  });
+
+  it('shows a rewrite too large to diff word by word as one change', () => {
+    const original = 'Intro. ' + Array.from({ length: 3000 }, (_, i) => `old${i}`).join(' ') + ' Outro.';
+    const revised = 'Intro. ' + Array.from({ length: 3000 }, (_, i) => `new${i}`).join(' ') + ' Outro.';
+    const segments = diffWords(original, revised);
+
+    expect(segments[0]).toEqual({ type: 'equal', text: 'Intro. ' });
+    expect(segments.filter(segment => segment.type === 'change')).toHaveLength(1);
+    expect(applyDiff(segments, new Set([0]))).toBe(revised);
+  });
+});
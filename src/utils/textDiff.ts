@@ -0,0 +1,135 @@
+/**
+ * Word-level text diff
+ * Splits an edit into independent changes so each one can be accepted or rejected
+ */
+
+export interface DiffChange {
+  type: 'change';
+  id: number;
+  removed: string;
+  added: string;
+}
+
+export type DiffSegment = { type: 'equal'; text: string } | DiffChange;
+
+// Words (with apostrophes and hyphens), runs of whitespace, and single punctuation marks
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}'’-]+|[^\s\p{L}\p{N}]/gu;
+
+// Largest LCS table built (4 bytes a cell, 16 MB); bigger rewrites are shown as one change
+const MAX_TABLE_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) || [];
+}
+
+// Token-level diff through a longest common subsequence table, filled from the end
+function diffTokens(
+  a: string[],
+  b: string[],
+  push: (type: 'equal' | 'removed' | 'added', text: string) => void
+) {
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+}
+
+/**
+ * Diff two texts word by word. Adjacent edits separated only by whitespace
+ * are merged into one change so a rewritten phrase reads as a single change
+ * instead of a run of one-word edits.
+ */
+export function diffWords(original: string, revised: string): DiffSegment[] {
+  const allA = tokenize(original);
+  const allB = tokenize(revised);
+
+  const raw: { type: 'equal' | 'removed' | 'added'; text: string }[] = [];
+  const push = (type: 'equal' | 'removed' | 'added', text: string) => {
+    if (!text) return;
+    const last = raw[raw.length - 1];
+    if (last && last.type === type) last.text += text;
+    else raw.push({ type, text });
+  };
+
+  // Only the part between the common start and end needs diffing
+  let prefix = 0;
+  while (prefix < allA.length && prefix < allB.length && allA[prefix] === allB[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < allA.length - prefix &&
+    suffix < allB.length - prefix &&
+    allA[allA.length - 1 - suffix] === allB[allB.length - 1 - suffix]
+  ) suffix++;
+
+  const a = allA.slice(prefix, allA.length - suffix);
+  const b = allB.slice(prefix, allB.length - suffix);
+  push('equal', allA.slice(0, prefix).join(''));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) {
+    push('removed', a.join(''));
+    push('added', b.join(''));
+  } else {
+    diffTokens(a, b, push);
+  }
+  push('equal', allA.slice(allA.length - suffix).join(''));
+
+  // Group removals and additions into changes, absorbing whitespace-only gaps between them
+  const segments: DiffSegment[] = [];
+  let nextId = 0;
+  for (let k = 0; k < raw.length; k++) {
+    const part = raw[k];
+    const last = segments[segments.length - 1];
+
+    if (part.type === 'equal') {
+      const bridgesChanges = /^\s+$/.test(part.text) && last?.type === 'change' && raw[k + 1] && raw[k + 1].type !== 'equal';
+      if (bridgesChanges) {
+        last.removed += part.text;
+        last.added += part.text;
+      } else {
+        segments.push({ type: 'equal', text: part.text });
+      }
+      continue;
+    }
+
+    let change = last?.type === 'change' ? last : null;
+    if (!change) {
+      change = { type: 'change', id: nextId++, removed: '', added: '' };
+      segments.push(change);
+    }
+    if (part.type === 'removed') change.removed += part.text;
+    else change.added += part.text;
+  }
+
+  return segments;
+}
+
+// Rebuild the text, taking the revised side of accepted changes and the original side of the rest
+export function applyDiff(segments: DiffSegment[], accepted: Set<number>): string {
+  return segments
+    .map(segment => {
+      if (segment.type === 'equal') return segment.text;
+      return accepted.has(segment.id) ? segment.added : segment.removed;
+    })
+    .join('');
+}
@@ -0,0 +1,37 @@
+-- Story bible: characters, locations, terms and timeline facts per book
+-- Run this in your Supabase SQL Editor AFTER database-setup.sql
+--
+-- Entries are sent with AI chat and chapter drafting requests so the assistant
+-- keeps names and facts consistent across chapters.
+
+CREATE TABLE IF NOT EXISTS story_bible_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  biglio_id UUID NOT NULL REFERENCES biglios(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('character', 'location', 'term', 'timeline')),
+  -- A name, or a short label for a timeline fact
+  name TEXT NOT NULL,
+  -- Other names the entry is referred to by ("Liz" for "Elizabeth")
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  description TEXT NOT NULL DEFAULT '',
+  -- Where a timeline fact happens or a character first appears
+  chapter_number INTEGER CHECK (chapter_number > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (biglio_id, kind, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_bible_entries_biglio_id ON story_bible_entries(biglio_id);
+
+ALTER TABLE story_bible_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Channel owners can manage their story bible" ON story_bible_entries;
+CREATE POLICY "Channel owners can manage their story bible" ON story_bible_entries FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM biglios
+    JOIN channels ON channels.id = biglios.channel_id
+    WHERE biglios.id = story_bible_entries.biglio_id
+    AND channels.user_id = auth.uid()
+  )
+);
+
+SELECT 'Story bible table created successfully!' as message;